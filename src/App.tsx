@@ -1,7 +1,18 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { BarChart3 } from "lucide-react";
-import TamagotchiPanel from "./components/TamagotchiPanel";
+import TamagotchiPanel, { renamePetCategory, removePetCategory } from "./components/TamagotchiPanel";
 import LexiconEditor from "./components/LexiconEditor";
+import TimelineChart from "./components/TimelineChart";
+import ExplainView from "./components/ExplainView";
+import SpeakerTable from "./components/SpeakerTable";
+import CompareView from "./components/CompareView";
+import EvalView from "./components/EvalView";
+import ProfileSwitcher from "./components/ProfileSwitcher";
+import CommentRuleEditor from "./components/CommentRuleEditor";
+import CommentBankTransfer from "./components/CommentBankTransfer";
+import NarrativePhraseEditor from "./components/NarrativePhraseEditor";
+import VirtualList from "./components/VirtualList";
+import { useAnalysis, useSpeakers, useTimeline } from "./hooks/useAnalysis";
 import {
   Radar,
   RadarChart,
@@ -18,41 +29,108 @@ import {
   Download,
   BookOpen,
   RefreshCw,
+  Shuffle,
   Heart,
-  Sparkles,
-  Cloud,
-  Droplets,
-  Flame,
   Clock,
   Pin,
   Trash2,
   Copy,
   Upload,
   X,
+  Search,
   ChevronRight,
-  MessageCircle
+  MessageCircle,
+  GitCompare,
+  FlaskConical
 } from "lucide-react";
 import { Settings } from "lucide-react";
+import {
+  leadersOf,
+  simpleHash,
+  hashBase36,
+  hashLexicon,
+  isLexicon,
+  validateLexicon,
+  DEFAULT_LEXICON,
+  DEFAULT_MODIFIERS,
+  isModifiers,
+  withModifierDefaults,
+  SCORING_MODE_LABEL,
+  LANGUAGE_LABEL,
+  DEFAULT_LEXICON_EN,
+  detectLanguage,
+  OVERLAP_POLICIES,
+  NORMALIZE_STEPS,
+  NORMALIZE_STEP_LABEL,
+  CONFIDENCE_LABEL,
+  isLowConfidence,
+  parseChatLog,
+  chatBody,
+  DEFAULT_CATEGORIES,
+  categoriesOf,
+  addCategory,
+  renameCategory,
+  removeCategory,
+  remapModifiers,
+  remapBuiltinCategories,
+  isBuiltinCategoryMap,
+  renameKey,
+  dropKey,
+  buildNarrative,
+  DEFAULT_NARRATIVE_PHRASES,
+  isNarrativePhrases,
+  withNarrativeDefaults,
+  type NarrativePhrases,
+  type ScoringMode,
+  type Language,
+  type ConfidenceLevel,
+  type OverlapPolicy,
+  type NormalizeOptions,
+  type NormalizeStep,
+  type AnalysisResult,
+  type Category,
+  type Lexicon,
+  type Modifiers,
+  type SpeakerAnalysis,
+  type BuiltinCategoryMap,
+} from "./engine";
+import {
+  CATEGORY_PALETTE,
+  DEFAULT_CATEGORY_DEFS,
+  CategoryIconView,
+  isCategoryDef,
+  reconcileCategoryDefs,
+  type CategoryDef,
+  type CategoryOp,
+} from "./categories";
+import {
+  COMMENT_LEVELS,
+  COMMENT_LEVEL_LABEL,
+  COMMENT_VARIABLES,
+  commentLevelOf,
+  commentVarsOf,
+  firstMatchingRule,
+  isCommentRule,
+  parseCommentBank,
+  removeRuleCategory,
+  renameRuleCategory,
+  renderCommentTemplate,
+  ruleCategory,
+  unknownCommentVariables,
+  type CommentBank,
+  type CommentLevel,
+  type CommentRule,
+  type ShownComment,
+} from "./comments";
 
 // ===== メタ情報 =====
 const COPYRIGHT_YEAR = 2025 as const;
 
-// ===== 型定義 =====
-type Category = "愛情" | "切なさ" | "悲しみ" | "甘え" | "欲";
-
-interface Lexeme {
-  term: string;
-  weight?: number;
-  categories?: Category[];
-}
-
-type Lexicon = Record<Category, Lexeme[]>;
-
 // ===== コメントテンプレ型・保存キー =====
-type CommentLevel = "soft" | "mid" | "high";
-export type CommentBank = Record<Category, Record<CommentLevel, string[]>>;
-
+// 文の中の {top_term} などは表示のときに解析結果で埋める（comments.ts）
 const COMMENT_BANK_KEY = "emotion_radar_comment_bank_v1";
+const COMMENT_RULES_KEY = "emotion_radar_comment_rules_v1";
+const NARRATIVE_KEY = "emotion_radar_narrative_v1";
 
 // デフォルト文言
 const DEFAULT_COMMENT_BANK: CommentBank = {
@@ -143,12 +221,17 @@ const DEFAULT_COMMENT_BANK: CommentBank = {
   },
 };
 
+// カテゴリを足したときの空のコメント
+function emptyComments(): Record<CommentLevel, string[]> {
+  return { soft: [], mid: [], high: [] };
+}
+
 // 読み込み・保存
 function loadCommentBank(): CommentBank {
   try {
     const raw = localStorage.getItem(COMMENT_BANK_KEY);
     if (!raw) return DEFAULT_COMMENT_BANK;
-    return JSON.parse(raw) as CommentBank;
+    return parseCommentBank(JSON.parse(raw))?.bank ?? DEFAULT_COMMENT_BANK;
   } catch {
     return DEFAULT_COMMENT_BANK;
   }
@@ -158,104 +241,46 @@ function saveCommentBank(bank: CommentBank) {
   localStorage.setItem(COMMENT_BANK_KEY, JSON.stringify(bank));
 }
 
+function loadCommentRules(): CommentRule[] {
+  try {
+    const raw = localStorage.getItem(COMMENT_RULES_KEY);
+    const arr = raw ? JSON.parse(raw) : [];
+    return Array.isArray(arr) ? arr.filter(isCommentRule) : [];
+  } catch {
+    return [];
+  }
+}
 
+function saveCommentRules(rules: CommentRule[]) {
+  localStorage.setItem(COMMENT_RULES_KEY, JSON.stringify(rules));
+}
 
+// 要約の文言（足りないものは既定で埋める）
+function loadNarrativePhrases(): NarrativePhrases {
+  try {
+    const raw = localStorage.getItem(NARRATIVE_KEY);
+    if (!raw) return DEFAULT_NARRATIVE_PHRASES;
+    const parsed = JSON.parse(raw);
+    return isNarrativePhrases(parsed) ? withNarrativeDefaults(parsed) : DEFAULT_NARRATIVE_PHRASES;
+  } catch {
+    return DEFAULT_NARRATIVE_PHRASES;
+  }
+}
 
+function saveNarrativePhrases(p: NarrativePhrases) {
+  localStorage.setItem(NARRATIVE_KEY, JSON.stringify(p));
+}
 
-// ===== カテゴリアイコンマップ =====
-const CATEGORY_ICONS: Record<Category, React.ReactNode> = {
-  愛情: <Heart className="w-3 h-3" />,
-  切なさ: <Cloud className="w-3 h-3" />,
-  悲しみ: <Droplets className="w-3 h-3" />,
-  甘え: <Sparkles className="w-3 h-3" />,
-  欲: <Flame className="w-3 h-3" />,
-};
-
-// ===== カテゴリカラー =====
-const CATEGORY_COLORS: Record<Category, string> = {
-  愛情: "from-rose-500/20 to-pink-500/20 border-rose-500/40",
-  切なさ: "from-violet-500/20 to-purple-500/20 border-violet-500/40",
-  悲しみ: "from-blue-500/20 to-cyan-500/20 border-blue-500/40",
-  甘え: "from-amber-500/20 to-yellow-500/20 border-amber-500/40",
-  欲: "from-orange-500/20 to-red-500/20 border-orange-500/40",
-};
-
-// ===== デフォルト語彙（初期値） =====
-const DEFAULT_LEXICON: Lexicon = {
-  愛情: [
-    { term: "愛してる", weight: 3 },
-    { term: "愛してるよ", weight: 3 },
-    { term: "好き", weight: 2 },
-    { term: "大好き", weight: 3 },
-    { term: "いとしい", weight: 2 },
-    { term: "大切", weight: 2 },
-    { term: "ずっと", weight: 1.5 },
-    { term: "抱きしめ", weight: 2 },
-    { term: "ぎゅ", weight: 1.8 },
-    { term: "キス", weight: 1.6 },
-    { term: "そばに", weight: 1.4 },
-    { term: "一緒に", weight: 1.2 },
-    { term: "誓う", weight: 1.8 },
-  ],
-  切なさ: [
-    { term: "切ない", weight: 3 },
-    { term: "恋しい", weight: 2.2, categories: ["愛情", "切なさ"] },
-    { term: "会いたい", weight: 2.4, categories: ["愛情", "切なさ"] },
-    { term: "まだ", weight: 1 },
-    { term: "もし", weight: 1.2 },
-    { term: "いつか", weight: 1.2 },
-    { term: "届か", weight: 1.4 },
-    { term: "足りない", weight: 1.6 },
-    { term: "ため息", weight: 1.6 },
-  ],
-  悲しみ: [
-    { term: "悲しい", weight: 3 },
-    { term: "涙", weight: 2.4 },
-    { term: "辛い", weight: 2.4 },
-    { term: "苦しい", weight: 2.2 },
-    { term: "寂しい", weight: 2.2 },
-    { term: "痛い", weight: 1.6 },
-    { term: "泣", weight: 2.0 },
-    { term: "喪失", weight: 2.2 },
-  ],
-  甘え: [
-    { term: "ねえ", weight: 1.4 },
-    { term: "お願い", weight: 1.8 },
-    { term: "だっこ", weight: 2.0 },
-    { term: "撫でて", weight: 1.8 },
-    { term: "よしよし", weight: 1.6 },
-    { term: "そばにいて", weight: 2.0 },
-    { term: "ぎゅー", weight: 1.8 },
-    { term: "甘え", weight: 2.0 },
-    { term: "頼って", weight: 1.6 },
-  ],
-  欲: [
-    { term: "欲しい", weight: 2.0 },
-    { term: "欲", weight: 2.2 },
-    { term: "もっと", weight: 1.8 },
-    { term: "求め", weight: 2.0 },
-    { term: "ください", weight: 1.2 },
-    { term: "して", weight: 1.1 },
-    { term: "触れ", weight: 1.6, categories: ["愛情", "欲"] },
-    { term: "抱い", weight: 1.6, categories: ["愛情", "欲"] },
-    { term: "熱", weight: 1.4 },
-  ],
+// 信頼度バッジの色
+const CONFIDENCE_BADGE: Record<ConfidenceLevel, string> = {
+  none: "bg-white/5 border-white/10 text-gray-400",
+  low: "bg-amber-500/15 border-amber-500/40 text-amber-200",
+  medium: "bg-sky-500/15 border-sky-500/30 text-sky-200",
+  high: "bg-emerald-500/15 border-emerald-500/30 text-emerald-200",
 };
 
-// 強/弱調語、否定マーカー、感情補助（絵文字など）
-const INTENSIFIERS = [
-  "とても", "すごく", "めっちゃ", "超絶", "超",
-  "かなり", "本当に", "ほんとに", "めちゃくちゃ",
-];
-const DIMINISHERS = ["少し", "ちょっと", "やや", "まあまあ", "すこし"];
-const NEGATIONS = ["じゃない", "ではない", "ない", "ぬ", "ず"];
-const EMOJI_BOOST: { [k in Category]: string[] } = {
-  愛情: ["❤️", "💕", "😘", "💖", "🥰"],
-  切なさ: ["🥺", "😢"],
-  悲しみ: ["😢", "😭"],
-  甘え: ["🤲", "🤗"],
-  欲: ["🔥", "💦", "😏"],
-};
+// 会話モードで重ねる話者の線の色（この数までレーダーに載せる）
+const SPEAKER_STROKES = ["#f472b6", "#38bdf8", "#facc15", "#4ade80", "#fb923c", "#94a3b8"];
 
 // サンプル文
 const SAMPLE = `
@@ -263,19 +288,10 @@ const SAMPLE = `
 大切に思っていることは変わらない。もう少しだけそばにいてほしい。`;
 
 // 画面説明（場所を移動させる用）
-const HERO_DESC = `テキストから感情を分析し、5つのカテゴリで可視化します。\n あなたの言葉に込められた感情を美しいレーダーチャートで表現。`;
+const HERO_DESC = `テキストから感情を分析し、カテゴリごとに可視化します。\n あなたの言葉に込められた感情を美しいレーダーチャートで表現。`;
 
 
 // ===== ユーティリティ関数 =====
-function simpleHash(s: string): number {
-  let h = 0;
-  for (let i = 0; i < s.length; i++) {
-    h = (h << 5) - h + s.charCodeAt(i);
-    h |= 0;
-  }
-  return Math.abs(h);
-}
-
 function seededPick<T>(arr: T[], seed: string): T {
   if (!arr || arr.length === 0) return (undefined as unknown) as T;
   const n = simpleHash(seed) % arr.length;
@@ -284,7 +300,16 @@ function seededPick<T>(arr: T[], seed: string): T {
 
 // LocalStorage
 const LEXICON_KEY = "emotion_radar_template_lexicon_v1";
+const MODIFIERS_KEY = "emotion_radar_modifiers_v1";
+const OVERLAP_KEY = "emotion_radar_overlap_v1";
+const NORMALIZE_KEY = "emotion_radar_normalize_v1";
 const HISTORY_KEY = "emotion_radar_history_v1";
+const CATEGORY_DEFS_KEY = "emotion_radar_categories_v1";
+const BUILTIN_CATEGORIES_KEY = "emotion_radar_builtin_categories_v1";
+const RELATION_BOOST_KEY = "emotion_radar_relation_boost_v1";
+const SCORING_KEY = "emotion_radar_scoring_v1";
+const PROFILES_KEY = "emotion_radar_profiles_v1";
+const ACTIVE_PROFILE_KEY = "emotion_radar_active_profile_v1";
 const HISTORY_MAX_DEFAULT = 500;
 
 const HISTORY_SAVE_DEBOUNCE_MS = 6000;
@@ -294,7 +319,7 @@ const HISTORY_MIN_CHARS = 10;
 type GrowthStats = Record<Category, number>;
 
 const GROWTH_KEY = "emotion_radar_growth_v1";
-const DEFAULT_GROWTH: GrowthStats = { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 };
+const DEFAULT_GROWTH: GrowthStats = {};
 
 function loadGrowth(): GrowthStats {
   try {
@@ -314,10 +339,8 @@ function loadLexicon(): Lexicon {
   try {
     const raw = localStorage.getItem(LEXICON_KEY);
     if (!raw) return DEFAULT_LEXICON;
-    const parsed = JSON.parse(raw) as Lexicon;
-    const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-    for (const c of cats) if (!Array.isArray((parsed as any)[c])) return DEFAULT_LEXICON;
-    return parsed;
+    const parsed = JSON.parse(raw);
+    return isLexicon(parsed) ? parsed : DEFAULT_LEXICON;
   } catch {
     return DEFAULT_LEXICON;
   }
@@ -329,153 +352,245 @@ function saveLexicon(lex: Lexicon) {
 
 function resetLexicon() {
   localStorage.removeItem(LEXICON_KEY);
+  localStorage.removeItem(CATEGORY_DEFS_KEY);
+  localStorage.removeItem(BUILTIN_CATEGORIES_KEY);
+  localStorage.removeItem(MODIFIERS_KEY);
+  localStorage.removeItem(OVERLAP_KEY);
+  localStorage.removeItem(NORMALIZE_KEY);
 }
 
-// 解析関数
-function countSubstringIndices(text: string, term: string): number[] {
-  const indices: number[] = [];
-  let from = 0;
-  while (true) {
-    const idx = text.indexOf(term, from);
-    if (idx === -1) break;
-    indices.push(idx);
-    from = idx + term.length;
+// カテゴリの色・アイコン（どの軸があるかは辞書のキーが決める）
+function loadCategoryDefs(): CategoryDef[] {
+  try {
+    const raw = localStorage.getItem(CATEGORY_DEFS_KEY);
+    if (!raw) return DEFAULT_CATEGORY_DEFS;
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isCategoryDef) : DEFAULT_CATEGORY_DEFS;
+  } catch {
+    return DEFAULT_CATEGORY_DEFS;
   }
-  return indices;
 }
 
-function windowHas(wordList: string[], windowText: string): boolean {
-  return wordList.some((w) => windowText.includes(w));
+function saveCategoryDefs(defs: CategoryDef[]) {
+  localStorage.setItem(CATEGORY_DEFS_KEY, JSON.stringify(defs));
 }
 
-function baseEmojiBoost(text: string, cat: Category): number {
-  const emojis = EMOJI_BOOST[cat];
-  let c = 0;
-  for (const e of emojis) {
-    c += (text.match(new RegExp(e, "g")) || []).length;
+// 同梱の表（英語の辞書・顔文字の推定）のカテゴリ名の読み替え。改名・削除のたびに書き換える
+function loadBuiltinCategories(): BuiltinCategoryMap {
+  try {
+    const raw = localStorage.getItem(BUILTIN_CATEGORIES_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return isBuiltinCategoryMap(parsed) ? parsed : {};
+  } catch {
+    return {};
   }
-  return c * 1.2;
 }
 
-function analyze(text: string, lexicon: Lexicon, relationBoost = true) {
-  const t = text.trim();
-  if (!t) {
-    return {
-      raw: { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 } as Record<Category, number>,
-      normalized: { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 } as Record<Category, number>,
-      details: new Map<Category, Map<string, number>>(),
-    };
+function saveBuiltinCategories(map: BuiltinCategoryMap) {
+  localStorage.setItem(BUILTIN_CATEGORIES_KEY, JSON.stringify(map));
+}
+
+// 修飾語辞書（強弱・否定・絵文字・関係語）
+function loadModifiers(): Modifiers {
+  try {
+    const raw = localStorage.getItem(MODIFIERS_KEY);
+    if (!raw) return DEFAULT_MODIFIERS;
+    const parsed = JSON.parse(raw);
+    return isModifiers(parsed) ? withModifierDefaults(parsed) : DEFAULT_MODIFIERS;
+  } catch {
+    return DEFAULT_MODIFIERS;
   }
+}
 
-  const exclamAmp = Math.min(0.5, (t.match(/[!！]/g) || []).length * 0.05);
-  const amp = 1 + exclamAmp;
+function saveModifiers(m: Modifiers) {
+  localStorage.setItem(MODIFIERS_KEY, JSON.stringify(m));
+}
 
-  const raw: Record<Category, number> = {
-    愛情: 0,
-    切なさ: 0,
-    悲しみ: 0,
-    甘え: 0,
-    欲: 0,
-  };
-  const details = new Map<Category, Map<string, number>>();
-
-  const categories: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-  for (const c of categories) details.set(c, new Map());
-
-  if (relationBoost) {
-    const bondBoosters = ["あなた", "君", "妻", "夫", "二人", "ずっと一緒", "約束", "誓い"];
-    let bonus = 0;
-    bondBoosters.forEach((w) => (bonus += (t.match(new RegExp(w, "g")) || []).length * 0.6));
-    raw["愛情"] += bonus;
-    if (bonus)
-      details
-        .get("愛情")
-        ?.set("__RELATION_META__", (details.get("愛情")?.get("__RELATION_META__") || 0) + bonus);
-  }
+// 重なった辞書語の扱い
+function loadOverlap(): OverlapPolicy {
+  const v = localStorage.getItem(OVERLAP_KEY);
+  return OVERLAP_POLICIES.includes(v as OverlapPolicy) ? (v as OverlapPolicy) : "all";
+}
 
-  for (const cat of categories) {
-    for (const lex of lexicon[cat]) {
-      const weight = lex.weight ?? 1;
-      const idxs = countSubstringIndices(t, lex.term);
-      for (const idx of idxs) {
-        const left = t.slice(Math.max(0, idx - 8), idx);
-        const right = t.slice(idx + lex.term.length, idx + lex.term.length + 6);
-
-        let factor = 1;
-        if (windowHas(INTENSIFIERS, left)) factor *= 1.5;
-        if (windowHas(DIMINISHERS, left)) factor *= 0.7;
-        if (windowHas(NEGATIONS, right)) factor = 0;
-
-        const delta = weight * factor;
-        const cats = lex.categories ?? [cat];
-        for (const cc of cats) {
-          raw[cc] += delta;
-          const m = details.get(cc)!;
-          m.set(lex.term, (m.get(lex.term) || 0) + delta);
-        }
-      }
-    }
+function saveOverlap(p: OverlapPolicy) {
+  localStorage.setItem(OVERLAP_KEY, p);
+}
+
+// 照合前の正規化
+function loadNormalize(): NormalizeOptions {
+  try {
+    const raw = localStorage.getItem(NORMALIZE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? (parsed as NormalizeOptions) : {};
+  } catch {
+    return {};
   }
+}
+
+function saveNormalize(n: NormalizeOptions) {
+  localStorage.setItem(NORMALIZE_KEY, JSON.stringify(n));
+}
+
+// 関係語ブースト・採点の方式
+function loadRelationBoost(): boolean {
+  return localStorage.getItem(RELATION_BOOST_KEY) !== "0";
+}
 
-  for (const c of categories) {
-    raw[c] += baseEmojiBoost(t, c);
+function saveRelationBoost(on: boolean) {
+  localStorage.setItem(RELATION_BOOST_KEY, on ? "1" : "0");
+}
+
+function loadScoring(): ScoringMode {
+  const v = localStorage.getItem(SCORING_KEY);
+  return v && v in SCORING_MODE_LABEL ? (v as ScoringMode) : "relative";
+}
+
+function saveScoring(s: ScoringMode) {
+  localStorage.setItem(SCORING_KEY, s);
+}
+
+// ▼ プロファイル（用途ごとの辞書・修飾語・採点の方式・コメントのひとまとまり）
+// 使用中のプロファイルの中身は上の各キー（辞書・修飾語…）に置いたまま編集し、
+// 切り替えるときに PROFILES_KEY の控えへ書き戻す。なので使用中の控えは古いことがある
+type Profile = {
+  name: string;
+  lexicon: Lexicon;
+  categoryDefs: CategoryDef[];
+  builtinCategories: BuiltinCategoryMap;
+  modifiers: Modifiers;
+  overlap: OverlapPolicy;
+  normalize: NormalizeOptions;
+  relationBoost: boolean;
+  scoring: ScoringMode;
+  commentBank: CommentBank;
+  commentRules: CommentRule[];
+};
+
+const DEFAULT_PROFILE_NAME = "標準";
+
+// 足りない項目は既定値で埋める（壊れた控えは読まない）
+function toProfile(v: unknown): Profile | null {
+  const p = v as Partial<Profile> | null;
+  if (!p || typeof p.name !== "string" || !p.name.trim() || !isLexicon(p.lexicon)) return null;
+  return {
+    name: p.name,
+    lexicon: p.lexicon,
+    categoryDefs: reconcileCategoryDefs(
+      categoriesOf(p.lexicon),
+      Array.isArray(p.categoryDefs) ? p.categoryDefs.filter(isCategoryDef) : DEFAULT_CATEGORY_DEFS
+    ),
+    builtinCategories: isBuiltinCategoryMap(p.builtinCategories) ? p.builtinCategories : {},
+    modifiers: isModifiers(p.modifiers) ? withModifierDefaults(p.modifiers) : DEFAULT_MODIFIERS,
+    overlap: OVERLAP_POLICIES.includes(p.overlap as OverlapPolicy) ? (p.overlap as OverlapPolicy) : "all",
+    normalize: p.normalize && typeof p.normalize === "object" ? p.normalize : {},
+    relationBoost: p.relationBoost !== false,
+    scoring: p.scoring && p.scoring in SCORING_MODE_LABEL ? p.scoring : "relative",
+    commentBank: parseCommentBank(p.commentBank)?.bank ?? DEFAULT_COMMENT_BANK,
+    commentRules: Array.isArray(p.commentRules) ? p.commentRules.filter(isCommentRule) : [],
+  };
+}
+
+function loadProfiles(): Profile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const arr = raw ? JSON.parse(raw) : [];
+    return Array.isArray(arr) ? arr.flatMap((p) => toProfile(p) ?? []) : [];
+  } catch {
+    return [];
   }
+}
 
-  const lengthNorm = Math.max(0.7, Math.min(1.0, 180 / Math.max(60, t.length)));
-  for (const c of categories) raw[c] *= amp * lengthNorm;
+function saveProfiles(list: Profile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(list));
+}
 
-  const maxv = Math.max(0.0001, ...categories.map((c) => raw[c]));
-  const normalized: Record<Category, number> = {
-    愛情: (raw["愛情"] / maxv) * 100,
-    切なさ: (raw["切なさ"] / maxv) * 100,
-    悲しみ: (raw["悲しみ"] / maxv) * 100,
-    甘え: (raw["甘え"] / maxv) * 100,
-    欲: (raw["欲"] / maxv) * 100,
+// カテゴリの改名・削除を控えのプロファイルへ反映する（履歴や育成はプロファイルをまたいで共通なので、控えも名前をそろえる）。
+// 改名先と同じ名前のカテゴリを既に持つ控えは、混ざらないようそのままにする
+function renameInProfile(p: Profile, from: Category, to: Category): Profile {
+  if (to in p.lexicon || p.categoryDefs.some((d) => d.name === to)) return p;
+  return {
+    ...p,
+    lexicon: renameCategory(p.lexicon, from, to),
+    categoryDefs: p.categoryDefs.map((d) => (d.name === from ? { ...d, name: to } : d)),
+    builtinCategories: remapBuiltinCategories(p.builtinCategories, from, to),
+    modifiers: remapModifiers(p.modifiers, from, to),
+    commentBank: renameKey(p.commentBank, from, to),
+    commentRules: renameRuleCategory(p.commentRules, from, to),
   };
+}
 
-  return { raw, normalized, details };
+function removeFromProfile(p: Profile, name: Category): Profile {
+  return {
+    ...p,
+    lexicon: removeCategory(p.lexicon, name),
+    categoryDefs: p.categoryDefs.filter((d) => d.name !== name),
+    builtinCategories: remapBuiltinCategories(p.builtinCategories, name, undefined),
+    modifiers: remapModifiers(p.modifiers, name, undefined),
+    commentBank: dropKey(p.commentBank, name),
+    commentRules: removeRuleCategory(p.commentRules, name),
+  };
+}
+
+function loadActiveProfile(): string {
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_NAME;
+}
+
+function saveActiveProfile(name: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, name);
 }
 
 // 履歴型定義
-const APP_VERSION = "1.3.0";
-type NormTuple = [number, number, number, number, number];
+const APP_VERSION = "1.4.0";
+type CategoryScores = Record<Category, number>;
 type TopTerms = Record<Category, Array<[string, number]>>;
 
+/** 会話モードで保存した話者ひとりぶん */
+type SpeakerSummary = {
+  name: string;
+  /** 発言数 */
+  count: number;
+  scores: CategoryScores;
+  lead: Category[];
+  top: TopTerms;
+};
+
 type HistItem = {
   id: string;
   ts: string;
   snip: string;
   full: string;
-  norm: NormTuple;
+  /** カテゴリごとの値（保存時のカテゴリ。1.3.0 までは既定5カテゴリの並びの norm タプル） */
+  scores: CategoryScores;
   lead: Category[];
   top: TopTerms;
   ver: string;
   lex: string;
+  /** 解析したときのプロファイル名（未記録の古い履歴は無し） */
+  profile?: string;
+  /** 正規化の方式（未記録の古い履歴は relative） */
+  scoring?: ScoringMode;
+  /** 解析した言語（未記録の古い履歴は ja） */
+  language?: Language;
+  /** 照合前にかけた正規化の手順（かけていないとき・未記録の古い履歴は無し） */
+  normalize?: NormalizeStep[];
+  /** 根拠の量から見た確からしさ（未記録の古い履歴は判定なし） */
+  confidence?: ConfidenceLevel;
+  /** 会話ログとして保存したときの話者ごとの結果（発言の多い順） */
+  speakers?: SpeakerSummary[];
+  /** 保存したときに出していたコメント（復元したら同じものを出す） */
+  comments?: ShownComment[];
   pinned?: boolean;
 };
 
-const CATS_FOR_HISTORY: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-
-function hashBase36(s: string): string {
-  try { return simpleHash(s).toString(36); } catch { return "0"; }
-}
-function hashLexicon(lex: Lexicon): string {
-  try { return hashBase36(JSON.stringify(lex)); } catch { return "0"; }
-}
 function round1(n: number): number { return Math.round(n * 10) / 10; }
 
-function makeHistItem(
-  text: string,
-  analysis: ReturnType<typeof analyze>,
-  leaders: Category[],
-  lexicon: Lexicon
-): HistItem {
-  const clean = text.trim();
-  const full = clean.slice(0, 1000);
-  const snip = clean.slice(0, 120);
-  const norm = CATS_FOR_HISTORY.map(c => round1(analysis.normalized[c])) as NormTuple;
+function scoresOf(analysis: AnalysisResult): CategoryScores {
+  return Object.fromEntries(Object.entries(analysis.normalized).map(([c, v]) => [c, round1(v)]));
+}
 
-  const top = CATS_FOR_HISTORY.reduce((acc, c) => {
+function topTermsOf(analysis: AnalysisResult): TopTerms {
+  return Object.keys(analysis.normalized).reduce((acc, c) => {
     const m = analysis.details.get(c);
     const arr: Array<[string, number]> = m
       ? Array.from(m.entries())
@@ -487,19 +602,103 @@ function makeHistItem(
     (acc as any)[c] = arr;
     return acc;
   }, {} as TopTerms);
+}
+
+function makeHistItem(
+  text: string,
+  analysis: AnalysisResult,
+  leaders: Category[],
+  lexicon: Lexicon,
+  normalize: NormalizeOptions,
+  profile: string,
+  comments: ShownComment[],
+  speakers?: SpeakerAnalysis[]
+): HistItem {
+  const clean = text.trim();
+  const full = clean.slice(0, 1000);
+  const snip = clean.slice(0, 120);
+  const scores = scoresOf(analysis);
+  const top = topTermsOf(analysis);
 
   const id = `${Date.now().toString(36)}-${hashBase36(full)}`;
+  const steps = NORMALIZE_STEPS.filter((s) => normalize[s]);
 
   return {
     id,
     ts: new Date().toISOString(),
     snip,
     full,
-    norm,
+    scores,
     lead: leaders.slice(),
     top,
     ver: APP_VERSION,
-    lex: hashLexicon(lexicon),
+    lex: hashLexicon(analysis.language === "en" ? DEFAULT_LEXICON_EN : lexicon),
+    profile,
+    scoring: analysis.scoring,
+    language: analysis.language,
+    ...(steps.length ? { normalize: steps } : {}),
+    confidence: analysis.coverage.confidence,
+    ...(comments.length ? { comments } : {}),
+    ...(speakers?.length
+      ? {
+          speakers: speakers.map((s) => ({
+            name: s.speaker,
+            count: s.messages,
+            scores: scoresOf(s.result),
+            lead: leadersOf(s.result.normalized),
+            top: topTermsOf(s.result),
+          })),
+        }
+      : {}),
+  };
+}
+
+// 1.3.0 までの履歴は norm: [愛情, 切なさ, 悲しみ, 甘え, 欲] のタプルで持っていた
+type LegacyScores = { scores?: CategoryScores; norm?: number[] };
+
+function scoresFromLegacy(x: LegacyScores): CategoryScores {
+  if (x.scores && typeof x.scores === "object") return x.scores;
+  if (!Array.isArray(x.norm)) return {};
+  return Object.fromEntries(DEFAULT_CATEGORIES.map((c, i) => [c, Number(x.norm?.[i] ?? 0)]));
+}
+
+function migrateHistItem(raw: HistItem & LegacyScores): HistItem {
+  const { norm: _norm, ...it } = raw;
+  return {
+    ...it,
+    scores: scoresFromLegacy(raw),
+    lead: it.lead ?? [],
+    top: it.top ?? {},
+    ...(it.speakers
+      ? {
+          speakers: it.speakers.map((sp: SpeakerSummary & LegacyScores) => {
+            const { norm: _spNorm, ...rest } = sp;
+            return { ...rest, scores: scoresFromLegacy(sp) };
+          }),
+        }
+      : {}),
+  };
+}
+
+// カテゴリの改名を履歴へ反映する（削除したカテゴリは当時の記録として残す）
+function renameInHistItem(it: HistItem, from: Category, to: Category): HistItem {
+  const swap = (c: Category) => (c === from ? to : c);
+  return {
+    ...it,
+    scores: renameKey(it.scores, from, to),
+    lead: it.lead.map(swap),
+    top: renameKey(it.top, from, to),
+    ...(it.comments ? { comments: it.comments.map((c) => ({ ...c, cat: swap(c.cat) })) } : {}),
+    ...(it.speakers
+      ? {
+          speakers: it.speakers.map((sp) => ({
+            ...sp,
+            scores: renameKey(sp.scores, from, to),
+            lead: sp.lead.map(swap),
+            top: renameKey(sp.top, from, to),
+          })),
+        }
+      : {}),
   };
 }
 
@@ -508,7 +707,7 @@ function loadHistory(): HistItem[] {
     const raw = localStorage.getItem(HISTORY_KEY);
     if (!raw) return [];
     const arr = JSON.parse(raw);
-    return Array.isArray(arr) ? (arr as HistItem[]) : [];
+    return Array.isArray(arr) ? arr.map(migrateHistItem) : [];
   } catch { return []; }
 }
 
@@ -540,21 +739,99 @@ function appendWithLimit(existing: HistItem[], draft: HistItem, max = HISTORY_MA
   return next;
 }
 
+// ===== 履歴の検索・絞り込み・並べ替え =====
+type HistoryPinFilter = "all" | "pinned" | "unpinned";
+/** date-desc / date-asc / score:<カテゴリ>（高い順） */
+type HistorySort = "date-desc" | "date-asc" | `score:${Category}`;
+
+type HistoryQuery = {
+  /** 本文の検索語（空白区切りはすべて含むもの） */
+  text: string;
+  /** 首位カテゴリ（空なら絞らない） */
+  lead: Category | "";
+  /** 日付の範囲（YYYY-MM-DD、端の日を含む。空なら絞らない） */
+  from: string;
+  to: string;
+  pinned: HistoryPinFilter;
+  /** 解析したときの辞書のハッシュ（空なら絞らない） */
+  lex: string;
+  hideLowConfidence: boolean;
+  sort: HistorySort;
+};
+
+const EMPTY_HISTORY_QUERY: HistoryQuery = {
+  text: "", lead: "", from: "", to: "", pinned: "all", lex: "", hideLowConfidence: false, sort: "date-desc",
+};
+
+const HISTORY_PIN_FILTER_LABEL: Record<HistoryPinFilter, string> = { all: "すべて", pinned: "ピンのみ", unpinned: "ピン以外" };
+
+/** 条件が何か入っているか（「条件を消す」を出すため。並べ替えは含めない） */
+function isHistoryFiltered(q: HistoryQuery): boolean {
+  return !!(q.text.trim() || q.lead || q.from || q.to || q.lex || q.pinned !== "all" || q.hideLowConfidence);
+}
+
+function filterHistory(items: HistItem[], q: HistoryQuery): HistItem[] {
+  const words = q.text.toLowerCase().split(/[\s\u3000]+/).filter(Boolean);
+  // 日付は端末の時刻で1日の始まり〜終わり
+  const from = q.from ? new Date(`${q.from}T00:00:00`).getTime() : -Infinity;
+  const to = q.to ? new Date(`${q.to}T23:59:59.999`).getTime() : Infinity;
+  return items.filter((it) => {
+    if (q.hideLowConfidence && isLowConfidence(it.confidence)) return false;
+    if (q.pinned === "pinned" && !it.pinned) return false;
+    if (q.pinned === "unpinned" && it.pinned) return false;
+    if (q.lead && !it.lead.includes(q.lead)) return false;
+    if (q.lex && it.lex !== q.lex) return false;
+    const t = new Date(it.ts).getTime();
+    if (t < from || t > to) return false;
+    if (words.length) {
+      const full = it.full.toLowerCase();
+      if (!words.every((w) => full.includes(w))) return false;
+    }
+    return true;
+  });
+}
+
+/** 並べ替え（スコア順でそのカテゴリが無い履歴は後ろ。同点は新しい順） */
+function sortHistory(items: HistItem[], sort: HistorySort): HistItem[] {
+  const byDate = (a: HistItem, b: HistItem) => new Date(b.ts).getTime() - new Date(a.ts).getTime();
+  if (sort === "date-desc") return items.slice().sort(byDate);
+  if (sort === "date-asc") return items.slice().sort((a, b) => byDate(b, a));
+  const cat = sort.slice("score:".length);
+  const score = (it: HistItem) => it.scores[cat] ?? -1;
+  return items.slice().sort((a, b) => score(b) - score(a) || byDate(a, b));
+}
+
 function CommentSettingsEditor({
   bank,
+  categories: cats,
   onChange,
+  rules,
+  onRulesChange,
+  narrative,
+  onNarrativeChange,
+  result,
+  leaders,
+  relationBoost,
   onClose,
 }: {
   bank: CommentBank;
+  categories: Category[];
   onChange: (next: CommentBank) => void;
+  rules: CommentRule[];
+  onRulesChange: (next: CommentRule[]) => void;
+  narrative: NarrativePhrases;
+  onNarrativeChange: (next: NarrativePhrases) => void;
+  /** プレビュー用の今の解析結果（本文が空なら null） */
+  result: AnalysisResult | null;
+  leaders: Category[];
+  relationBoost: boolean;
   onClose: () => void;
 }) {
-  const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-  const levels: CommentLevel[] = ["soft", "mid", "high"];
-  const LEVEL_LABEL: Record<CommentLevel, string> = { soft: "SOFT", mid: "MID", high: "HIGH" };
+  const levels = COMMENT_LEVELS;
+  const LEVEL_LABEL = COMMENT_LEVEL_LABEL;
 
   // 選択中のカテゴリと強さ
-  const [cat, setCat] = useState<Category>("愛情");
+  const [cat, setCat] = useState<Category>(cats[0]);
   const [lv, setLv] = useState<CommentLevel>("soft");
 
   // 入力欄と編集インデックス
@@ -565,7 +842,7 @@ function CommentSettingsEditor({
   const saveLine = () => {
     const v = textVal.trim();
     if (!v) return;
-    const next = { ...bank, [cat]: { ...bank[cat], [lv]: bank[cat][lv].slice() } } as CommentBank;
+    const next = { ...bank, [cat]: { ...emptyComments(), ...bank[cat], [lv]: (bank[cat]?.[lv] ?? []).slice() } } as CommentBank;
     if (editIdx === null) {
       next[cat][lv].push(v);
     } else {
@@ -578,13 +855,13 @@ function CommentSettingsEditor({
 
   // 編集開始
   const startEdit = (idx: number) => {
-    setTextVal(bank[cat][lv][idx] ?? "");
+    setTextVal(bank[cat]?.[lv]?.[idx] ?? "");
     setEditIdx(idx);
   };
 
   // 削除
   const removeLine = (idx: number) => {
-    const next = { ...bank, [cat]: { ...bank[cat], [lv]: bank[cat][lv].slice() } } as CommentBank;
+    const next = { ...bank, [cat]: { ...emptyComments(), ...bank[cat], [lv]: (bank[cat]?.[lv] ?? []).slice() } } as CommentBank;
     next[cat][lv].splice(idx, 1);
     onChange(next);
     // いま編集中の行を消したら入力をリセット
@@ -596,6 +873,10 @@ function CommentSettingsEditor({
 
   const list = (bank[cat]?.[lv] ?? []).filter(s => typeof s === "string");
 
+  // 今の本文で、選択中のカテゴリについて埋めた文
+  const vars = result ? commentVarsOf(result, cat) : null;
+  const unknown = unknownCommentVariables(textVal);
+
   return (
     <div className="fixed inset-0 z-50">
       <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
@@ -610,7 +891,8 @@ function CommentSettingsEditor({
         <div className="p-4 space-y-4 overflow-y-auto">
 
         <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-sm leading-relaxed">
-          入力結果に出すコメントを、感情と強さごとに保存・編集します。保存した複数の文から1つがランダムで表示されます。
+          入力結果に出すコメントを、感情と強さごとに保存・編集します。保存した複数の文から本文ごとに1つを選んで表示します（結果の「引き直す」で選び直せます）。
+          文の中に {"{top_term}"} のような変数を書くと、解析結果の語や数値に置き換わります。
         </div>
 
           {/* 入力セクション */}
@@ -655,6 +937,26 @@ function CommentSettingsEditor({
               placeholder="ここに文を入力"
             />
 
+            {/* 変数（クリックで末尾に挿入） */}
+            <div className="flex flex-wrap gap-1">
+              {COMMENT_VARIABLES.map((v) => (
+                <button
+                  key={v.name}
+                  title={v.label}
+                  onClick={() => setTextVal((t) => `${t}{${v.name}}`)}
+                  className="px-2 py-0.5 rounded bg-black/20 border border-white/10 hover:bg-black/30 text-[11px] font-mono"
+                >
+                  {`{${v.name}}`}
+                </button>
+              ))}
+            </div>
+            {unknown.length > 0 && <p className="text-xs text-amber-300">知らない変数: {unknown.map((n) => `{${n}}`).join(" ")}</p>}
+            {textVal.trim() && (
+              <p className="text-xs opacity-80">
+                {vars ? <>プレビュー（{cat}）：{renderCommentTemplate(textVal, vars)}</> : "本文を入力するとプレビューが出ます"}
+              </p>
+            )}
+
             {/* 保存/キャンセル */}
             <div className="flex items-center gap-2 justify-end">
               {editIdx !== null && (
@@ -687,7 +989,12 @@ function CommentSettingsEditor({
               <div className="space-y-2">
                 {list.map((line, idx) => (
                   <div key={idx} className="flex items-center justify-between gap-2">
-                    <span className="text-sm">{line}</span>
+                    <span className="text-sm">
+                      {line}
+                      {vars && line.includes("{") && (
+                        <span className="block text-xs opacity-60">→ {renderCommentTemplate(line, vars)}</span>
+                      )}
+                    </span>
                     <div className="flex gap-2">
                       <button
                         onClick={() => startEdit(idx)}
@@ -708,6 +1015,12 @@ function CommentSettingsEditor({
             )}
           </div>
 
+          <CommentRuleEditor rules={rules} categories={cats} result={result} leaders={leaders} onChange={onRulesChange} />
+
+          <CommentBankTransfer bank={bank} categories={cats} onChange={onChange} />
+
+          <NarrativePhraseEditor phrases={narrative} onChange={onNarrativeChange} result={result} relationBoost={relationBoost} />
+
         </div>
       </aside>
     </div>
@@ -718,15 +1031,47 @@ function CommentSettingsEditor({
 export default function EmotionRadarTemplateApp() {
   const [text, setText] = useState("");
   const [relationBoost, setRelationBoost] = useState(true);
+  const [scoring, setScoring] = useState<ScoringMode>("relative");
+  const [language, setLanguage] = useState<Language | "auto">("auto");
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [activeSegment, setActiveSegment] = useState<number | null>(null);
+  const [showExplain, setShowExplain] = useState(false);
+  const [conversationMode, setConversationMode] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const [lexicon, setLexicon] = useState<Lexicon>(DEFAULT_LEXICON);
+  const [modifiers, setModifiers] = useState<Modifiers>(DEFAULT_MODIFIERS);
+  const [overlap, setOverlap] = useState<OverlapPolicy>("all");
+  const [normalize, setNormalize] = useState<NormalizeOptions>({});
 
   const [commentBank, setCommentBank] = useState<CommentBank>(DEFAULT_COMMENT_BANK);
+  const [commentRules, setCommentRules] = useState<CommentRule[]>([]);
+  const [narrative, setNarrative] = useState<NarrativePhrases>(DEFAULT_NARRATIVE_PHRASES);
+  // 引き直しの回数（本文が変わると 0 に戻る）と、履歴から戻したときのコメント
+  const [commentRoll, setCommentRoll] = useState(0);
+  const [restoredComments, setRestoredComments] = useState<{ full: string; comments: ShownComment[] } | null>(null);
+  // 履歴から戻した本文は記録した方式・言語で見せる（設定には書き込まない。本文を変えるか設定を触れば設定どおりに戻る）
+  const [restoredMode, setRestoredMode] = useState<{ full: string; scoring?: ScoringMode; language?: Language | "auto" } | null>(null);
+  const shownCommentsRef = useRef<ShownComment[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [activeProfile, setActiveProfile] = useState(DEFAULT_PROFILE_NAME);
 
   const [showEditor, setShowEditor] = useState(false);
   const [showCommentSettings, setShowCommentSettings] = useState(false);
   const [showTamagotchi, setShowTamagotchi] = useState(false);
   const [showGrowth, setShowGrowth] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [showEval, setShowEval] = useState(false);
   const [growth, setGrowth] = useState<GrowthStats>(DEFAULT_GROWTH);
+  const [categoryDefs, setCategoryDefs] = useState<CategoryDef[]>(DEFAULT_CATEGORY_DEFS);
+  const [builtinCategories, setBuiltinCategories] = useState<BuiltinCategoryMap>({});
+  // レーダーの軸は辞書のキー。色・アイコンは保存済みの見た目を辞書の並びにそろえて使う
+  const categories = useMemo(() => categoriesOf(lexicon), [lexicon]);
+  const defs = useMemo(() => reconcileCategoryDefs(categories, categoryDefs), [categories, categoryDefs]);
+  const catColors = useMemo(
+    () => Object.fromEntries(defs.map((d) => [d.name, CATEGORY_PALETTE[d.color].card])) as Record<Category, string>,
+    [defs]
+  );
+  const catIcon = (c: Category) => <CategoryIconView icon={defs.find((d) => d.name === c)?.icon ?? "tag"} />;
   const [lastCsv, setLastCsv] = useState<string>("");
   const [showCsvContent, setShowCsvContent] = useState<boolean>(false);
   const csvTextRef = useRef<HTMLTextAreaElement | null>(null);
@@ -734,6 +1079,7 @@ export default function EmotionRadarTemplateApp() {
   const lastSavedHashRef = useRef<string | null>(null);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showHistory, setShowHistory] = useState(false);
+  const [histQuery, setHistQuery] = useState<HistoryQuery>(EMPTY_HISTORY_QUERY);
   const [showHistExport, setShowHistExport] = useState(false);
   const [histExportText, setHistExportText] = useState<string>("");
   const histExportRef = useRef<HTMLTextAreaElement | null>(null);
@@ -815,8 +1161,7 @@ useEffect(() => {
   // 「同じ解析かどうか」の鍵（小数1桁で丸めて連結）
   const makeResultKey = (latest: Record<Category, number> | null): string | null => {
     if (!latest) return null;
-    const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-    const arr = cats.map(c => Math.round((latest[c] ?? 0) * 10));
+    const arr = categories.map(c => Math.round((latest[c] ?? 0) * 10));
     return arr.join("|");
   };
 
@@ -835,16 +1180,16 @@ useEffect(() => {
       // いまの育成データを読む（なければ初期値）
       const rawPet = localStorage.getItem(PET_KEY);
       const pet: PetSave = rawPet ? JSON.parse(rawPet) : {
-        stats: { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 },
+        stats: {},
         total: 0, version: 1, forms: {}
       };
 
-      const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
+      const cats = categories;
       const prevLevel = Math.floor(Number(pet.total) / 100) + 1;
       const gainFactor = (lv: number) => (lv < 3 ? 1.0 : lv < 6 ? 0.7 : lv < 10 ? 0.5 : 0.35);
 
       // 加算量を作る（Lvが上がるほど少し控えめ）
-      const incStats: Record<Category, number> = { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 };
+      const incStats: Record<Category, number> = {};
       cats.forEach((c) => {
         const raw = (latest[c] ?? 0) * 0.2 * gainFactor(prevLevel);
         incStats[c] = raw > 0 ? Math.max(1, Math.round(raw)) : 0;
@@ -886,6 +1231,15 @@ useEffect(() => {
   useEffect(() => {
     const loaded = loadLexicon();
     setLexicon(loaded);
+    setModifiers(loadModifiers());
+    setOverlap(loadOverlap());
+    setNormalize(loadNormalize());
+    setCategoryDefs(loadCategoryDefs());
+    setBuiltinCategories(loadBuiltinCategories());
+    setRelationBoost(loadRelationBoost());
+    setScoring(loadScoring());
+    setProfiles(loadProfiles());
+    setActiveProfile(loadActiveProfile());
   }, []);
 
 
@@ -893,8 +1247,40 @@ useEffect(() => {
     saveLexicon(lexicon);
   }, [lexicon]);
 
+  useEffect(() => {
+    saveModifiers(modifiers);
+  }, [modifiers]);
+
+  useEffect(() => {
+    saveCategoryDefs(defs);
+  }, [defs]);
+
+  useEffect(() => {
+    saveBuiltinCategories(builtinCategories);
+  }, [builtinCategories]);
+
+  useEffect(() => {
+    saveOverlap(overlap);
+  }, [overlap]);
+
+  useEffect(() => {
+    saveNormalize(normalize);
+  }, [normalize]);
+
+  useEffect(() => {
+    saveRelationBoost(relationBoost);
+  }, [relationBoost]);
+
+  useEffect(() => {
+    saveScoring(scoring);
+  }, [scoring]);
+
 useEffect(() => { setCommentBank(loadCommentBank()); }, []);
 useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
+useEffect(() => { setCommentRules(loadCommentRules()); }, []);
+useEffect(() => { saveCommentRules(commentRules); }, [commentRules]);
+useEffect(() => { setNarrative(loadNarrativePhrases()); }, []);
+useEffect(() => { saveNarrativePhrases(narrative); }, [narrative]);
 
 
   useEffect(() => {
@@ -923,6 +1309,23 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
   }, [growth]);
 
 
+  const viewMode = restoredMode && restoredMode.full === text ? restoredMode : null;
+  const viewScoring = viewMode?.scoring ?? scoring;
+  const viewLanguage = viewMode?.language ?? language;
+
+  // 会話モード：全体は時刻・名前・見出しを除いた発言本文だけで解析し、話者ごとの結果をレーダーに重ねる
+  const chatLog = useMemo(() => (conversationMode ? parseChatLog(text) : null), [conversationMode, text]);
+  const analysisText = useMemo(() => (chatLog ? chatBody(chatLog) : text), [chatLog, text]);
+
+  const { result, pending: analysisPending, error: analysisError } = useAnalysis(analysisText, lexicon, { relationBoost, scoring: viewScoring, modifiers, overlap, normalize, language: viewLanguage, builtinCategories });
+  const { timeline, error: timelineError } = useTimeline(analysisText, lexicon, { relationBoost, scoring: viewScoring, modifiers, overlap, normalize, language: viewLanguage, builtinCategories }, showTimeline);
+
+  const { speakers: speakerResults, pending: speakersPending } = useSpeakers(
+    text, lexicon, { relationBoost, scoring: viewScoring, modifiers, overlap, normalize, language: viewLanguage, builtinCategories }, !!chatLog
+  );
+  const shownSpeakers = speakerResults.slice(0, SPEAKER_STROKES.length);
+
+  const deferredCommitRef = useRef<'debounce' | 'blur' | null>(null);
   const commitHistory = useCallback((reason: 'debounce' | 'blur') => {
     const clean = text.trim();
     if (clean.length < HISTORY_MIN_CHARS) return;
@@ -930,28 +1333,52 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
     const h = hashBase36(full);
     if (lastSavedHashRef.current === h) return;
 
-    const localResult = analyze(clean, lexicon, relationBoost);
-    const catsOrder: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-    const src = localResult.normalized as Record<Category, number>;
-    const vals = catsOrder.map((k) => src[k]);
-    const max = Math.max(...vals);
-    const localLeaders: Category[] = max <= 0 ? [] : catsOrder.filter((k) => Math.abs(src[k] - max) <= 0.0001);
+    // 表示中の解析結果をそのまま使う（長文をもう一度解析しない）。会話ログは発言本文の結果を、復元で話者を読み直せるよう元の本文と一緒に保存する。
+    // 解析中なら終わってから保存し直す（下の effect）。失敗したときは保存しない
+    if (analysisPending || speakersPending) { deferredCommitRef.current = reason; return; }
+    if (analysisError) return;
+    const localResult = result;
+    const localLeaders = leadersOf(localResult.normalized);
 
-    const item = makeHistItem(clean, localResult, localLeaders, lexicon);
+    const item = makeHistItem(clean, localResult, localLeaders, lexicon, normalize, activeProfile, shownCommentsRef.current, speakerResults);
     const next = appendWithLimit(history, item, HISTORY_MAX_DEFAULT);
     if (next !== history) {
       setHistory(next);
       saveHistory(next);
       lastSavedHashRef.current = h;
     }
-  }, [text, lexicon, relationBoost, history]);
+  }, [text, lexicon, result, analysisPending, speakersPending, analysisError, history, speakerResults, activeProfile]);
 
-  const result = useMemo(() => analyze(text, lexicon, relationBoost), [text, lexicon, relationBoost]);
+  // 長文の解析中に来た保存を、解析が終わったところで実行する
+  useEffect(() => {
+    if (analysisPending || speakersPending || !deferredCommitRef.current) return;
+    const reason = deferredCommitRef.current;
+    deferredCommitRef.current = null;
+    commitHistory(reason);
+  }, [analysisPending, speakersPending, commitHistory]);
+
+  // 本文が変わったら選択中の文はリセット
+  useEffect(() => { setActiveSegment(null); setCommentRoll(0); }, [text]);
+
+  // タイムラインの点 → 入力欄の該当文を選択状態にする（会話ログは発言本文上の位置なので、入力欄では同じ文を探す）
+  const highlightSegment = (index: number) => {
+    const seg = timeline[index];
+    const el = textareaRef.current;
+    if (!seg || !el) return;
+    setActiveSegment(index);
+    const start = chatLog ? text.indexOf(seg.text) : seg.start;
+    if (start < 0) return;
+    el.focus();
+    el.setSelectionRange(start, start + seg.text.length);
+  };
 
   const radarData = useMemo(() => {
-    const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-    return cats.map((cat) => ({ subject: cat, A: Number(result.normalized[cat].toFixed(2)) }));
-  }, [result]);
+    return categories.map((cat) => {
+      const row: Record<string, string | number> = { subject: cat, A: Number((result.normalized[cat] ?? 0).toFixed(2)) };
+      shownSpeakers.forEach((s, i) => { row[`S${i}`] = Number((s.result.normalized[cat] ?? 0).toFixed(2)); });
+      return row;
+    });
+  }, [categories, result, shownSpeakers]);
 
   const topTerms = (cat: Category) => {
     const m = result.details.get(cat);
@@ -961,40 +1388,69 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
     return filtered.sort((a, b) => b[1] - a[1]).slice(0, 6);
   };
 
-  const catsOrder: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
   const leaders: Category[] = useMemo(() => {
     const src = result.normalized as Record<Category, number>;
-    const vals = catsOrder.map((k) => src[k]);
+    const vals = categories.map((k) => src[k] ?? 0);
     const max = Math.max(...vals);
     if (!text.trim() || max <= 0) return [];
     const EPS = 0.0001;
-    return catsOrder.filter((k) => Math.abs(src[k] - max) <= EPS);
-  }, [result, text]);
+    return categories.filter((k) => Math.abs((src[k] ?? 0) - max) <= EPS);
+  }, [categories, result, text]);
 
+  const levelOf = (cat: Category): CommentLevel => commentLevelOf(result.normalized[cat] ?? 0);
+
+  // コメントは本文と辞書から決まる（同じ解析なら何度描画しても同じ文）。引き直すと commentRoll が進む
+  const lexHash = useMemo(() => hashLexicon(lexicon), [lexicon]);
   const commentFor = (cat: Category): string => {
   if (!text.trim()) return "";
   if (!leaders.includes(cat)) return "";
-  const score = result.normalized[cat];
-  const level: CommentLevel = score >= 85 ? "high" : score >= 60 ? "mid" : "soft";
+  const level = levelOf(cat);
 
-  const pool = commentBank[cat][level];
+  const pool = commentBank[cat]?.[level] ?? [];
   const usable = pool.filter(s => s.trim() !== "");
-  const base = usable.length ? usable[Math.floor(Math.random() * usable.length)] : "";
-  return base; // ← 追記はしない
+  const base = usable.length ? seededPick(usable, `${hashBase36(text.trim())}:${lexHash}:${cat}:${level}:${commentRoll}`) : "";
+  return base ? renderCommentTemplate(base, commentVarsOf(result, cat)) : "";
 };
 
 
-  const activeComments = useMemo(
-    () => leaders.map((c) => ({ cat: c, text: commentFor(c) })).filter((x) => x.text),
-    [leaders, text, result]
+  // 当たったルールのコメントを先頭に、続けて首位カテゴリのコメント。
+  // 履歴から戻した本文のあいだは、保存したときのコメントをそのまま出す
+  const activeComments = useMemo(() => {
+    if (restoredComments && restoredComments.full === text) return restoredComments.comments;
+    const list: ShownComment[] = leaders
+      .map((c) => ({ cat: c, text: commentFor(c), level: levelOf(c) }))
+      .filter((x) => x.text);
+    const rule = text.trim() ? firstMatchingRule(commentRules, result) : undefined;
+    const rc = rule && ruleCategory(rule, leaders);
+    if (rule && rc) {
+      list.unshift({ cat: rc, text: renderCommentTemplate(rule.text, commentVarsOf(result, rc)), level: levelOf(rc), rule: rule.name });
+    }
+    return list;
+  }, [leaders, text, result, commentBank, commentRules, lexHash, commentRoll, restoredComments]);
+  shownCommentsRef.current = activeComments;
+
+  // 全カテゴリについての文章の要約（段落ごと）
+  const summary = useMemo(
+    () => (text.trim() ? buildNarrative(result, narrative, { relationBoost }) : []),
+    [text, result, narrative, relationBoost]
   );
 
+  const rerollComments = () => {
+    setRestoredComments(null);
+    setCommentRoll((n) => n + 1);
+  };
+
   const exportCSV = () => {
     const rows: string[] = [];
+    rows.push(`プロファイル,${activeProfile}`);
+    rows.push(`方式,${SCORING_MODE_LABEL[result.scoring]}`);
+    rows.push(`言語,${LANGUAGE_LABEL[result.language]}`);
+    rows.push(`信頼度,${CONFIDENCE_LABEL[result.coverage.confidence]}（${result.coverage.matchCount}件・${result.coverage.distinctTerms}語）`);
     rows.push("カテゴリ,Normalized(%)");
-    (["愛情", "切なさ", "悲しみ", "甘え", "欲"] as Category[]).forEach((c) => {
-      rows.push(`${c},${result.normalized[c].toFixed(1)}`);
+    categories.forEach((c) => {
+      rows.push(`${c},${(result.normalized[c] ?? 0).toFixed(1)}`);
     });
+    if (summary.length) rows.push(`要約,"${summary.join("\n").replace(/"/g, '""')}"`);
     const csvBody = rows.join("\n");
     setLastCsv("\uFEFF" + csvBody);
     setShowCsvContent(true);
@@ -1005,10 +1461,23 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
     reader.onload = () => {
       try {
         const parsed = JSON.parse(String(reader.result));
-        const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-        for (const c of cats) if (!Array.isArray((parsed as any)[c])) throw new Error("Invalid shape");
-        setLexicon(parsed as Lexicon);
-        saveLexicon(parsed as Lexicon);
+        const problem = validateLexicon(parsed);
+        if (problem) {
+          alert(`読み込めませんでした：${problem}`);
+          return;
+        }
+        // 修飾語は書き出しに含まれていれば一緒に取り込む（古い辞書JSONには無い）
+        const { modifiers: mods, ...lex } = parsed as Lexicon & { modifiers?: unknown };
+        if (mods !== undefined && !isModifiers(mods)) throw new Error("Invalid modifiers");
+        setLexicon(lex as Lexicon);
+        saveLexicon(lex as Lexicon);
+        // 色・アイコンの控えも取り込んだ辞書のカテゴリにそろえる（無くなった軸の分は捨て、新しい軸には色を割り当てる）
+        setCategoryDefs((prev) => reconcileCategoryDefs(categoriesOf(lex as Lexicon), prev));
+        if (mods !== undefined) {
+          const filled = withModifierDefaults(mods);
+          setModifiers(filled);
+          saveModifiers(filled);
+        }
       } catch (e) {
         alert("読み込みに失敗しました。json形式を確認してください。");
       }
@@ -1016,14 +1485,178 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
     reader.readAsText(file);
   };
 
+  const importChatLog = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const body = String(reader.result);
+      const log = parseChatLog(body);
+      setText(body);
+      setConversationMode(!!log);
+      if (log) setToast({ msg: `${log.messages.length}件の発言（${log.speakers.length}人）を読み込みました`, kind: "ok" });
+      else setToast({ msg: "会話ログの形式として読めませんでした（本文として読み込みました）", kind: "warn" });
+    };
+    reader.readAsText(file);
+  };
+
   const loadSample = () => setText(SAMPLE);
   const resetAll = () => {
     setText("");
     setRelationBoost(true);
+    setConversationMode(false);
+  };
+
+  // ▼ プロファイルの切り替え・作成・改名・削除
+  // 一覧には使用中のものも必ず出す（初回はまだ控えが無い）
+  const profileNames = useMemo(() => {
+    const names = profiles.map((p) => p.name);
+    return names.includes(activeProfile) ? names : [activeProfile, ...names];
+  }, [profiles, activeProfile]);
+
+  const currentProfile = (name: string): Profile => ({
+    name, lexicon, categoryDefs: defs, builtinCategories, modifiers, overlap, normalize, relationBoost, scoring, commentBank, commentRules,
+  });
+
+  // 使用中の控えを今の中身で書き直した一覧
+  const profilesWithCurrent = (): Profile[] => {
+    const cur = currentProfile(activeProfile);
+    return profiles.some((p) => p.name === activeProfile)
+      ? profiles.map((p) => (p.name === activeProfile ? cur : p))
+      : [cur, ...profiles];
+  };
+
+  const commitProfiles = (list: Profile[], active: string) => {
+    setProfiles(list);
+    setActiveProfile(active);
+    saveProfiles(list);
+    saveActiveProfile(active);
+  };
+
+  const applyProfile = (p: Profile) => {
+    setLexicon(p.lexicon);
+    setCategoryDefs(p.categoryDefs);
+    setBuiltinCategories(p.builtinCategories);
+    setModifiers(p.modifiers);
+    setOverlap(p.overlap);
+    setNormalize(p.normalize);
+    setRelationBoost(p.relationBoost);
+    setScoring(p.scoring);
+    setCommentBank(p.commentBank);
+    setCommentRules(p.commentRules);
+  };
+
+  const switchProfile = (name: string) => {
+    if (name === activeProfile) return;
+    const list = profilesWithCurrent();
+    const next = list.find((p) => p.name === name);
+    if (!next) return;
+    applyProfile(next);
+    commitProfiles(list, name);
+    setToast({ msg: `プロファイル「${name}」に切り替えました`, kind: "ok" });
+  };
+
+  // 今の設定を写して作り、そちらへ移る
+  const createProfile = (name: string) => {
+    commitProfiles([...profilesWithCurrent(), currentProfile(name)], name);
+  };
+
+  // 履歴に記録済みの名前は当時のまま残す
+  const renameProfile = (name: string) => {
+    const list = profilesWithCurrent().map((p) => (p.name === activeProfile ? { ...p, name } : p));
+    commitProfiles(list, name);
+  };
+
+  const removeProfile = () => {
+    const rest = profilesWithCurrent().filter((p) => p.name !== activeProfile);
+    if (!rest.length) return;
+    const removed = activeProfile;
+    // 先に残りの先頭へ切り替えてから、控えの一覧から消す
+    const next = rest[0];
+    applyProfile(next);
+    commitProfiles(rest, next.name);
+    setToast({ msg: `「${removed}」を削除して「${next.name}」に切り替えました`, kind: "ok" });
+  };
+
+  // ▼ カテゴリの追加・改名・削除を、辞書・修飾語・コメント・育成・履歴・たまごっち・控えのプロファイルへまとめて反映
+  const updateStoredProfiles = (f: (p: Profile) => Profile) => {
+    setProfiles((prev) => {
+      const next = prev.map(f);
+      saveProfiles(next);
+      return next;
+    });
   };
 
+  const applyCategoryOp = (op: CategoryOp) => {
+    switch (op.type) {
+      case "add":
+        setLexicon((prev) => addCategory(prev, op.name));
+        setCommentBank((prev) => ({ ...prev, [op.name]: emptyComments() }));
+        setCategoryDefs([...defs, { name: op.name, color: op.color, icon: "tag" }]);
+        break;
+      case "rename": {
+        const { from, to } = op;
+        setLexicon((prev) => renameCategory(prev, from, to));
+        setModifiers((prev) => remapModifiers(prev, from, to));
+        setCommentBank((prev) => renameKey(prev, from, to));
+        setCommentRules((prev) => renameRuleCategory(prev, from, to));
+        setGrowth((prev) => renameKey(prev, from, to));
+        setCategoryDefs(defs.map((d) => (d.name === from ? { ...d, name: to } : d)));
+        setBuiltinCategories((prev) => remapBuiltinCategories(prev, from, to));
+        setHistory((prev) => {
+          const next = prev.map((it) => renameInHistItem(it, from, to));
+          saveHistory(next);
+          return next;
+        });
+        updateStoredProfiles((p) => renameInProfile(p, from, to));
+        renamePetCategory(from, to);
+        setToast({ msg: `「${from}」を「${to}」に改名しました`, kind: "ok" });
+        break;
+      }
+      case "restyle":
+        setCategoryDefs(defs.map((d) => (d.name === op.name ? { ...d, color: op.color, icon: op.icon } : d)));
+        break;
+      case "remove":
+        setLexicon((prev) => removeCategory(prev, op.name));
+        setModifiers((prev) => remapModifiers(prev, op.name, undefined));
+        setCommentBank((prev) => dropKey(prev, op.name));
+        setCommentRules((prev) => removeRuleCategory(prev, op.name));
+        setGrowth((prev) => dropKey(prev, op.name));
+        setCategoryDefs(defs.filter((d) => d.name !== op.name));
+        setBuiltinCategories((prev) => remapBuiltinCategories(prev, op.name, undefined));
+        updateStoredProfiles((p) => removeFromProfile(p, op.name));
+        removePetCategory(op.name);
+        setToast({ msg: `「${op.name}」を削除しました`, kind: "ok" });
+        break;
+    }
+  };
+
+  // ▼ 履歴パネルに出す分（絞り込み → 並べ替え）
+  const shownHistory = useMemo(
+    () => sortHistory(filterHistory(history, histQuery), histQuery.sort),
+    [history, histQuery]
+  );
+  // 絞り込みの選択肢：首位カテゴリ（今のカテゴリ＋履歴に出てくるもの）と辞書ハッシュ（件数つき、多い順）
+  const histLeadOptions = useMemo(
+    () => [...new Set([...categories, ...history.flatMap((it) => it.lead)])],
+    [categories, history]
+  );
+  const histLexOptions = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const it of history) counts.set(it.lex, (counts.get(it.lex) ?? 0) + 1);
+    return [...counts].sort((a, b) => b[1] - a[1]);
+  }, [history]);
+  const patchHistQuery = (patch: Partial<HistoryQuery>) => setHistQuery((q) => ({ ...q, ...patch }));
+
   const restoreFromHistory = useCallback((item: HistItem) => {
     setText(item.full);
+    setRestoredComments(item.comments ? { full: item.full, comments: item.comments } : null);
+    // 推定で同じ言語になるなら自動のまま、違うときだけ記録した言語に固定する
+    const lang = item.language ?? "ja";
+    setRestoredMode({
+      full: item.full,
+      scoring: item.scoring ?? "relative",
+      language: lang === detectLanguage(item.full) ? "auto" : lang,
+    });
+    setConversationMode(!!item.speakers);
   }, []);
 
     const togglePinHistory = useCallback((id: string) => {
@@ -1079,8 +1712,9 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
         if (!Array.isArray(parsed)) throw new Error("array");
         const ok = parsed.every((x) => x && typeof x.id === "string" && typeof x.ts === "string" && typeof x.full === "string");
         if (!ok) throw new Error("shape");
-        setHistory(parsed as HistItem[]);
-        saveHistory(parsed as HistItem[]);
+        const items = parsed.map(migrateHistItem);
+        setHistory(items);
+        saveHistory(items);
       } catch {
         alert("読み込みに失敗しました。JSON形式を確認してください。");
       }
@@ -1181,6 +1815,20 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                 <Download className="w-4 h-4 group-hover:translate-y-0.5 transition-transform" />
                 CSV
               </button>
+              <button
+                onClick={() => setShowCompare(true)}
+                className="px-3 py-2.5 rounded-xl bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-all duration-200 flex items-center gap-2 group"
+              >
+                <GitCompare className="w-4 h-4 group-hover:scale-110 transition-transform" />
+                比較
+              </button>
+              <button
+                onClick={() => setShowEval(true)}
+                className="px-3 py-2.5 rounded-xl bg-white/10 backdrop-blur-sm border border-white/20 hover:bg-white/20 transition-all duration-200 flex items-center gap-2 group"
+              >
+                <FlaskConical className="w-4 h-4 group-hover:rotate-12 transition-transform" />
+                評価
+              </button>
               <button
                 onClick={() => setShowEditor(true)}
                 className="px-3 py-2.5 rounded-xl bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 transition-all duration-200 flex items-center gap-2 group shadow-lg shadow-purple-500/25"
@@ -1279,11 +1927,19 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
 
             
             
-            <div className="flex items-center justify-between mb-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
               <h2 className="text-lg font-semibold flex items-center gap-2">
                 <MessageCircle className="w-5 h-5 text-purple-400" />
                 テキスト入力
               </h2>
+              <ProfileSwitcher
+                names={profileNames}
+                active={activeProfile}
+                onSwitch={switchProfile}
+                onCreate={createProfile}
+                onRename={renameProfile}
+                onRemove={removeProfile}
+              />
               <button
                 onClick={resetAll}
                 className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-xs flex items-center gap-1"
@@ -1293,6 +1949,7 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
               </button>
             </div>
             <textarea
+              ref={textareaRef}
               value={text}
               onChange={(e) => {
                 setText(e.target.value);
@@ -1313,9 +1970,103 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                   className="w-4 h-4 rounded border-gray-600 text-purple-500 focus:ring-purple-500 focus:ring-offset-0"
                 />
                 <span className="text-sm group-hover:text-purple-400 transition-colors">
-                  関係ブースト（呼称・関係語で愛情に加点）
+                  関係ブースト（呼称・関係語で{categories[0]}に加点）
                 </span>
               </label>
+              <label className="mt-2 flex items-center gap-3 cursor-pointer group">
+                <input
+                  type="checkbox"
+                  checked={viewScoring === "absolute"}
+                  onChange={(e) => {
+                    setScoring(e.target.checked ? "absolute" : "relative");
+                    setRestoredMode((prev) => prev && { ...prev, scoring: undefined });
+                  }}
+                  className="w-4 h-4 rounded border-gray-600 text-purple-500 focus:ring-purple-500 focus:ring-offset-0"
+                />
+                <span className="text-sm group-hover:text-purple-400 transition-colors">
+                  絶対スコア（最大カテゴリを100%にせず、強さそのものを表示）
+                </span>
+              </label>
+              <label className="mt-2 flex items-center gap-3 text-sm">
+                <span>言語</span>
+                <select
+                  value={viewLanguage}
+                  onChange={(e) => {
+                    setLanguage(e.target.value as Language | "auto");
+                    setRestoredMode((prev) => prev && { ...prev, language: undefined });
+                  }}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                >
+                  <option value="auto">{viewLanguage === "auto" ? `自動（${LANGUAGE_LABEL[result.language]}）` : "自動"}</option>
+                  <option value="ja">{LANGUAGE_LABEL.ja}</option>
+                  <option value="en">{LANGUAGE_LABEL.en}</option>
+                </select>
+              </label>
+              {(viewScoring !== scoring || viewLanguage !== language) && (
+                <div className="mt-2 flex items-center gap-2 text-xs text-gray-400">
+                  <span>履歴に記録した方式・言語で表示中（設定は変えていません）</span>
+                  <button
+                    onClick={() => setRestoredMode(null)}
+                    className="px-2 py-0.5 rounded-lg bg-white/10 hover:bg-white/20 border border-white/20"
+                  >
+                    設定どおりにする
+                  </button>
+                </div>
+              )}
+              <label className="mt-2 flex items-center gap-3 cursor-pointer group">
+                <input
+                  type="checkbox"
+                  checked={showTimeline}
+                  onChange={(e) => setShowTimeline(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-600 text-purple-500 focus:ring-purple-500 focus:ring-offset-0"
+                />
+                <span className="text-sm group-hover:text-purple-400 transition-colors">
+                  タイムライン（文ごとの感情の推移を表示）
+                </span>
+              </label>
+              <label className="mt-2 flex items-center gap-3 cursor-pointer group">
+                <input
+                  type="checkbox"
+                  checked={showExplain}
+                  onChange={(e) => setShowExplain(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-600 text-purple-500 focus:ring-purple-500 focus:ring-offset-0"
+                />
+                <span className="text-sm group-hover:text-purple-400 transition-colors">
+                  根拠表示（マッチ箇所と補正を本文上に表示）
+                </span>
+              </label>
+              <div className="mt-2 flex items-center justify-between gap-3">
+                <label className="flex items-center gap-3 cursor-pointer group">
+                  <input
+                    type="checkbox"
+                    checked={conversationMode}
+                    onChange={(e) => setConversationMode(e.target.checked)}
+                    className="w-4 h-4 rounded border-gray-600 text-purple-500 focus:ring-purple-500 focus:ring-offset-0"
+                  />
+                  <span className="text-sm group-hover:text-purple-400 transition-colors">
+                    会話ログとして解析（話者ごとのレーダーを重ねる）
+                  </span>
+                </label>
+                <label className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-xs flex items-center gap-1 cursor-pointer shrink-0">
+                  <Upload className="w-3 h-3" />
+                  会話ログを読み込む
+                  <input
+                    type="file"
+                    accept=".txt,text/plain"
+                    className="hidden"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      e.currentTarget.value = "";
+                      if (f) importChatLog(f);
+                    }}
+                  />
+                </label>
+              </div>
+              {conversationMode && !chatLog && text.trim() && (
+                <p className="mt-2 text-xs text-amber-300/90">
+                  「HH:MM（タブ）名前（タブ）本文」の LINE 形式か、「名前: 本文」の形式の行が見つかりません
+                </p>
+              )}
             </div>
             <div className="mt-5 p-4 bg-gradient-to-r from-purple-500/10 to-pink-500/10 rounded-xl border border-purple-500/20">
               <p className="text-xs text-gray-300 leading-relaxed">
@@ -1341,14 +2092,30 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
             {/* コメント表示 */}
             {activeComments.length > 0 && (
               <div className="mb-6 space-y-3">
-                {activeComments.map(({ cat, text: msg }) => (
+                <div className="flex justify-end -mb-1">
+                  <button
+                    onClick={rerollComments}
+                    title="同じ結果のまま、別のコメントを選び直す"
+                    className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-xs flex items-center gap-1"
+                  >
+                    <Shuffle className="w-3 h-3" />
+                    引き直す
+                  </button>
+                </div>
+                {activeComments.map(({ cat, text: msg, level, rule }) => (
                   <div
-                    key={cat}
-                    className={`p-4 rounded-xl bg-gradient-to-r ${CATEGORY_COLORS[cat]} backdrop-blur-sm border`}
+                    key={rule ? `rule-${rule}` : cat}
+                    className={`p-4 rounded-xl bg-gradient-to-r ${catColors[cat]} backdrop-blur-sm border`}
                   >
                     <div className="flex items-center gap-2 mb-2">
-                      {CATEGORY_ICONS[cat]}
+                      {catIcon(cat)}
                       <span className="text-sm font-medium">{cat}</span>
+                      {rule && (
+                        <span className="px-2 py-0.5 rounded-full bg-white/10 text-[10px]">{rule}</span>
+                      )}
+                      <span className="ml-auto text-[10px] uppercase tracking-wide text-gray-300/80">
+                        {level} · {SCORING_MODE_LABEL[result.scoring]}
+                      </span>
                     </div>
                     <p className="text-sm leading-relaxed">{msg}</p>
                   </div>
@@ -1357,6 +2124,42 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
             )}
 
             {/* レーダーチャート */}
+            <div className="flex justify-end gap-2 -mb-2">
+              {(analysisPending || speakersPending) && (
+                <span className="px-2 py-0.5 rounded-full bg-purple-500/20 border border-purple-500/30 text-[10px] text-purple-200 animate-pulse">
+                  解析中…
+                </span>
+              )}
+              {analysisError && (
+                <span
+                  title={analysisError}
+                  className="px-2 py-0.5 rounded-full bg-rose-500/20 border border-rose-500/30 text-[10px] text-rose-200"
+                >
+                  解析に失敗しました
+                </span>
+              )}
+              {text.trim() && (
+                <span
+                  title={`マッチ ${result.coverage.matchCount}件・語の種類 ${result.coverage.distinctTerms}・本文の ${(result.coverage.charShare * 100).toFixed(1)}% をカバー`}
+                  className={`px-2 py-0.5 rounded-full text-[10px] border ${CONFIDENCE_BADGE[result.coverage.confidence]}`}
+                >
+                  {CONFIDENCE_LABEL[result.coverage.confidence]}
+                </span>
+              )}
+              <span className="px-2 py-0.5 rounded-full bg-white/10 text-[10px] text-gray-300">
+                {LANGUAGE_LABEL[result.language]}
+              </span>
+              <span className="px-2 py-0.5 rounded-full bg-white/10 text-[10px] text-gray-300">
+                {result.scoring === "absolute" ? "絶対スコア" : "相対スコア（最大=100%）"}
+              </span>
+            </div>
+            {text.trim() && isLowConfidence(result.coverage.confidence) && (
+              <p className="mt-3 -mb-1 text-xs text-amber-300/90">
+                {result.coverage.matchCount === 0
+                  ? "辞書に当たる語が見つかりませんでした。レーダーは空のままです。"
+                  : `根拠が少ないため（${result.coverage.matchCount}件・${result.coverage.distinctTerms}語）、形は大きく振れることがあります。`}
+              </p>
+            )}
             <div className="h-80 w-full mb-6">
               <ResponsiveContainer width="100%" height="100%">
                 <RadarChart data={radarData}>
@@ -1371,12 +2174,23 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                     domain={[0, 100]}
                   />
                   <Radar
-                    name="Score"
+                    name={`Score（${SCORING_MODE_LABEL[result.scoring]}）`}
                     dataKey="A"
                     stroke="rgb(168, 85, 247)"
                     fill="rgb(168, 85, 247)"
-                    fillOpacity={0.3}
+                    fillOpacity={shownSpeakers.length ? 0.12 : 0.3}
                   />
+                  {shownSpeakers.map((s, i) => (
+                    <Radar
+                      key={s.speaker}
+                      name={s.speaker}
+                      dataKey={`S${i}`}
+                      stroke={SPEAKER_STROKES[i]}
+                      fill={SPEAKER_STROKES[i]}
+                      fillOpacity={0.08}
+                    />
+                  ))}
+                  {shownSpeakers.length > 0 && <Legend wrapperStyle={{ fontSize: 12 }} />}
                   <Tooltip
                     contentStyle={{
                       background: "rgba(0,0,0,0.8)",
@@ -1389,14 +2203,46 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
               </ResponsiveContainer>
             </div>
 
+            {/* 話者ごとの表 */}
+            {shownSpeakers.length > 0 && (
+              <div className="mb-6">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">話者ごとの内訳</span>
+                  <span className="text-xs text-gray-400">
+                    {chatLog?.format === "line" ? "LINE 形式" : "「名前: 本文」形式"}・{chatLog?.messages.length}件の発言
+                  </span>
+                </div>
+                <SpeakerTable
+                  speakers={shownSpeakers}
+                  colors={SPEAKER_STROKES}
+                  hidden={speakerResults.length - shownSpeakers.length}
+                />
+              </div>
+            )}
+
+            {/* 文ごとのタイムライン */}
+            {showTimeline && text.trim() && (
+              <div className="mb-6 p-4 rounded-xl bg-black/20 border border-white/10">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">タイムライン（{SCORING_MODE_LABEL[result.scoring]}）</span>
+                  <span className="text-xs text-gray-400">点をクリックすると該当の文を選択します</span>
+                </div>
+                {timelineError ? (
+                  <p className="text-xs text-rose-300">タイムラインの解析に失敗しました（{timelineError}）</p>
+                ) : (
+                  <TimelineChart points={timeline} categories={defs} activeIndex={activeSegment} onSelect={highlightSegment} />
+                )}
+              </div>
+            )}
+
             {/* カテゴリ詳細 */}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-              {(["愛情", "切なさ", "悲しみ", "甘え", "欲"] as Category[]).map((c) => (
+              {categories.map((c) => (
                 <div
                   key={c}
                   className={`p-4 rounded-xl bg-gradient-to-r ${
                     leaders.includes(c)
-                      ? CATEGORY_COLORS[c]
+                      ? catColors[c]
                       : "from-white/5 to-white/5 border-white/10"
                   } backdrop-blur-sm border transition-all duration-300 ${
                     leaders.includes(c) ? "scale-105 shadow-lg" : ""
@@ -1404,7 +2250,7 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                 >
                   <div className="flex items-center justify-between mb-2">
                     <div className="flex items-center gap-2">
-                      {CATEGORY_ICONS[c]}
+                      {catIcon(c)}
                       <span className="font-medium">{c}</span>
                       {leaders.includes(c) && (
                         <span className="px-2 py-0.5 rounded-full bg-white/20 text-xs">
@@ -1413,7 +2259,7 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                       )}
                     </div>
                     <span className="text-xs text-gray-400">
-                      {result.normalized[c].toFixed(1)}%
+                      {(result.normalized[c] ?? 0).toFixed(1)}%
                     </span>
                   </div>
                   <ul className="space-y-1 text-xs">
@@ -1423,13 +2269,52 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                     {topTerms(c).slice(0, 3).map(([term, val]) => (
                       <li key={term} className="flex items-center justify-between">
                         <span className="truncate">{term}</span>
-                        <span className="text-gray-400">+{val.toFixed(1)}</span>
+                        <span className="text-gray-400">{val < 0 ? "" : "+"}{val.toFixed(1)}</span>
                       </li>
                     ))}
                   </ul>
                 </div>
               ))}
             </div>
+
+            {/* 要約 */}
+            {summary.length > 0 && (
+              <div className="mt-6 p-4 rounded-xl bg-black/20 border border-white/10">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">要約</span>
+                  <button
+                    onClick={async () => {
+                      try {
+                        await navigator.clipboard.writeText(summary.join("\n\n"));
+                        setToast({ msg: "要約をコピーしました", kind: "ok" });
+                      } catch {
+                        setToast({ msg: "コピーに失敗しました", kind: "error" });
+                      }
+                    }}
+                    className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors text-xs flex items-center gap-1"
+                  >
+                    <Copy className="w-3 h-3" />
+                    コピー
+                  </button>
+                </div>
+                <div className="space-y-2 text-sm leading-relaxed text-gray-200">
+                  {summary.map((p, i) => (
+                    <p key={i}>{p}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* 根拠表示 */}
+            {showExplain && text.trim() && (
+              <div className="mt-6">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium">根拠表示</span>
+                  <span className="text-xs text-gray-400">色付きの語にカーソルを合わせると内訳を表示します</span>
+                </div>
+                <ExplainView text={analysisText} matches={result.matches} scale={result.scale} colors={catColors} />
+              </div>
+            )}
           </section>
 
         </div>
@@ -1448,7 +2333,7 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
                   <Clock className="w-5 h-5 text-purple-400" />
                   <h2 className="text-lg font-semibold">履歴</h2>
                   <span className="px-2 py-0.5 rounded-full bg-white/10 text-xs">
-                    {history.length}件
+                    {isHistoryFiltered(histQuery) ? `${shownHistory.length} / ${history.length}件` : `${history.length}件`}
                   </span>
                 </div>
                 <button
@@ -1487,6 +2372,99 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
               </label>
             </div>
 
+            {/* 検索・絞り込み・並べ替え */}
+            <div className="p-3 border-b border-white/10 space-y-2 text-xs">
+              <div className="relative">
+                <Search className="w-3.5 h-3.5 absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                  type="search"
+                  value={histQuery.text}
+                  onChange={(e) => patchHistQuery({ text: e.target.value })}
+                  placeholder="本文を検索（空白で区切るとすべて含むもの）"
+                  className="w-full pl-8 pr-2 py-1.5 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <select
+                  value={histQuery.lead}
+                  onChange={(e) => patchHistQuery({ lead: e.target.value })}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                >
+                  <option value="">首位：すべて</option>
+                  {histLeadOptions.map((c) => (
+                    <option key={c} value={c}>首位：{c}</option>
+                  ))}
+                </select>
+                <select
+                  value={histQuery.pinned}
+                  onChange={(e) => patchHistQuery({ pinned: e.target.value as HistoryPinFilter })}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                >
+                  {(Object.keys(HISTORY_PIN_FILTER_LABEL) as HistoryPinFilter[]).map((k) => (
+                    <option key={k} value={k}>{HISTORY_PIN_FILTER_LABEL[k]}</option>
+                  ))}
+                </select>
+                <select
+                  value={histQuery.lex}
+                  onChange={(e) => patchHistQuery({ lex: e.target.value })}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                >
+                  <option value="">辞書：すべて</option>
+                  {histLexOptions.map(([h, n]) => (
+                    <option key={h} value={h}>
+                      辞書：{h}{h === lexHash ? "（今の辞書）" : ""}・{n}件
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={histQuery.sort}
+                  onChange={(e) => patchHistQuery({ sort: e.target.value as HistorySort })}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                >
+                  <option value="date-desc">新しい順</option>
+                  <option value="date-asc">古い順</option>
+                  {histLeadOptions.map((c) => (
+                    <option key={c} value={`score:${c}`}>{c}の高い順</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="date"
+                  value={histQuery.from}
+                  max={histQuery.to || undefined}
+                  onChange={(e) => patchHistQuery({ from: e.target.value })}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                />
+                <span className="text-gray-400">〜</span>
+                <input
+                  type="date"
+                  value={histQuery.to}
+                  min={histQuery.from || undefined}
+                  onChange={(e) => patchHistQuery({ to: e.target.value })}
+                  className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 focus:border-purple-500/50 outline-none"
+                />
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={histQuery.hideLowConfidence}
+                    onChange={(e) => patchHistQuery({ hideLowConfidence: e.target.checked })}
+                    className="w-3 h-3"
+                  />
+                  根拠の少ない結果を隠す
+                </label>
+                {isHistoryFiltered(histQuery) && (
+                  <button
+                    onClick={() => setHistQuery((q) => ({ ...EMPTY_HISTORY_QUERY, sort: q.sort }))}
+                    className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 transition-colors flex items-center gap-1"
+                  >
+                    <X className="w-3 h-3" />
+                    条件を消す
+                  </button>
+                )}
+              </div>
+            </div>
+
             {showHistExport && (
               <div className="p-3 border-b border-white/10">
                 <div className="flex items-center justify-between mb-2">
@@ -1507,66 +2485,112 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
               </div>
             )}
 
-            <div className="flex-1 overflow-y-auto p-3 space-y-2">
-              {history.length === 0 ? (
-                <div className="text-center py-8 text-gray-400">
-                  <Clock className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                  <p className="text-sm">まだ履歴がありません</p>
-                </div>
-              ) : (
-                history
-                  .slice()
-                  .reverse()
-                  .map((item) => (
-                    <div
-                      key={item.id}
-                      className="p-4 rounded-xl bg-white/5 backdrop-blur-sm border border-white/10 hover:border-white/20 transition-all duration-200"
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-xs text-gray-400">
-                          {new Date(item.ts).toLocaleString("ja-JP")}
+            {history.length === 0 ? (
+              <div className="flex-1 p-3 text-center py-8 text-gray-400">
+                <Clock className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">まだ履歴がありません</p>
+              </div>
+            ) : shownHistory.length === 0 ? (
+              <div className="flex-1 p-3 text-center py-8 text-gray-400">
+                <Search className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                <p className="text-sm">条件に合う履歴はありません</p>
+              </div>
+            ) : (
+              <VirtualList
+                items={shownHistory}
+                itemKey={(item) => item.id}
+                resetKey={JSON.stringify(histQuery)}
+                className="flex-1 overflow-y-auto p-3"
+                renderItem={(item) => (
+                  <div
+                    className="p-4 rounded-xl bg-white/5 backdrop-blur-sm border border-white/10 hover:border-white/20 transition-all duration-200"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-xs text-gray-400">
+                        {new Date(item.ts).toLocaleString("ja-JP")}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        {item.profile && (
+                          <span className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] text-gray-400">
+                            {item.profile}
+                          </span>
+                        )}
+                        <span className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] text-gray-400">
+                          {SCORING_MODE_LABEL[item.scoring ?? "relative"]}
                         </span>
-                        <div className="flex items-center gap-1">
-                          {item.lead.map((c) => (
-                            <span
-                              key={c}
-                              className="px-2 py-0.5 rounded-full bg-white/10 text-xs flex items-center gap-1"
-                            >
-                              {CATEGORY_ICONS[c]}
-                              {c}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
-                      <p className="text-sm text-gray-300 mb-3 line-clamp-2">{item.snip}</p>
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => restoreFromHistory(item)}
-                          className="px-3 py-1.5 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/30 transition-colors text-xs flex items-center gap-1"
-                        >
-                          <ChevronRight className="w-3 h-3" />
-                          復元
-                        </button>
-                        <button
-                          onClick={() => togglePinHistory(item.id)}
-                          className={`px-3 py-1.5 rounded-lg ${
-                            item.pinned ? "bg-amber-500/20 border-amber-500/30" : "bg-white/10 border-white/20"
-                          } hover:bg-white/20 border transition-colors text-xs flex items-center gap-1`}
-                        >
-                          <Pin className="w-3 h-3" />
-                          {item.pinned ? "解除" : "ピン"}
-                        </button>
-                        <button
-                          onClick={() => deleteHistoryItem(item.id)}
-                          className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-red-500/20 border border-white/20 hover:border-red-500/30 transition-colors text-xs flex items-center gap-1"
-                        >
-                          <Trash2 className="w-3 h-3" />
-                        </button>
+                        {item.normalize && (
+                          <span
+                            title={item.normalize.map((s) => NORMALIZE_STEP_LABEL[s]).join("\n")}
+                            className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] text-gray-400"
+                          >
+                            正規化
+                          </span>
+                        )}
+                        {item.speakers && (
+                          <span className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] text-gray-400">
+                            会話 {item.speakers.length}人
+                          </span>
+                        )}
+                        {isLowConfidence(item.confidence) && (
+                          <span className="px-2 py-0.5 rounded-full bg-amber-500/10 border border-amber-500/30 text-[10px] text-amber-200">
+                            根拠少
+                          </span>
+                        )}
+                        {item.language === "en" && (
+                          <span className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[10px] text-gray-400">
+                            EN
+                          </span>
+                        )}
+                        {item.lead.map((c) => (
+                          <span
+                            key={c}
+                            className="px-2 py-0.5 rounded-full bg-white/10 text-xs flex items-center gap-1"
+                          >
+                            {catIcon(c)}
+                            {c}
+                          </span>
+                        ))}
                       </div>
                     </div>
-                  ))
-              )}
-            </div>
+                    <p className="text-sm text-gray-300 mb-3 line-clamp-2">{item.snip}</p>
+                    {item.speakers && (
+                      <ul className="mb-3 space-y-0.5 text-[11px] text-gray-400">
+                        {item.speakers.slice(0, 4).map((sp) => (
+                          <li key={sp.name} className="flex items-center justify-between gap-2">
+                            <span className="truncate">{sp.name}（{sp.count}）</span>
+                            <span className="shrink-0">{sp.lead.join("・") || "—"}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => restoreFromHistory(item)}
+                        className="px-3 py-1.5 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/30 transition-colors text-xs flex items-center gap-1"
+                      >
+                        <ChevronRight className="w-3 h-3" />
+                        復元
+                      </button>
+                      <button
+                        onClick={() => togglePinHistory(item.id)}
+                        className={`px-3 py-1.5 rounded-lg ${
+                          item.pinned ? "bg-amber-500/20 border-amber-500/30" : "bg-white/10 border-white/20"
+                        } hover:bg-white/20 border transition-colors text-xs flex items-center gap-1`}
+                      >
+                        <Pin className="w-3 h-3" />
+                        {item.pinned ? "解除" : "ピン"}
+                      </button>
+                      <button
+                        onClick={() => deleteHistoryItem(item.id)}
+                        className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-red-500/20 border border-white/20 hover:border-red-500/30 transition-colors text-xs flex items-center gap-1"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              />
+            )}
           </aside>
         </div>
       )}
@@ -1575,7 +2599,15 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
       {showCommentSettings && (
         <CommentSettingsEditor
           bank={commentBank}
+          categories={categories}
           onChange={setCommentBank}
+          rules={commentRules}
+          onRulesChange={setCommentRules}
+          narrative={narrative}
+          onNarrativeChange={setNarrative}
+          result={text.trim() ? result : null}
+          leaders={leaders}
+          relationBoost={relationBoost}
           onClose={() => setShowCommentSettings(false)}
         />
       )}
@@ -1583,6 +2615,7 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
       {showTamagotchi && (
         <TamagotchiPanel
           latest={result?.normalized ?? null}
+          categories={categories}
           onClose={() => setShowTamagotchi(false)}
         />
       )}
@@ -1592,14 +2625,14 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
       {showGrowth && (
         <GrowthPanel
           growth={growth}
+          categories={categories}
           onClose={() => setShowGrowth(false)}
           onReset={() => setGrowth(DEFAULT_GROWTH)}
           onApplyFromCurrent={() => {
       // 直近の解析結果を加算（必要なら係数を調整）
-       const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
       setGrowth(prev => {
         const next = { ...prev };
-        cats.forEach(c => {
+        categories.forEach(c => {
           const inc = Math.round((result?.normalized?.[c] ?? 0));
           next[c] = Math.max(0, (next[c] ?? 0) + inc);
         });
@@ -1609,15 +2642,49 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
   />
 )}
 
+      {/* 比較 */}
+      {showCompare && (
+        <CompareView
+          lexicon={lexicon}
+          options={{ relationBoost, scoring, modifiers, overlap, normalize, language, builtinCategories }}
+          initialText={text}
+          history={history}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+
+      {/* 辞書の評価 */}
+      {showEval && (
+        <EvalView
+          lexicon={lexicon}
+          options={{ relationBoost, scoring, modifiers, overlap, normalize, language, builtinCategories }}
+          onClose={() => setShowEval(false)}
+        />
+      )}
+
       {/* 辞書エディタ */}
       {showEditor && (
         <LexiconEditor
           lexicon={lexicon}
           onClose={() => setShowEditor(false)}
           onChange={setLexicon}
+          modifiers={modifiers}
+          onModifiersChange={setModifiers}
+          overlap={overlap}
+          onOverlapChange={setOverlap}
+          normalize={normalize}
+          onNormalizeChange={setNormalize}
+          analyzeOptions={{ relationBoost, scoring, modifiers, overlap, normalize, language, builtinCategories }}
           onImport={importLexiconJSON}
+          categoryDefs={defs}
+          onCategoryOp={applyCategoryOp}
           onReset={() => {
             setLexicon(DEFAULT_LEXICON);
+            setCategoryDefs(DEFAULT_CATEGORY_DEFS);
+            setBuiltinCategories({});
+            setModifiers(DEFAULT_MODIFIERS);
+            setOverlap("all");
+            setNormalize({});
             resetLexicon();            
           }}
         />
@@ -1627,16 +2694,17 @@ useEffect(() => { saveCommentBank(commentBank); }, [commentBank]);
 }
 function GrowthPanel({
   growth,
+  categories: cats,
   onClose,
   onReset,
   onApplyFromCurrent,
 }: {
   growth: GrowthStats;
+  categories: Category[];
   onClose: () => void;
   onReset: () => void;
   onApplyFromCurrent: () => void;
 }) {
-  const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
   const maxVal = Math.max(100, ...cats.map(c => Math.max(0, growth[c] ?? 0)));
 
   return (
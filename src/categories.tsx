@@ -0,0 +1,88 @@
+import React from "react";
+import { Angry, Cloud, Droplets, Flame, Frown, Heart, Leaf, Moon, Smile, Sparkles, Star, Sun, Tag, Zap } from "lucide-react";
+import type { Category } from "./engine";
+
+// ===== カテゴリの見た目（色・アイコン）の登録 =====
+// どの軸があるかと並び順は辞書のキーが決める（engine/categories.ts）。
+// ここでは軸ごとの色とアイコンだけを持ち、改名しても色・アイコンが付いていくようにする。
+
+export type CategoryColor =
+  | "rose" | "violet" | "blue" | "amber" | "orange"
+  | "emerald" | "teal" | "fuchsia" | "lime" | "slate";
+
+export type CategoryIcon =
+  | "heart" | "cloud" | "droplets" | "sparkles" | "flame"
+  | "zap" | "smile" | "frown" | "angry" | "sun" | "moon" | "star" | "leaf" | "tag";
+
+export interface CategoryDef {
+  name: Category;
+  color: CategoryColor;
+  icon: CategoryIcon;
+}
+
+export const CATEGORY_PALETTE: Record<CategoryColor, { label: string; hex: string; card: string }> = {
+  rose: { label: "ローズ", hex: "#f43f5e", card: "from-rose-500/20 to-pink-500/20 border-rose-500/40" },
+  violet: { label: "バイオレット", hex: "#8b5cf6", card: "from-violet-500/20 to-purple-500/20 border-violet-500/40" },
+  blue: { label: "ブルー", hex: "#3b82f6", card: "from-blue-500/20 to-cyan-500/20 border-blue-500/40" },
+  amber: { label: "アンバー", hex: "#f59e0b", card: "from-amber-500/20 to-yellow-500/20 border-amber-500/40" },
+  orange: { label: "オレンジ", hex: "#f97316", card: "from-orange-500/20 to-red-500/20 border-orange-500/40" },
+  emerald: { label: "エメラルド", hex: "#10b981", card: "from-emerald-500/20 to-green-500/20 border-emerald-500/40" },
+  teal: { label: "ティール", hex: "#14b8a6", card: "from-teal-500/20 to-cyan-500/20 border-teal-500/40" },
+  fuchsia: { label: "フューシャ", hex: "#d946ef", card: "from-fuchsia-500/20 to-pink-500/20 border-fuchsia-500/40" },
+  lime: { label: "ライム", hex: "#84cc16", card: "from-lime-500/20 to-green-500/20 border-lime-500/40" },
+  slate: { label: "スレート", hex: "#64748b", card: "from-slate-500/20 to-gray-500/20 border-slate-500/40" },
+};
+
+export const CATEGORY_COLOR_KEYS = Object.keys(CATEGORY_PALETTE) as CategoryColor[];
+
+const ICONS: Record<CategoryIcon, React.ComponentType<{ className?: string }>> = {
+  heart: Heart, cloud: Cloud, droplets: Droplets, sparkles: Sparkles, flame: Flame,
+  zap: Zap, smile: Smile, frown: Frown, angry: Angry, sun: Sun, moon: Moon, star: Star, leaf: Leaf, tag: Tag,
+};
+
+export const CATEGORY_ICON_KEYS = Object.keys(ICONS) as CategoryIcon[];
+
+/** 既定の5軸の見た目（以前の固定の色・アイコンと同じ） */
+export const DEFAULT_CATEGORY_DEFS: CategoryDef[] = [
+  { name: "愛情", color: "rose", icon: "heart" },
+  { name: "切なさ", color: "violet", icon: "cloud" },
+  { name: "悲しみ", color: "blue", icon: "droplets" },
+  { name: "甘え", color: "amber", icon: "sparkles" },
+  { name: "欲", color: "orange", icon: "flame" },
+];
+
+export function CategoryIconView({ icon, className = "w-3 h-3" }: { icon: CategoryIcon; className?: string }) {
+  const Icon = ICONS[icon] ?? Tag;
+  return <Icon className={className} />;
+}
+
+/** まだ使っていない色（全部使っていれば先頭から） */
+export function nextCategoryColor(defs: CategoryDef[]): CategoryColor {
+  return CATEGORY_COLOR_KEYS.find((c) => !defs.some((d) => d.color === c)) ?? CATEGORY_COLOR_KEYS[defs.length % CATEGORY_COLOR_KEYS.length];
+}
+
+/**
+ * 辞書のカテゴリに見た目をそろえる（並びは辞書のキー順）。
+ * 保存済みの見た目が無い軸は、既定の5軸ならその見た目、それ以外は空いている色とタグのアイコン
+ */
+export function reconcileCategoryDefs(categories: Category[], saved: CategoryDef[]): CategoryDef[] {
+  const out: CategoryDef[] = [];
+  for (const name of categories) {
+    const def = saved.find((d) => d.name === name) ?? DEFAULT_CATEGORY_DEFS.find((d) => d.name === name);
+    const used = [...out, ...saved.filter((d) => categories.includes(d.name))];
+    out.push(def ?? { name, color: nextCategoryColor(used), icon: "tag" });
+  }
+  return out;
+}
+
+export function isCategoryDef(v: unknown): v is CategoryDef {
+  const d = v as CategoryDef;
+  return !!d && typeof d.name === "string" && d.color in CATEGORY_PALETTE && d.icon in ICONS;
+}
+
+/** カテゴリ管理画面からの操作（App が辞書・修飾語・コメント・履歴などへまとめて反映する） */
+export type CategoryOp =
+  | { type: "add"; name: Category; color: CategoryColor }
+  | { type: "rename"; from: Category; to: Category }
+  | { type: "restyle"; name: Category; color: CategoryColor; icon: CategoryIcon }
+  | { type: "remove"; name: Category };
@@ -0,0 +1,240 @@
+// ===== コマンドライン版 感情解析 =====
+// 使い方:
+//   npm run analyze -- [options] [file ...]
+//   cat diary.txt | npm run analyze -- --format csv
+//
+// options:
+//   --lexicon <path>     辞書JSON（辞書エディタの書き出しと同じ形。modifiers があれば修飾語も使う）。省略時はデフォルト辞書
+//   --format json|csv    出力形式（既定: json）
+//   --lines              1行を1テキストとして扱う（日記アーカイブの一括採点用）
+//   --scoring <mode>     relative（最大=100%、既定）か absolute（強さそのもの）
+//   --overlap <policy>   重なった辞書語の扱い：all（すべて、既定）/ longest（長い語）/ weight（重い語）
+//   --normalize <steps>  照合前の正規化。default（おすすめの手順）/ none（既定）/ nfkc,foldKana,longVowel,smallKana,collapseRepeats の組み合わせ
+//   --language <lang>    auto（本文から推定、既定）/ ja / en。英語は同梱の英語辞書を使う
+//   --no-relation-boost  関係ブーストを切る
+//   --summary            文章の要約も出す（json は summary、csv は summary 列）
+//   -h, --help           ヘルプ
+import { readFileSync } from "node:fs";
+import {
+  analyze,
+  buildNarrative,
+  categoriesOf,
+  DEFAULT_LEXICON,
+  DEFAULT_LEXICON_EN,
+  hashLexicon,
+  validateLexicon,
+  isModifiers,
+  withModifierDefaults,
+  OVERLAP_POLICIES,
+  NORMALIZE_STEPS,
+  DEFAULT_NORMALIZE,
+  type Category,
+  type CategoryScores,
+  type Coverage,
+  type Language,
+  type Lexicon,
+  type Modifiers,
+  type NormalizeOptions,
+  type NormalizeStep,
+  type OverlapPolicy,
+  type ScoringMode,
+} from "../engine";
+import { prepareTokenizer } from "./tokenizerNode";
+
+type Format = "json" | "csv";
+
+interface CliOptions {
+  files: string[];
+  lexiconPath: string | null;
+  format: Format;
+  lines: boolean;
+  relationBoost: boolean;
+  scoring: ScoringMode;
+  overlap: OverlapPolicy;
+  normalize: NormalizeOptions;
+  language: Language | "auto";
+  summary: boolean;
+}
+
+interface ScoredText {
+  source: string;
+  language: Language;
+  /** 解析に使った辞書のハッシュ（英語の文は同梱の英語辞書） */
+  lex: string;
+  normalized: CategoryScores;
+  raw: CategoryScores;
+  coverage: Coverage;
+  /** --summary のときだけ（段落を改行でつないだもの） */
+  summary?: string;
+}
+
+const USAGE = `usage: analyze [--lexicon <path>] [--format json|csv] [--lines] [--scoring relative|absolute] [--overlap all|longest|weight] [--normalize <steps>] [--language auto|ja|en] [--no-relation-boost] [--summary] [file ...]
+ファイル指定がなければ標準入力を読みます。`;
+
+class CliError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const opts: CliOptions = { files: [], lexiconPath: null, format: "json", lines: false, relationBoost: true, scoring: "relative", overlap: "all", normalize: {}, language: "auto", summary: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "-h" || a === "--help") {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (a === "--lexicon") {
+      const v = argv[++i];
+      if (!v) throw new CliError("--lexicon にはパスが必要です");
+      opts.lexiconPath = v;
+    } else if (a === "--format") {
+      const v = argv[++i];
+      if (v !== "json" && v !== "csv") throw new CliError("--format は json か csv です");
+      opts.format = v;
+    } else if (a === "--scoring") {
+      const v = argv[++i];
+      if (v !== "relative" && v !== "absolute") throw new CliError("--scoring は relative か absolute です");
+      opts.scoring = v;
+    } else if (a === "--overlap") {
+      const v = argv[++i] as OverlapPolicy;
+      if (!OVERLAP_POLICIES.includes(v)) throw new CliError("--overlap は all / longest / weight のいずれかです");
+      opts.overlap = v;
+    } else if (a === "--language") {
+      const v = argv[++i];
+      if (v !== "auto" && v !== "ja" && v !== "en") throw new CliError("--language は auto / ja / en のいずれかです");
+      opts.language = v;
+    } else if (a === "--normalize") {
+      opts.normalize = parseNormalize(argv[++i]);
+    } else if (a === "--lines") {
+      opts.lines = true;
+    } else if (a === "--no-relation-boost") {
+      opts.relationBoost = false;
+    } else if (a === "--summary") {
+      opts.summary = true;
+    } else if (a.startsWith("-") && a !== "-") {
+      throw new CliError(`不明なオプション: ${a}`);
+    } else {
+      opts.files.push(a);
+    }
+  }
+  return opts;
+}
+
+function parseNormalize(v: string | undefined): NormalizeOptions {
+  if (!v) throw new CliError("--normalize には手順の指定が必要です");
+  if (v === "default") return { ...DEFAULT_NORMALIZE };
+  if (v === "none") return {};
+  const out: NormalizeOptions = {};
+  for (const step of v.split(",").map((x) => x.trim()).filter(Boolean)) {
+    if (!NORMALIZE_STEPS.includes(step as NormalizeStep)) {
+      throw new CliError(`--normalize の手順が不明です: ${step}（${NORMALIZE_STEPS.join(" / ")}）`);
+    }
+    out[step as NormalizeStep] = true;
+  }
+  return out;
+}
+
+function loadLexiconFile(path: string): { lexicon: Lexicon; modifiers?: Modifiers } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8").replace(/^\uFEFF/, ""));
+  } catch {
+    throw new CliError(`辞書JSONを読み込めません: ${path}`);
+  }
+  const problem = validateLexicon(parsed);
+  if (problem) throw new CliError(`${problem}: ${path}`);
+  const { modifiers, ...lexicon } = parsed as Lexicon & { modifiers?: unknown };
+  if (modifiers !== undefined && !isModifiers(modifiers)) throw new CliError(`修飾語（modifiers）の形が不正です: ${path}`);
+  return { lexicon: lexicon as Lexicon, modifiers: modifiers && withModifierDefaults(modifiers) };
+}
+
+function readSources(opts: CliOptions): Array<{ source: string; text: string }> {
+  const inputs = opts.files.length ? opts.files : ["-"];
+  const out: Array<{ source: string; text: string }> = [];
+  for (const f of inputs) {
+    const body = readFileSync(f === "-" ? 0 : f, "utf8").replace(/^\uFEFF/, "");
+    const name = f === "-" ? "stdin" : f;
+    if (opts.lines) {
+      body.split(/\r?\n/).forEach((line, i) => {
+        if (line.trim()) out.push({ source: `${name}:${i + 1}`, text: line });
+      });
+    } else {
+      out.push({ source: name, text: body });
+    }
+  }
+  return out;
+}
+
+function round2(n: number): number { return Math.round(n * 100) / 100; }
+
+function roundScores(s: CategoryScores): CategoryScores {
+  const out = { ...s };
+  for (const c of Object.keys(s)) out[c] = round2(s[c]);
+  return out;
+}
+
+function csvCell(v: string): string {
+  return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+}
+
+// 列はカテゴリの数だけ（辞書JSONで軸を足していればその分増える）
+function toCsv(rows: ScoredText[], cats: Category[], summary: boolean): string {
+  const header = [
+    "source", "language", "lex", ...cats.map(c => `${c}(%)`), ...cats.map(c => `${c}(raw)`),
+    "confidence", "matches", "distinct", "coverage", ...(summary ? ["summary"] : []),
+  ];
+  const lines = [header.map(csvCell).join(",")];
+  for (const r of rows) {
+    lines.push([
+      csvCell(r.source),
+      r.language,
+      r.lex,
+      ...cats.map(c => String(r.normalized[c])),
+      ...cats.map(c => String(r.raw[c])),
+      r.coverage.confidence,
+      String(r.coverage.matchCount),
+      String(r.coverage.distinctTerms),
+      String(r.coverage.charShare),
+      ...(summary ? [csvCell(r.summary ?? "")] : []),
+    ].join(","));
+  }
+  return lines.join("\n");
+}
+
+async function main(argv: string[]): Promise<number> {
+  let opts: CliOptions;
+  try {
+    opts = parseArgs(argv);
+    const { lexicon, modifiers } = opts.lexiconPath ? loadLexiconFile(opts.lexiconPath) : { lexicon: DEFAULT_LEXICON, modifiers: undefined };
+    await prepareTokenizer(lexicon);
+    const lexHash: Record<Language, string> = { ja: hashLexicon(lexicon), en: hashLexicon(DEFAULT_LEXICON_EN) };
+    const rows: ScoredText[] = readSources(opts).map(({ source, text }) => {
+      const r = analyze(text, lexicon, { relationBoost: opts.relationBoost, scoring: opts.scoring, overlap: opts.overlap, normalize: opts.normalize, language: opts.language, modifiers });
+      const coverage = { ...r.coverage, charShare: Math.round(r.coverage.charShare * 1000) / 1000 };
+      const row: ScoredText = { source, language: r.language, lex: lexHash[r.language], normalized: roundScores(r.normalized), raw: roundScores(r.raw), coverage };
+      if (opts.summary) row.summary = buildNarrative(r, undefined, { relationBoost: opts.relationBoost }).join("\n");
+      return row;
+    });
+
+    if (opts.format === "csv") {
+      process.stdout.write(toCsv(rows, categoriesOf(lexicon), opts.summary) + "\n");
+    } else {
+      const payload = {
+        relationBoost: opts.relationBoost,
+        scoring: opts.scoring,
+        overlap: opts.overlap,
+        normalize: NORMALIZE_STEPS.filter((s) => opts.normalize[s]),
+        results: rows.map(({ source, language, lex, normalized, raw, coverage, summary }) => ({ source, language, lex, normalized, raw, coverage, summary })),
+      };
+      process.stdout.write(JSON.stringify(payload, null, 2) + "\n");
+    }
+    return 0;
+  } catch (e) {
+    if (e instanceof CliError) {
+      console.error(`error: ${e.message}`);
+      console.error(USAGE);
+      return 2;
+    }
+    console.error(e instanceof Error ? e.message : String(e));
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
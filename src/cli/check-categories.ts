@@ -0,0 +1,114 @@
+// ===== カテゴリの改名・削除のチェック =====
+// 使い方: npm run check:categories
+// 同梱の表（英語の辞書・修飾語、顔文字の推定）は既定のカテゴリ名で書いてある。
+// アプリと同じ手順（辞書・修飾語の付け替え＋読み替え表）で改名・削除したあと、
+// 推定の顔文字と英語の語の点が新しい名前へ移るか（削除したら消えるか）を確かめる。
+import {
+  analyze,
+  DEFAULT_LEXICON,
+  DEFAULT_MODIFIERS,
+  remapBuiltinCategories,
+  remapModifiers,
+  removeCategory,
+  renameCategory,
+  type AnalyzeOptions,
+  type BuiltinCategoryMap,
+  type Category,
+  type Lexicon,
+  type Modifiers,
+} from "../engine";
+
+interface Setup {
+  lexicon: Lexicon;
+  modifiers: Modifiers;
+  builtinCategories: BuiltinCategoryMap;
+}
+
+const BASE: Setup = { lexicon: DEFAULT_LEXICON, modifiers: DEFAULT_MODIFIERS, builtinCategories: {} };
+
+function rename(s: Setup, from: Category, to: Category): Setup {
+  return {
+    lexicon: renameCategory(s.lexicon, from, to),
+    modifiers: remapModifiers(s.modifiers, from, to),
+    builtinCategories: remapBuiltinCategories(s.builtinCategories, from, to),
+  };
+}
+
+function remove(s: Setup, name: Category): Setup {
+  return {
+    lexicon: removeCategory(s.lexicon, name),
+    modifiers: remapModifiers(s.modifiers, name, undefined),
+    builtinCategories: remapBuiltinCategories(s.builtinCategories, name, undefined),
+  };
+}
+
+function rawOf(text: string, s: Setup, language: AnalyzeOptions["language"]) {
+  return analyze(text, s.lexicon, { modifiers: s.modifiers, builtinCategories: s.builtinCategories, language, relationBoost: false }).raw;
+}
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+interface Case {
+  label: string;
+  text: string;
+  language: "ja" | "en";
+  /** 既定の名前で点が入るカテゴリ */
+  category: Category;
+}
+
+// 辞書に無い顔文字（形からの推定）と、英語の既定辞書の語
+const CASES: Case[] = [
+  { label: "推定の顔文字 ♡", text: "またね(♡˘ᴗ˘♡)", language: "ja", category: "愛情" },
+  { label: "推定の顔文字 T_T", text: "もうだめ(T_T)", language: "ja", category: "悲しみ" },
+  { label: "英語の語", text: "I adore you", language: "en", category: "愛情" },
+  { label: "英語の語", text: "I feel so lonely", language: "en", category: "悲しみ" },
+];
+
+function main(): number {
+  let failed = 0;
+  const check = (ok: boolean, msg: string) => {
+    if (!ok) {
+      console.log(`NG  ${msg}`);
+      failed++;
+    }
+  };
+
+  // 改名の連鎖（愛情 → Love → 恋心）と削除（悲しみ）
+  const renamed = rename(rename(BASE, "愛情", "Love"), "Love", "恋心");
+  const removed = remove(BASE, "悲しみ");
+  // 名前の入れ替え（切なさ ⇄ 甘え）でも、それぞれが元の点を持っていく
+  const swapped = rename(rename(rename(BASE, "切なさ", "tmp"), "甘え", "切なさ"), "tmp", "甘え");
+
+  for (const c of CASES) {
+    const before = rawOf(c.text, BASE, c.language);
+    const points = before[c.category] ?? 0;
+    check(points > 0, `${c.label}「${c.text}」が既定の名前で ${c.category} に入っていない`);
+
+    const r = rawOf(c.text, renamed, c.language);
+    const to = c.category === "愛情" ? "恋心" : c.category;
+    check(near(r[to] ?? 0, points), `${c.label}「${c.text}」改名後の ${to} が ${r[to]}（期待 ${points}）`);
+    check(!("愛情" in r) && !("Love" in r), `${c.label}「${c.text}」改名前の名前が残っている`);
+
+    // 削除したカテゴリの点はどこにも入らない（ほかのカテゴリはそのまま）
+    const d = rawOf(c.text, removed, c.language);
+    const sum = (x: Record<Category, number>) => Object.values(x).reduce((a, b) => a + b, 0);
+    const expected = c.category === "悲しみ" ? sum(before) - points : sum(before);
+    check(!("悲しみ" in d) && near(sum(d), expected), `${c.label}「${c.text}」削除後の合計が ${sum(d)}（期待 ${expected}）`);
+  }
+
+  const swapCases: Array<{ text: string; language: "ja" | "en"; from: Category; to: Category }> = [
+    { text: "I miss you", language: "en", from: "切なさ", to: "甘え" },
+    { text: "cuddle me", language: "en", from: "甘え", to: "切なさ" },
+  ];
+  for (const c of swapCases) {
+    const points = rawOf(c.text, BASE, c.language)[c.from] ?? 0;
+    const r = rawOf(c.text, swapped, c.language);
+    check(points > 0 && near(r[c.to] ?? 0, points), `入れ替え「${c.text}」の ${c.to} が ${r[c.to]}（期待 ${points}）`);
+  }
+
+  const total = CASES.length * 4 + swapCases.length;
+  console.log(`${total - failed}/${total} ok`);
+  return failed ? 1 : 0;
+}
+
+process.exit(main());
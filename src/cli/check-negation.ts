@@ -0,0 +1,93 @@
+// ===== 否定判定のコーパスチェック =====
+// 使い方: npm run check:negation
+// src/engine/corpus/negation.json の各文を既定の辞書で analyze() にかけ、語がカテゴリにどう入ったかを確かめる。
+// - affirmed: そのまま加点 / zeroed: 否定で 0 点 / flipped: 否定で negatedTo のカテゴリへ振り替え / double: 二重否定で弱めて加点
+// negatedTo がある文は、その語にだけ振替先を付けた既定の辞書で解析する。
+// 否定ロジックや NEGATIONS・既定の辞書を触ったら流して、崩れた文がないか見る。
+import corpus from "../engine/corpus/negation.json";
+import {
+  analyze,
+  DEFAULT_LEXICON,
+  DOUBLE_NEGATION_FACTOR,
+  NEGATION_FLIP_FACTOR,
+  type Category,
+  type Lexicon,
+  type MatchSpan,
+} from "../engine";
+
+type Expect = "affirmed" | "zeroed" | "flipped" | "double";
+
+interface CorpusItem {
+  text: string;
+  /** 既定の辞書にある語 */
+  term: string;
+  /** その語のカテゴリ */
+  category: Category;
+  expect: Expect;
+  /** flipped のときの振替先（辞書のその語に negatedTo として付ける） */
+  negatedTo?: Category;
+}
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+
+function lexiconFor(item: CorpusItem): Lexicon {
+  if (!item.negatedTo) return DEFAULT_LEXICON;
+  const to = item.negatedTo;
+  return Object.fromEntries(
+    Object.entries(DEFAULT_LEXICON).map(([c, list]) => [c, list.map((l) => (l.term === item.term ? { ...l, negatedTo: to } : l))])
+  );
+}
+
+// 期待どおりなら null、違えば理由
+function judge(item: CorpusItem, m: MatchSpan, credited: (c: Category) => number): string | null {
+  const count = m.negationCount ?? 0;
+  switch (item.expect) {
+    case "affirmed":
+      if (count !== 0) return `否定マーカー ${count}個`;
+      if (!m.categories.includes(item.category) || !(m.delta > 0)) return `${item.category} に加点されていない`;
+      return null;
+    case "zeroed":
+      if (count % 2 !== 1) return `否定になっていない（マーカー ${count}個）`;
+      if (m.flippedTo) return `${m.flippedTo} へ振り替えられた`;
+      if (m.delta !== 0 || credited(item.category) !== 0) return `${item.category} に ${credited(item.category)} 点入った`;
+      return null;
+    case "flipped":
+      if (count % 2 !== 1) return `否定になっていない（マーカー ${count}個）`;
+      if (!item.negatedTo || m.flippedTo !== item.negatedTo) return `振替先が ${m.flippedTo ?? "なし"}`;
+      if (!near(m.delta, m.weight * NEGATION_FLIP_FACTOR) || !(credited(item.negatedTo) > 0)) return `${item.negatedTo} への加点が ${m.delta}`;
+      if (credited(item.category) !== 0) return `${item.category} にも ${credited(item.category)} 点入った`;
+      return null;
+    case "double":
+      if (count === 0 || count % 2 !== 0) return `二重否定になっていない（マーカー ${count}個）`;
+      if (!m.categories.includes(item.category) || !near(m.delta, m.weight * DOUBLE_NEGATION_FACTOR)) {
+        return `${item.category} への加点が ${m.delta}（期待 ${m.weight * DOUBLE_NEGATION_FACTOR}）`;
+      }
+      return null;
+  }
+}
+
+function main(): number {
+  let failed = 0;
+  for (const item of corpus as CorpusItem[]) {
+    const label = item.negatedTo ? `${item.text}（→${item.negatedTo}）` : item.text;
+    const r = analyze(item.text, lexiconFor(item));
+    // 同じ語が何度か出る文は最初の出現で見る
+    const m = r.matches.find((x) => x.kind === "lexeme" && x.term === item.term);
+    if (!m) {
+      console.log(`NG  ${label}  （語「${item.term}」に当たりません）`);
+      failed++;
+      continue;
+    }
+    const credited = (c: Category) => r.details.get(c)?.get(item.term) ?? 0;
+    const reason = judge(item, m, credited);
+    if (reason) {
+      console.log(`NG  ${label}  期待=${item.expect}  ${reason}  [${m.negation ?? ""}]`);
+      failed++;
+    }
+  }
+  const total = (corpus as CorpusItem[]).length;
+  console.log(`${total - failed}/${total} ok`);
+  return failed ? 1 : 0;
+}
+
+process.exit(main());
@@ -0,0 +1,17 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import { loadTokenizer, needsTokenizer, type Lexicon } from "../engine";
+
+// CLI 用：kuromoji の同梱辞書をファイルから読む（見出し語モードの語が無ければ何もしない）
+
+const require = createRequire(import.meta.url);
+
+export async function prepareTokenizer(lexicon: Lexicon): Promise<void> {
+  if (!needsTokenizer(lexicon)) return;
+  const dictDir = join(dirname(require.resolve("kuromoji/package.json")), "dict");
+  await loadTokenizer(async (file) => {
+    const buf = await readFile(join(dictDir, file));
+    return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer;
+  });
+}
@@ -0,0 +1,239 @@
+import type { CommentBank } from "./comments";
+
+// ===== 口調のプリセット =====
+// コメント設定から読み込める同梱のコメント集（既定の5カテゴリぶん）。
+// 「追加」で読むと今のコメントや別のプリセットと混ぜられる。
+
+export type CommentPresetId = "gentle" | "clinical" | "poetic";
+
+export interface CommentPreset {
+  id: CommentPresetId;
+  label: string;
+  description: string;
+  bank: CommentBank;
+}
+
+const GENTLE: CommentBank = {
+  愛情: {
+    soft: [
+      "やさしい気持ちが、そっと文のすみに置かれています。",
+      "「{top_term}」に、相手を思うあたたかさがにじんでいます。",
+    ],
+    mid: [
+      "好きという気持ちが、ちゃんと言葉になっていますね。",
+      "「{top_term}」をはじめ、大切に思う言葉がいくつも見つかりました。",
+    ],
+    high: [
+      "まっすぐな愛情がたっぷり伝わってきます。",
+      "「{top_terms}」…どれも相手への思いでいっぱいです。",
+    ],
+  },
+  切なさ: {
+    soft: [
+      "少しだけ、届かない気持ちが混ざっているようです。",
+      "「{top_term}」のあたりに、小さなさびしさが見えます。",
+    ],
+    mid: [
+      "会えない時間の長さが、言葉ににじんでいますね。",
+      "切ない気持ちを、無理にしまわずに書けています。",
+    ],
+    high: [
+      "胸がきゅっとなるような思いが、たくさん詰まっています。",
+      "「{top_term}」…その気持ち、ちゃんと受け取りました。",
+    ],
+  },
+  悲しみ: {
+    soft: [
+      "ほんの少し、元気のない言葉が見えます。",
+      "「{top_term}」という言葉に、疲れがにじんでいるかもしれません。",
+    ],
+    mid: [
+      "つらい気持ちを、言葉にできているのは大事なことです。",
+      "悲しい気持ちがいくつか重なっています。ゆっくり休んでくださいね。",
+    ],
+    high: [
+      "とても苦しい気持ちが伝わってきます。ひとりで抱えこまないでください。",
+      "「{top_terms}」…重たい言葉が続いています。",
+    ],
+  },
+  甘え: {
+    soft: [
+      "ちょっとだけ、寄りかかりたい気持ちが見えます。",
+      "「{top_term}」に、かわいらしい甘えがのぞいています。",
+    ],
+    mid: [
+      "そばにいてほしい気持ちが、素直に出ていますね。",
+      "甘えたい言葉がいくつか並んでいます。",
+    ],
+    high: [
+      "全力で甘えたい気持ちがあふれています。",
+      "「{top_terms}」…かまってほしさが伝わってきます。",
+    ],
+  },
+  欲: {
+    soft: [
+      "ほしいものが、少しだけ顔を出しています。",
+      "「{top_term}」に、小さな望みが見えます。",
+    ],
+    mid: [
+      "やりたいこと・ほしいものが、はっきりしてきましたね。",
+      "望みを言葉にできているのは、前に進む力です。",
+    ],
+    high: [
+      "強い願いがまっすぐ書かれています。",
+      "「{top_terms}」…叶えたい気持ちがいっぱいです。",
+    ],
+  },
+};
+
+const CLINICAL: CommentBank = {
+  愛情: {
+    soft: [
+      "愛情スコア {score}。好意を示す語が少数（{term_count}種）検出されました。",
+      "愛情の寄与は限定的です。主な語: {top_term}。",
+    ],
+    mid: [
+      "愛情スコア {score}。次点は{second_category}（{second_score}）です。",
+      "好意表現が複数（{term_count}種）検出され、愛情が優位です。",
+    ],
+    high: [
+      "愛情スコア {score}。寄与上位: {top_terms}。",
+      "愛情が突出しています（次点 {second_category} {second_score}）。",
+    ],
+  },
+  切なさ: {
+    soft: [
+      "切なさスコア {score}。関連語は {term_count}種です。",
+      "切なさの寄与は小さめです。主な語: {top_term}。",
+    ],
+    mid: [
+      "切なさスコア {score}。次点は{second_category}（{second_score}）です。",
+      "希求・不在を示す語が複数検出されました。",
+    ],
+    high: [
+      "切なさスコア {score}。寄与上位: {top_terms}。",
+      "切なさが主要因です（検出 {match_count}件）。",
+    ],
+  },
+  悲しみ: {
+    soft: [
+      "悲しみスコア {score}。関連語は {term_count}種です。",
+      "悲しみの寄与は小さめです。主な語: {top_term}。",
+    ],
+    mid: [
+      "悲しみスコア {score}。次点は{second_category}（{second_score}）です。",
+      "否定的な感情語が複数検出されました。",
+    ],
+    high: [
+      "悲しみスコア {score}。寄与上位: {top_terms}。",
+      "悲しみが主要因です（検出 {match_count}件）。",
+    ],
+  },
+  甘え: {
+    soft: [
+      "甘えスコア {score}。関連語は {term_count}種です。",
+      "甘えの寄与は小さめです。主な語: {top_term}。",
+    ],
+    mid: [
+      "甘えスコア {score}。次点は{second_category}（{second_score}）です。",
+      "依存・要求の表現が複数検出されました。",
+    ],
+    high: [
+      "甘えスコア {score}。寄与上位: {top_terms}。",
+      "甘えが主要因です（検出 {match_count}件）。",
+    ],
+  },
+  欲: {
+    soft: [
+      "欲スコア {score}。関連語は {term_count}種です。",
+      "欲の寄与は小さめです。主な語: {top_term}。",
+    ],
+    mid: [
+      "欲スコア {score}。次点は{second_category}（{second_score}）です。",
+      "希求・獲得の表現が複数検出されました。",
+    ],
+    high: [
+      "欲スコア {score}。寄与上位: {top_terms}。",
+      "欲が主要因です（検出 {match_count}件）。",
+    ],
+  },
+};
+
+const POETIC: CommentBank = {
+  愛情: {
+    soft: [
+      "行間に、小さな灯りがひとつともっています。",
+      "「{top_term}」という言葉が、春の陽だまりのように置かれています。",
+    ],
+    mid: [
+      "言葉のひとつひとつが、誰かのほうを向いています。",
+      "「{top_term}」から、やわらかな熱が広がっていきます。",
+    ],
+    high: [
+      "あふれた想いが、ページの端までこぼれています。",
+      "「{top_terms}」——花束のように言葉が束ねられています。",
+    ],
+  },
+  切なさ: {
+    soft: [
+      "遠くで、かすかに雨の音がしています。",
+      "「{top_term}」のあとに、言えなかった言葉の余白があります。",
+    ],
+    mid: [
+      "届かない手紙のような静けさが、文を包んでいます。",
+      "夕暮れの長い影のように、思いが伸びています。",
+    ],
+    high: [
+      "胸の奥の糸が、強く張りつめています。",
+      "「{top_terms}」——夜明け前の空のような切なさです。",
+    ],
+  },
+  悲しみ: {
+    soft: [
+      "薄い雲が、少しだけ空を覆っています。",
+      "「{top_term}」に、冷たいしずくがひとつ落ちています。",
+    ],
+    mid: [
+      "言葉の底に、静かな水たまりができています。",
+      "灰色の午後のような重さが漂っています。",
+    ],
+    high: [
+      "深い海の底のような静けさと重さがあります。",
+      "「{top_terms}」——長い雨が降り続いています。",
+    ],
+  },
+  甘え: {
+    soft: [
+      "袖を小さく引くような言葉が見えます。",
+      "「{top_term}」に、猫がすり寄るようなやわらかさがあります。",
+    ],
+    mid: [
+      "毛布にくるまりたいような気配が、文に漂っています。",
+      "「{top_term}」が、そっと手をのばしています。",
+    ],
+    high: [
+      "ぬくもりを探して、言葉がまっすぐ寄りかかってきます。",
+      "「{top_terms}」——離れたくないという声が聞こえます。",
+    ],
+  },
+  欲: {
+    soft: [
+      "まだ名前のない望みが、芽を出しかけています。",
+      "「{top_term}」に、小さな火種が見えます。",
+    ],
+    mid: [
+      "望みが輪郭を持ちはじめています。",
+      "「{top_term}」から、前へ進む風が吹いています。",
+    ],
+    high: [
+      "燃えるような願いが、言葉を照らしています。",
+      "「{top_terms}」——手をのばす先がはっきり見えています。",
+    ],
+  },
+};
+
+export const COMMENT_PRESETS: CommentPreset[] = [
+  { id: "gentle", label: "やさしい", description: "寄り添う話し言葉", bank: GENTLE },
+  { id: "clinical", label: "分析的", description: "数値と根拠の語を示す", bank: CLINICAL },
+  { id: "poetic", label: "詩的", description: "たとえで情景を描く", bank: POETIC },
+];
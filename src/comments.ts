@@ -0,0 +1,227 @@
+import { creditedTerms, type AnalysisResult, type Category } from "./engine";
+
+// ===== コメントのテンプレートとルール =====
+// コメント文の中の {top_term} などを解析結果の語・数値で埋める。
+// ルールは「愛情が HIGH かつ 切なさが MID 以上」「『会いたい』が出た」のような条件の組み合わせで、
+// 当たったら専用のコメントを出す。コメント集の読み込み・取り込みもここ。どれも App とコメント設定画面から使う。
+
+export type CommentLevel = "soft" | "mid" | "high";
+
+export const COMMENT_LEVELS: CommentLevel[] = ["soft", "mid", "high"];
+
+export const COMMENT_LEVEL_LABEL: Record<CommentLevel, string> = { soft: "SOFT", mid: "MID", high: "HIGH" };
+
+/** カテゴリ → 強さ → コメント文（テンプレート）の一覧 */
+export type CommentBank = Record<Category, Record<CommentLevel, string[]>>;
+
+/** スコア（0〜100）から強さを決める */
+export function commentLevelOf(score: number): CommentLevel {
+  return score >= 85 ? "high" : score >= 60 ? "mid" : "soft";
+}
+
+/** 画面に出したコメント1つ（履歴にもこの形で残す） */
+export interface ShownComment {
+  cat: Category;
+  text: string;
+  level: CommentLevel;
+  /** ルールから出したときのルール名 */
+  rule?: string;
+}
+
+// ----- テンプレート -----
+
+export type CommentVariable =
+  | "category" | "score" | "level"
+  | "top_term" | "top_terms" | "term_count"
+  | "second_category" | "second_score" | "match_count";
+
+export const COMMENT_VARIABLES: Array<{ name: CommentVariable; label: string }> = [
+  { name: "category", label: "カテゴリ名" },
+  { name: "score", label: "スコア（整数）" },
+  { name: "level", label: "強さ（SOFT/MID/HIGH）" },
+  { name: "top_term", label: "いちばん効いた語" },
+  { name: "top_terms", label: "効いた語の上位3つ（・区切り）" },
+  { name: "term_count", label: "このカテゴリに効いた語の種類の数" },
+  { name: "second_category", label: "2番目に高いカテゴリ" },
+  { name: "second_score", label: "2番目のスコア（整数）" },
+  { name: "match_count", label: "本文全体で当たった数" },
+];
+
+export type CommentVars = Record<CommentVariable, string>;
+
+/** カテゴリ cat についてのコメントで使う値 */
+export function commentVarsOf(result: AnalysisResult, cat: Category): CommentVars {
+  const score = result.normalized[cat] ?? 0;
+  const terms = creditedTerms(result, cat);
+  const others = Object.keys(result.normalized)
+    .filter((c) => c !== cat)
+    .sort((a, b) => result.normalized[b] - result.normalized[a]);
+  const second = others[0];
+  return {
+    category: cat,
+    score: String(Math.round(score)),
+    level: COMMENT_LEVEL_LABEL[commentLevelOf(score)],
+    top_term: terms[0]?.[0] ?? "",
+    top_terms: terms.slice(0, 3).map(([t]) => t).join("・"),
+    term_count: String(terms.length),
+    second_category: second ?? "",
+    second_score: second === undefined ? "" : String(Math.round(result.normalized[second])),
+    match_count: String(result.matches.length),
+  };
+}
+
+/** {変数名} を埋める。知らない名前はそのまま残す */
+export function renderCommentTemplate(template: string, vars: CommentVars): string {
+  return template.replace(/\{([a-z_]+)\}/g, (all, name: string) =>
+    name in vars ? vars[name as CommentVariable] : all
+  );
+}
+
+/** テンプレートの中の知らない変数名（設定画面での注意用） */
+export function unknownCommentVariables(template: string): string[] {
+  const known = new Set<string>(COMMENT_VARIABLES.map((v) => v.name));
+  return [...template.matchAll(/\{([a-z_]+)\}/g)].map((m) => m[1]).filter((n) => !known.has(n));
+}
+
+// ----- コメント集の読み込み・取り込み -----
+
+export type CommentMergeMode = "merge" | "replace";
+
+export const COMMENT_MERGE_MODE_LABEL: Record<CommentMergeMode, string> = {
+  merge: "追加（同じ文は足さない）",
+  replace: "置き換え（読み込んだ強さの欄だけ）",
+};
+
+/**
+ * カテゴリ → { soft, mid, high } → 文字列の配列、の形かを確かめて読む。
+ * 形が違えば null。文字列でない行・空行・知らない強さは捨てて、捨てた数を返す
+ */
+export function parseCommentBank(v: unknown): { bank: CommentBank; dropped: number } | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return null;
+  const bank: CommentBank = {};
+  let dropped = 0;
+  for (const [cat, levels] of Object.entries(v as Record<string, unknown>)) {
+    if (!levels || typeof levels !== "object" || Array.isArray(levels)) return null;
+    const out: Record<CommentLevel, string[]> = { soft: [], mid: [], high: [] };
+    for (const [lv, lines] of Object.entries(levels as Record<string, unknown>)) {
+      if (!COMMENT_LEVELS.includes(lv as CommentLevel) || !Array.isArray(lines)) {
+        dropped += Array.isArray(lines) ? lines.length : 1;
+        continue;
+      }
+      for (const line of lines) {
+        if (typeof line === "string" && line.trim()) out[lv as CommentLevel].push(line.trim());
+        else dropped++;
+      }
+    }
+    bank[cat] = out;
+  }
+  return Object.keys(bank).length ? { bank, dropped } : null;
+}
+
+/**
+ * 読み込んだコメント集を今のものへ取り込む。辞書に無いカテゴリは取り込まずに返す。
+ * merge は行ごとに足し（同じ文は足さない）、replace は読み込んだ側に文がある強さの欄を丸ごと入れ替える
+ */
+export function mergeCommentBank(
+  base: CommentBank,
+  incoming: CommentBank,
+  categories: Category[],
+  mode: CommentMergeMode
+): { bank: CommentBank; added: number; skipped: Category[] } {
+  const bank: CommentBank = { ...base };
+  const skipped: Category[] = [];
+  let added = 0;
+  for (const [cat, levels] of Object.entries(incoming)) {
+    if (!categories.includes(cat)) {
+      skipped.push(cat);
+      continue;
+    }
+    const cur: Record<CommentLevel, string[]> = base[cat] ?? { soft: [], mid: [], high: [] };
+    const next = { ...cur };
+    for (const lv of COMMENT_LEVELS) {
+      const lines = levels[lv] ?? [];
+      if (!lines.length) continue;
+      if (mode === "replace") {
+        next[lv] = [...new Set(lines)];
+        added += next[lv].length;
+      } else {
+        const fresh = lines.filter((l, i) => !cur[lv].includes(l) && lines.indexOf(l) === i);
+        next[lv] = [...cur[lv], ...fresh];
+        added += fresh.length;
+      }
+    }
+    bank[cat] = next;
+  }
+  return { bank, added, skipped };
+}
+
+// ----- ルール -----
+
+export type CommentCondition =
+  /** カテゴリの強さが level 以上 */
+  | { type: "level"; category: Category; level: CommentLevel }
+  /** 辞書語 term が本文に当たった */
+  | { type: "term"; term: string };
+
+export interface CommentRule {
+  id: string;
+  /** 一覧で見分けるための名前 */
+  name: string;
+  /** すべて満たしたときに当たる */
+  conditions: CommentCondition[];
+  /** コメント文（テンプレート。変数は先頭の条件のカテゴリ、無ければ首位のカテゴリについての値） */
+  text: string;
+  enabled?: boolean;
+}
+
+function conditionHolds(cond: CommentCondition, result: AnalysisResult): boolean {
+  if (cond.type === "term") {
+    return result.matches.some((m) => m.kind === "lexeme" && m.term === cond.term && m.delta > 0);
+  }
+  const score = result.normalized[cond.category];
+  if (score === undefined || score <= 0) return false;
+  return COMMENT_LEVELS.indexOf(commentLevelOf(score)) >= COMMENT_LEVELS.indexOf(cond.level);
+}
+
+export function ruleMatches(rule: CommentRule, result: AnalysisResult): boolean {
+  return rule.enabled !== false && rule.conditions.length > 0 && rule.conditions.every((c) => conditionHolds(c, result));
+}
+
+/** ルールのテンプレートを埋めるときの基準のカテゴリ */
+export function ruleCategory(rule: CommentRule, leaders: Category[]): Category | undefined {
+  const cond = rule.conditions.find((c): c is Extract<CommentCondition, { type: "level" }> => c.type === "level");
+  return cond?.category ?? leaders[0];
+}
+
+/** 当たったルールのうち、一覧で先にあるもの */
+export function firstMatchingRule(rules: CommentRule[], result: AnalysisResult): CommentRule | undefined {
+  return rules.find((r) => ruleMatches(r, result));
+}
+
+export function isCommentRule(v: unknown): v is CommentRule {
+  const r = v as CommentRule;
+  return (
+    !!r && typeof r.id === "string" && typeof r.name === "string" && typeof r.text === "string" &&
+    Array.isArray(r.conditions) &&
+    r.conditions.every((c) =>
+      c?.type === "term" ? typeof c.term === "string" :
+      c?.type === "level" && typeof c.category === "string" && COMMENT_LEVELS.includes(c.level)
+    )
+  );
+}
+
+/** カテゴリの改名に合わせて条件を付け替える */
+export function renameRuleCategory(rules: CommentRule[], from: Category, to: Category): CommentRule[] {
+  return rules.map((r) => ({
+    ...r,
+    conditions: r.conditions.map((c) => (c.type === "level" && c.category === from ? { ...c, category: to } : c)),
+  }));
+}
+
+/** 消したカテゴリの条件を外す（条件が無くなったルールは消す） */
+export function removeRuleCategory(rules: CommentRule[], name: Category): CommentRule[] {
+  return rules.flatMap((r) => {
+    const conditions = r.conditions.filter((c) => !(c.type === "level" && c.category === name));
+    return conditions.length ? [{ ...r, conditions }] : [];
+  });
+}
@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import {
+  CATEGORY_NAME_MAX,
+  MAX_CATEGORIES,
+  MIN_CATEGORIES,
+  validateCategoryName,
+  type Lexicon,
+} from "../engine";
+import {
+  CATEGORY_COLOR_KEYS,
+  CATEGORY_ICON_KEYS,
+  CATEGORY_PALETTE,
+  CategoryIconView,
+  nextCategoryColor,
+  type CategoryDef,
+  type CategoryOp,
+} from "../categories";
+
+// 辞書エディタの「カテゴリ」タブ：レーダーの軸の追加・改名・色とアイコンの変更・削除
+
+interface CategoryManagerProps {
+  defs: CategoryDef[];
+  lexicon: Lexicon;
+  onOp: (op: CategoryOp) => void;
+}
+
+function CategoryRow({
+  def,
+  names,
+  count,
+  canRemove,
+  onOp,
+}: {
+  def: CategoryDef;
+  names: string[];
+  count: number;
+  canRemove: boolean;
+  onOp: (op: CategoryOp) => void;
+}) {
+  const [name, setName] = useState(def.name);
+  const error = name.trim() === def.name ? null : validateCategoryName(name, names, def.name);
+
+  return (
+    <div className="bg-slate-950/60 rounded-lg px-3 py-2 border border-white/10 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="p-1.5 rounded-md" style={{ background: CATEGORY_PALETTE[def.color].hex }}>
+          <CategoryIconView icon={def.icon} className="w-4 h-4" />
+        </span>
+        <input
+          type="text"
+          value={name}
+          maxLength={CATEGORY_NAME_MAX}
+          onChange={(e) => setName(e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 rounded-md bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+        />
+        <button
+          disabled={!!error || name.trim() === def.name}
+          onClick={() => onOp({ type: "rename", from: def.name, to: name.trim() })}
+          className="px-2 py-1 text-xs rounded-md bg-blue-950/40 border border-white/10 hover:bg-blue-950/50 disabled:opacity-40"
+        >
+          改名
+        </button>
+        <span className="text-xs text-neutral-400 whitespace-nowrap">{count}語</span>
+        <button
+          disabled={!canRemove}
+          title={canRemove ? undefined : `カテゴリは${MIN_CATEGORIES}つ以上必要です`}
+          onClick={() => {
+            const ok = window.confirm(
+              `「${def.name}」を削除します。\nこのカテゴリの語（${count}件）と、コメント・育成値などのこのカテゴリの記録も消えます。よろしいですか？`
+            );
+            if (ok) onOp({ type: "remove", name: def.name });
+          }}
+          className="px-2 py-1 text-xs rounded-md bg-white/10 hover:bg-red-500/20 border border-white/20 hover:border-red-500/30 disabled:opacity-40"
+        >
+          削除
+        </button>
+      </div>
+      {error && <p className="text-xs text-rose-300">{error}</p>}
+      <div className="flex flex-wrap items-center gap-1">
+        {CATEGORY_COLOR_KEYS.map((c) => (
+          <button
+            key={c}
+            title={CATEGORY_PALETTE[c].label}
+            onClick={() => onOp({ type: "restyle", name: def.name, color: c, icon: def.icon })}
+            className={`w-5 h-5 rounded-full border-2 ${def.color === c ? "border-white" : "border-transparent"}`}
+            style={{ background: CATEGORY_PALETTE[c].hex }}
+          />
+        ))}
+        <span className="mx-1 h-4 w-px bg-white/10" />
+        {CATEGORY_ICON_KEYS.map((i) => (
+          <button
+            key={i}
+            onClick={() => onOp({ type: "restyle", name: def.name, color: def.color, icon: i })}
+            className={`p-1 rounded-md border ${def.icon === i ? "bg-white/15 border-white/40" : "border-transparent hover:bg-white/10"}`}
+          >
+            <CategoryIconView icon={i} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function CategoryManager({ defs, lexicon, onOp }: CategoryManagerProps) {
+  const [name, setName] = useState("");
+  const names = defs.map((d) => d.name);
+  const full = defs.length >= MAX_CATEGORIES;
+  const error = name.trim() ? validateCategoryName(name, names) : null;
+
+  const add = () => {
+    const n = name.trim();
+    if (full || !n || validateCategoryName(n, names)) return;
+    onOp({ type: "add", name: n, color: nextCategoryColor(defs) });
+    setName("");
+  };
+
+  return (
+    <div className="p-5 space-y-4">
+      <p className="text-xs text-neutral-400">
+        レーダーの軸を {MIN_CATEGORIES}〜{MAX_CATEGORIES} 個の範囲で増やしたり、名前・色を変えたりできます。
+        改名すると辞書・修飾語・コメント・履歴・育成の記録も新しい名前に付け替えます。
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+        {/* 一覧 */}
+        <div className="space-y-2">
+          {defs.map((d) => (
+            <CategoryRow
+              key={d.name}
+              def={d}
+              names={names}
+              count={lexicon[d.name]?.length ?? 0}
+              canRemove={defs.length > MIN_CATEGORIES}
+              onOp={onOp}
+            />
+          ))}
+        </div>
+
+        {/* 追加 */}
+        <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10 h-fit">
+          <h3 className="font-semibold mb-3">カテゴリを追加</h3>
+          <input
+            type="text"
+            value={name}
+            maxLength={CATEGORY_NAME_MAX}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") add(); }}
+            placeholder="例: 怒り"
+            disabled={full}
+            className="w-full px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none disabled:opacity-40"
+          />
+          {error && <p className="mt-1 text-xs text-rose-300">{error}</p>}
+          {full && <p className="mt-1 text-xs text-neutral-400">カテゴリは{MAX_CATEGORIES}つまでです</p>}
+          <button
+            onClick={add}
+            disabled={full || !name.trim() || !!error}
+            className="mt-3 w-full py-2 rounded-lg bg-blue-950/40 hover:bg-blue-950/50 border border-white/10 disabled:opacity-40"
+          >
+            追加
+          </button>
+          <p className="mt-3 text-xs text-neutral-500">
+            追加したカテゴリは語が空の状態で始まります。タブを開いて語を登録してください。
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React, { useState } from "react";
+import { Download, Upload } from "lucide-react";
+import type { Category } from "../engine";
+import {
+  COMMENT_MERGE_MODE_LABEL,
+  mergeCommentBank,
+  parseCommentBank,
+  type CommentBank,
+  type CommentMergeMode,
+} from "../comments";
+import { COMMENT_PRESETS } from "../commentPresets";
+
+// コメント設定の「読み込み・書き出し」欄：JSON の読み込み・書き出しと、口調プリセットの取り込み
+
+interface CommentBankTransferProps {
+  bank: CommentBank;
+  categories: Category[];
+  onChange: (next: CommentBank) => void;
+}
+
+export default function CommentBankTransfer({ bank, categories, onChange }: CommentBankTransferProps) {
+  const [mode, setMode] = useState<CommentMergeMode>("merge");
+  const [status, setStatus] = useState<{ msg: string; error?: boolean } | null>(null);
+
+  const take = (incoming: CommentBank, from: string, dropped = 0) => {
+    const { bank: next, added, skipped } = mergeCommentBank(bank, incoming, categories, mode);
+    onChange(next);
+    const notes = [
+      skipped.length ? `辞書に無いカテゴリ（${skipped.join("・")}）は取り込みませんでした` : "",
+      dropped ? `読めなかった行 ${dropped}件は捨てました` : "",
+    ].filter(Boolean);
+    setStatus({ msg: `${from}から${added}件を${mode === "merge" ? "追加" : "置き換え"}しました。${notes.join("。")}` });
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.currentTarget.value = "";
+    if (!f) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const parsed = parseCommentBank(JSON.parse(String(reader.result).replace(/^\uFEFF/, "")));
+        if (!parsed) throw new Error("shape");
+        take(parsed.bank, `「${f.name}」`, parsed.dropped);
+      } catch {
+        setStatus({ msg: "読み込めませんでした。{ カテゴリ: { soft: [...], mid: [...], high: [...] } } の形の JSON か確認してください。", error: true });
+      }
+    };
+    reader.readAsText(f);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(bank, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "comments.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">読み込み・書き出し</h3>
+        <div className="flex gap-2">
+          <button onClick={handleExport} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs flex items-center gap-1">
+            <Download className="w-3 h-3" />
+            JSON書き出し
+          </button>
+          <label className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs flex items-center gap-1 cursor-pointer">
+            <Upload className="w-3 h-3" />
+            JSON読み込み
+            <input type="file" accept="application/json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+      </div>
+
+      {/* 取り込み方 */}
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(Object.keys(COMMENT_MERGE_MODE_LABEL) as CommentMergeMode[]).map((m) => (
+          <label key={m} className="flex items-center gap-1 cursor-pointer">
+            <input type="radio" name="comment-merge-mode" checked={mode === m} onChange={() => setMode(m)} />
+            {COMMENT_MERGE_MODE_LABEL[m]}
+          </label>
+        ))}
+      </div>
+
+      {/* プリセット */}
+      <div>
+        <div className="text-xs opacity-70 mb-2">口調のプリセット（「追加」で読むと複数を混ぜられます）</div>
+        <div className="flex flex-wrap gap-2">
+          {COMMENT_PRESETS.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => take(p.bank, `プリセット「${p.label}」`)}
+              title={p.description}
+              className="px-3 py-1.5 rounded-full text-sm border bg-black/20 border-white/10 hover:bg-black/30"
+            >
+              {p.label}
+              <span className="ml-1 text-[10px] opacity-60">{p.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {status && <p className={`text-xs ${status.error ? "text-rose-300" : "text-emerald-300"}`}>{status.msg}</p>}
+    </div>
+  );
+}
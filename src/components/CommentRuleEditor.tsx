@@ -0,0 +1,239 @@
+import React, { useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import type { AnalysisResult, Category } from "../engine";
+import {
+  COMMENT_LEVELS,
+  COMMENT_LEVEL_LABEL,
+  commentVarsOf,
+  renderCommentTemplate,
+  ruleCategory,
+  ruleMatches,
+  unknownCommentVariables,
+  type CommentCondition,
+  type CommentLevel,
+  type CommentRule,
+} from "../comments";
+
+// コメント設定の「ルール」欄：条件の組み合わせで出すコメントの作成・並べ替えと、今の本文でのプレビュー
+
+interface CommentRuleEditorProps {
+  rules: CommentRule[];
+  categories: Category[];
+  /** プレビュー用の今の解析結果（本文が空なら null） */
+  result: AnalysisResult | null;
+  leaders: Category[];
+  onChange: (next: CommentRule[]) => void;
+}
+
+function conditionLabel(c: CommentCondition): string {
+  return c.type === "term" ? `「${c.term}」が出た` : `${c.category}が${COMMENT_LEVEL_LABEL[c.level]}以上`;
+}
+
+export default function CommentRuleEditor({ rules, categories, result, leaders, onChange }: CommentRuleEditorProps) {
+  const [editId, setEditId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [conditions, setConditions] = useState<CommentCondition[]>([]);
+  const [text, setText] = useState("");
+  // 条件を足す欄
+  const [condCat, setCondCat] = useState<Category>(categories[0]);
+  const [condLevel, setCondLevel] = useState<CommentLevel>("mid");
+  const [condTerm, setCondTerm] = useState("");
+
+  const clearForm = () => {
+    setEditId(null);
+    setName("");
+    setConditions([]);
+    setText("");
+    setCondTerm("");
+  };
+
+  const startEdit = (r: CommentRule) => {
+    setEditId(r.id);
+    setName(r.name);
+    setConditions(r.conditions);
+    setText(r.text);
+  };
+
+  const save = () => {
+    if (!conditions.length || !text.trim()) return;
+    const rule: CommentRule = {
+      id: editId ?? `${Date.now().toString(36)}-${rules.length}`,
+      name: name.trim() || conditions.map(conditionLabel).join("・"),
+      conditions,
+      text: text.trim(),
+    };
+    onChange(editId ? rules.map((r) => (r.id === editId ? { ...rule, enabled: r.enabled } : r)) : [...rules, rule]);
+    clearForm();
+  };
+
+  const move = (idx: number, dir: -1 | 1) => {
+    const j = idx + dir;
+    if (j < 0 || j >= rules.length) return;
+    const next = rules.slice();
+    [next[idx], next[j]] = [next[j], next[idx]];
+    onChange(next);
+  };
+
+  const addLevelCondition = () => {
+    const cat = categories.includes(condCat) ? condCat : categories[0];
+    setConditions([...conditions.filter((c) => !(c.type === "level" && c.category === cat)), { type: "level", category: cat, level: condLevel }]);
+  };
+
+  const addTermCondition = () => {
+    const t = condTerm.trim();
+    if (!t || conditions.some((c) => c.type === "term" && c.term === t)) return;
+    setConditions([...conditions, { type: "term", term: t }]);
+    setCondTerm("");
+  };
+
+  // 今の本文で当たったときの文
+  const preview = (r: Pick<CommentRule, "conditions" | "text">): string | null => {
+    if (!result) return null;
+    const cat = ruleCategory({ id: "", name: "", ...r }, leaders);
+    return cat ? renderCommentTemplate(r.text, commentVarsOf(result, cat)) : r.text;
+  };
+  const firstHit = result ? rules.find((r) => ruleMatches(r, result))?.id : undefined;
+  const draftHits = !!result && ruleMatches({ id: "", name: "", conditions, text }, result);
+  const unknown = unknownCommentVariables(text);
+
+  return (
+    <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-4">
+      <div>
+        <h3 className="font-medium">ルール</h3>
+        <p className="text-xs opacity-70 mt-1">
+          条件をすべて満たしたとき、上のコメントより先に出します。複数当たったときは一覧の上にあるものを使います。
+        </p>
+      </div>
+
+      {/* 作成・編集 */}
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="ルール名（空なら条件から付けます）"
+          className="w-full px-3 py-2 rounded-lg bg-black/20 border border-white/10 text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <select value={condCat} onChange={(e) => setCondCat(e.target.value)} className="px-2 py-1 rounded-lg bg-black/20 border border-white/10">
+            {categories.map((c) => (
+              <option key={c} value={c}>{c}</option>
+            ))}
+          </select>
+          <span>が</span>
+          <select value={condLevel} onChange={(e) => setCondLevel(e.target.value as CommentLevel)} className="px-2 py-1 rounded-lg bg-black/20 border border-white/10">
+            {COMMENT_LEVELS.map((l) => (
+              <option key={l} value={l}>{COMMENT_LEVEL_LABEL[l]}</option>
+            ))}
+          </select>
+          <span>以上</span>
+          <button onClick={addLevelCondition} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">条件に追加</button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <input
+            type="text"
+            value={condTerm}
+            onChange={(e) => setCondTerm(e.target.value)}
+            onKeyDown={(e) => { if (e.key === "Enter") addTermCondition(); }}
+            placeholder="辞書の語（例: 会いたい）"
+            className="px-2 py-1 rounded-lg bg-black/20 border border-white/10"
+          />
+          <span>が出た</span>
+          <button onClick={addTermCondition} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">条件に追加</button>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {conditions.length === 0 ? (
+            <span className="text-xs opacity-60">条件がまだありません</span>
+          ) : (
+            conditions.map((c, i) => (
+              <button
+                key={i}
+                onClick={() => setConditions(conditions.filter((_, k) => k !== i))}
+                title="クリックで外す"
+                className="px-2 py-0.5 rounded-full bg-white/10 hover:bg-red-500/20 border border-white/10 text-xs"
+              >
+                {conditionLabel(c)} ×
+              </button>
+            ))
+          )}
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="w-full h-20 px-3 py-2 rounded-lg bg-black/20 border border-white/10 text-sm"
+          placeholder="例: {top_term} に{category}がにじみつつ、{second_category}も {second_score}% 見えます。"
+        />
+        {unknown.length > 0 && <p className="text-xs text-amber-300">知らない変数: {unknown.map((n) => `{${n}}`).join(" ")}</p>}
+        {text.trim() && conditions.length > 0 && (
+          <p className="text-xs opacity-80">
+            {result
+              ? draftHits
+                ? <>今の本文で当たります：{preview({ conditions, text })}</>
+                : "今の本文では当たりません"
+              : "本文を入力するとプレビューが出ます"}
+          </p>
+        )}
+        <div className="flex items-center gap-2 justify-end">
+          {editId && (
+            <button onClick={clearForm} className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs">
+              編集をやめる
+            </button>
+          )}
+          <button
+            onClick={save}
+            disabled={!conditions.length || !text.trim()}
+            className="px-3 py-1.5 rounded-lg bg-gradient-to-r from-sky-500 to-cyan-500 hover:from-sky-600 hover:to-cyan-600 text-sm shadow-lg shadow-cyan-500/25 disabled:opacity-40"
+          >
+            {editId ? "ルールを更新" : "ルールを追加"}
+          </button>
+        </div>
+      </div>
+
+      {/* 一覧 */}
+      {rules.length === 0 ? (
+        <div className="text-sm opacity-70">ルールはまだありません。</div>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((r, idx) => {
+            const hit = !!result && ruleMatches(r, result);
+            return (
+              <div key={r.id} className={`p-3 rounded-lg border ${r.id === firstHit ? "bg-cyan-500/10 border-cyan-500/30" : "bg-black/20 border-white/10"}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={r.enabled !== false}
+                    onChange={(e) => onChange(rules.map((x) => (x.id === r.id ? { ...x, enabled: e.target.checked } : x)))}
+                    title="使う"
+                  />
+                  <span className="text-sm font-medium truncate">{r.name}</span>
+                  {hit && (
+                    <span className="px-2 py-0.5 rounded-full bg-cyan-500/20 text-[10px]">{r.id === firstHit ? "表示中" : "当たり"}</span>
+                  )}
+                  <div className="ml-auto flex gap-1">
+                    <button onClick={() => move(idx, -1)} disabled={idx === 0} className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30">
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => move(idx, 1)} disabled={idx === rules.length - 1} className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30">
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => startEdit(r)} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs">
+                      編集
+                    </button>
+                    <button
+                      onClick={() => { onChange(rules.filter((x) => x.id !== r.id)); if (editId === r.id) clearForm(); }}
+                      className="px-2 py-1 rounded bg-red-500/20 hover:bg-red-500/30 border border-red-500/30 text-xs"
+                    >
+                      削除
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-1 text-xs opacity-70">{r.conditions.map(conditionLabel).join(" かつ ")}</div>
+                <div className="mt-1 text-sm">{hit ? preview(r) : r.text}</div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from "react";
+import {
+  Radar,
+  RadarChart,
+  PolarGrid,
+  PolarAngleAxis,
+  PolarRadiusAxis,
+  ResponsiveContainer,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { GitCompare, X } from "lucide-react";
+import { useAnalysis } from "../hooks/useAnalysis";
+import {
+  SCORING_MODE_LABEL,
+  compareResults,
+  type AnalyzeOptions,
+  type Lexicon,
+  type TermUse,
+} from "../engine";
+
+// 2つの文章の比較：レーダーを重ねて、カテゴリごとの差と片方にしか無い辞書語を出す
+
+/** 比較元に選べる履歴（App の HistItem のうち使う部分だけ） */
+export interface CompareSource {
+  id: string;
+  ts: string;
+  snip: string;
+  full: string;
+}
+
+interface CompareViewProps {
+  lexicon: Lexicon;
+  options: AnalyzeOptions;
+  /** A 側の初期値（入力欄の本文） */
+  initialText: string;
+  history: CompareSource[];
+  onClose: () => void;
+}
+
+const SIDE_STROKE = { A: "rgb(168, 85, 247)", B: "rgb(56, 189, 248)" } as const;
+
+function SideInput({
+  side,
+  text,
+  onChange,
+  history,
+}: {
+  side: "A" | "B";
+  text: string;
+  onChange: (next: string) => void;
+  history: CompareSource[];
+}) {
+  const [source, setSource] = useState("");
+  return (
+    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-sm font-medium flex items-center gap-2">
+          <span className="inline-block w-2 h-2 rounded-full" style={{ background: SIDE_STROKE[side] }} />
+          {side}
+        </span>
+        <select
+          value={source}
+          onChange={(e) => {
+            setSource(e.target.value);
+            const item = history.find((h) => h.id === e.target.value);
+            if (item) onChange(item.full);
+          }}
+          className="max-w-[16rem] px-2 py-1 rounded-lg bg-black/30 border border-white/10 text-xs outline-none"
+        >
+          <option value="">自由入力</option>
+          {history.map((h) => (
+            <option key={h.id} value={h.id}>
+              {new Date(h.ts).toLocaleString("ja-JP")}　{h.snip.slice(0, 24)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setSource("");
+        }}
+        placeholder={side === "A" ? "比べる元の文章（下書きなど）" : "比べる先の文章（書き直しなど）"}
+        className="w-full h-32 bg-black/20 border border-white/10 rounded-lg p-2 text-sm resize-none focus:border-purple-500/50 outline-none placeholder:text-gray-500"
+      />
+    </div>
+  );
+}
+
+function TermList({ title, uses }: { title: string; uses: TermUse[] }) {
+  return (
+    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+      <div className="text-xs text-gray-400 mb-2">{title}</div>
+      {uses.length === 0 ? (
+        <p className="text-xs text-gray-500">なし</p>
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {uses.map((u) => (
+            <span key={u.term} className="px-1.5 py-0.5 rounded bg-black/30 border border-white/10 text-xs">
+              {u.term}
+              <span className="ml-1 text-gray-400">
+                {u.categories.join("・")}
+                {u.count > 1 ? ` ×${u.count}` : ""}
+              </span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CompareView({ lexicon, options, initialText, history, onClose }: CompareViewProps) {
+  const [textA, setTextA] = useState(initialText);
+  const [textB, setTextB] = useState("");
+  const { result: a, pending: pendingA } = useAnalysis(textA, lexicon, options);
+  const { result: b, pending: pendingB } = useAnalysis(textB, lexicon, options);
+  const cmp = useMemo(() => compareResults(a, b), [a, b]);
+  const radarData = cmp.deltas.map((d) => ({
+    subject: d.category,
+    A: Number(d.a.toFixed(2)),
+    B: Number(d.b.toFixed(2)),
+  }));
+  const sources = useMemo(() => history.slice().reverse(), [history]);
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+      <aside className="absolute right-0 top-0 h-full w-full sm:w-[880px] bg-gradient-to-b from-slate-900 to-slate-950 border-l border-white/10 shadow-2xl flex flex-col">
+        {/* ヘッダ */}
+        <div className="p-4 border-b border-white/10 bg-white/5 backdrop-blur flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <GitCompare className="w-5 h-5" />
+            比較
+          </h2>
+          <div className="flex items-center gap-2">
+            {(pendingA || pendingB) && (
+              <span className="px-2 py-0.5 rounded-full bg-purple-500/20 border border-purple-500/30 text-[10px] text-purple-200 animate-pulse">
+                解析中…
+              </span>
+            )}
+            <span className="px-2 py-0.5 rounded-full bg-white/10 text-[10px] text-gray-300">
+              {SCORING_MODE_LABEL[a.scoring]}
+            </span>
+            <button onClick={onClose} className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* 本体 */}
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <SideInput side="A" text={textA} onChange={setTextA} history={sources} />
+            <SideInput side="B" text={textB} onChange={setTextB} history={sources} />
+          </div>
+
+          <div className="h-72 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <RadarChart data={radarData}>
+                <PolarGrid stroke="rgba(255,255,255,0.1)" />
+                <PolarAngleAxis dataKey="subject" tick={{ fill: "#e2e8f0", fontSize: 12 }} />
+                <PolarRadiusAxis tick={{ fill: "#94a3b8", fontSize: 10 }} angle={30} domain={[0, 100]} />
+                <Radar name="A" dataKey="A" stroke={SIDE_STROKE.A} fill={SIDE_STROKE.A} fillOpacity={0.2} />
+                <Radar name="B" dataKey="B" stroke={SIDE_STROKE.B} fill={SIDE_STROKE.B} fillOpacity={0.2} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Tooltip
+                  contentStyle={{
+                    background: "rgba(0,0,0,0.8)",
+                    border: "1px solid rgba(168,85,247,0.5)",
+                    borderRadius: "8px",
+                  }}
+                />
+              </RadarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* カテゴリごとの差 */}
+          <table className="w-full text-sm rounded-xl overflow-hidden bg-black/20 border border-white/10">
+            <thead>
+              <tr className="text-xs text-gray-400 border-b border-white/10">
+                <th className="text-left font-normal px-3 py-2">カテゴリ</th>
+                <th className="text-right font-normal px-3 py-2">A</th>
+                <th className="text-right font-normal px-3 py-2">B</th>
+                <th className="text-right font-normal px-3 py-2">差（B − A）</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cmp.deltas.map((d) => (
+                <tr key={d.category} className="border-b border-white/5 last:border-0">
+                  <td className="px-3 py-2">{d.category}</td>
+                  <td className="px-3 py-2 text-right text-gray-300">{d.a.toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-right text-gray-300">{d.b.toFixed(1)}%</td>
+                  <td
+                    className={`px-3 py-2 text-right ${
+                      Math.abs(d.delta) < 0.05 ? "text-gray-500" : d.delta > 0 ? "text-emerald-300" : "text-rose-300"
+                    }`}
+                  >
+                    {d.delta > 0 ? "+" : ""}
+                    {d.delta.toFixed(1)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* 片方にしか無い辞書語 */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <TermList title="A にだけある語" uses={cmp.onlyA} />
+            <TermList title="B にだけある語" uses={cmp.onlyB} />
+          </div>
+          {cmp.shared.length > 0 && (
+            <p className="text-xs text-gray-400">両方にある語：{cmp.shared.join("、")}</p>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
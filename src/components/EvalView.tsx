@@ -0,0 +1,364 @@
+import React, { useMemo, useState } from "react";
+import { FlaskConical, Upload, X } from "lucide-react";
+import sampleCorpus from "../engine/corpus/evaluation.json";
+import { prepareTokenizer } from "../engine/tokenizerBrowser";
+import {
+  NO_LEAD,
+  diffEvalReports,
+  evaluateCorpus,
+  hashLexicon,
+  parseEvalCorpus,
+  worstMisses,
+  type AnalyzeOptions,
+  type EvalOutcome,
+  type EvalReport,
+  type Lexicon,
+  type Modifiers,
+} from "../engine";
+
+// 辞書の評価：答え付きのコーパスを今の辞書で解析して、正解率・混同行列・大きく外した例を出す。
+// 保存しておいた前の辞書（スナップショット）でも同じコーパスを解析して、良くなったか悪くなったかを比べる
+
+interface EvalViewProps {
+  lexicon: Lexicon;
+  options: AnalyzeOptions;
+  onClose: () => void;
+}
+
+/** 比較用に保存した辞書 */
+interface LexiconSnapshot {
+  ts: string;
+  lexicon: Lexicon;
+  modifiers?: Modifiers;
+  /** 辞書のハッシュ（今の辞書と同じかどうかの目印） */
+  hash: string;
+}
+
+const SNAPSHOT_KEY = "emotion_radar_eval_snapshot_v1";
+const CORPUS_KEY = "emotion_radar_eval_corpus_v1";
+const WORST_LIMIT = 10;
+
+function loadSnapshot(): LexiconSnapshot | null {
+  try {
+    const raw = localStorage.getItem(SNAPSHOT_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed.ts === "string" && parsed.lexicon ? (parsed as LexiconSnapshot) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSnapshot(s: LexiconSnapshot | null) {
+  if (s) localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(s));
+  else localStorage.removeItem(SNAPSHOT_KEY);
+}
+
+// コーパスは大きいことがあるので、入らなければ保存しない
+export function loadEvalCorpusText(): string {
+  return localStorage.getItem(CORPUS_KEY) ?? "";
+}
+
+function saveCorpusText(text: string) {
+  try { localStorage.setItem(CORPUS_KEY, text); } catch { /* 容量オーバーは諦める */ }
+}
+
+export const EVAL_SAMPLE_TEXT = (sampleCorpus as unknown[]).map((x) => JSON.stringify(x)).join("\n");
+
+function pct(n: number | null): string {
+  return n === null ? "—" : `${(n * 100).toFixed(1)}%`;
+}
+
+function signed(n: number, digits = 1): string {
+  return `${n > 0 ? "+" : ""}${n.toFixed(digits)}`;
+}
+
+function OutcomeList({ title, outcomes, empty }: { title: string; outcomes: EvalOutcome[]; empty: string }) {
+  return (
+    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+      <div className="text-xs text-gray-400 mb-2">{title}</div>
+      {outcomes.length === 0 ? (
+        <p className="text-xs text-gray-500">{empty}</p>
+      ) : (
+        <ul className="space-y-2">
+          {outcomes.map((o) => (
+            <li key={o.example.id} className="text-xs">
+              <p className="text-gray-200 line-clamp-2">
+                <span className="mr-1 text-gray-500">#{o.example.id}</span>
+                {o.example.text}
+              </p>
+              <p className="text-gray-400">
+                期待 {o.example.lead.join("・")} → 予測 {o.predicted ?? "なし"}
+                {o.predicted && ` (${o.normalized[o.predicted].toFixed(0)}%)`}
+                {o.mae !== undefined && ` ・ 誤差 ${o.mae.toFixed(1)}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ConfusionMatrix({ report }: { report: EvalReport }) {
+  const cols = [...report.categories, NO_LEAD];
+  const max = Math.max(1, ...report.categories.flatMap((r) => cols.map((c) => report.confusion[r]?.[c] ?? 0)));
+  return (
+    <div className="overflow-x-auto rounded-xl bg-black/20 border border-white/10">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400 border-b border-white/10">
+            <th className="text-left font-normal px-2 py-2">期待＼予測</th>
+            {cols.map((c) => (
+              <th key={c} className="text-right font-normal px-2 py-2 whitespace-nowrap">{c === NO_LEAD ? "なし" : c}</th>
+            ))}
+            <th className="text-right font-normal px-2 py-2">再現率</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.perCategory.map((s) => (
+            <tr key={s.category} className="border-b border-white/5">
+              <td className="px-2 py-1.5 whitespace-nowrap">{s.category}</td>
+              {cols.map((c) => {
+                const n = report.confusion[s.category]?.[c] ?? 0;
+                const hit = c === s.category;
+                return (
+                  <td
+                    key={c}
+                    className={`px-2 py-1.5 text-right ${n === 0 ? "text-gray-600" : hit ? "text-emerald-200" : "text-rose-200"}`}
+                    style={n ? { background: hit ? `rgba(16,185,129,${0.1 + 0.4 * (n / max)})` : `rgba(244,63,94,${0.1 + 0.4 * (n / max)})` } : undefined}
+                  >
+                    {n}
+                  </td>
+                );
+              })}
+              <td className="px-2 py-1.5 text-right text-gray-300">{pct(s.recall)}</td>
+            </tr>
+          ))}
+          <tr className="text-gray-300">
+            <td className="px-2 py-1.5 text-gray-400">適合率</td>
+            {report.perCategory.map((s) => (
+              <td key={s.category} className="px-2 py-1.5 text-right">{pct(s.precision)}</td>
+            ))}
+            <td />
+            <td />
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function EvalView({ lexicon, options, onClose }: EvalViewProps) {
+  const [source, setSource] = useState<string>(() => loadEvalCorpusText());
+  const [snapshot, setSnapshot] = useState<LexiconSnapshot | null>(() => loadSnapshot());
+  const [report, setReport] = useState<EvalReport | null>(null);
+  const [previous, setPrevious] = useState<EvalReport | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const corpus = useMemo(() => parseEvalCorpus(source), [source]);
+  const diff = useMemo(() => (report && previous ? diffEvalReports(report, previous) : null), [report, previous]);
+  const sameAsSnapshot = snapshot?.hash === hashLexicon(lexicon);
+
+  const changeSource = (next: string) => {
+    setSource(next);
+    saveCorpusText(next);
+    setReport(null);
+    setPrevious(null);
+  };
+
+  const importFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => changeSource(String(reader.result ?? ""));
+    reader.readAsText(file);
+  };
+
+  // 描画を1回挟んでから解析する（大きいコーパスでも「評価中…」を出せるように）。
+  // 見出し語モードの語があれば、先に形態素解析の辞書を読み込む
+  const run = () => {
+    setRunning(true);
+    setTimeout(() => {
+      Promise.all([prepareTokenizer(lexicon), snapshot && prepareTokenizer(snapshot.lexicon)])
+        .then(() => {
+          setReport(evaluateCorpus(corpus.examples, lexicon, options));
+          setPrevious(
+            snapshot
+              ? evaluateCorpus(corpus.examples, snapshot.lexicon, { ...options, modifiers: snapshot.modifiers ?? options.modifiers })
+              : null
+          );
+        })
+        .catch((e: unknown) => alert(e instanceof Error ? e.message : String(e)))
+        .finally(() => setRunning(false));
+    }, 0);
+  };
+
+  const takeSnapshot = () => {
+    const next: LexiconSnapshot = { ts: new Date().toISOString(), lexicon, modifiers: options.modifiers, hash: hashLexicon(lexicon) };
+    saveSnapshot(next);
+    setSnapshot(next);
+    setPrevious(report);
+  };
+
+  const clearSnapshot = () => {
+    saveSnapshot(null);
+    setSnapshot(null);
+    setPrevious(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+      <aside className="absolute right-0 top-0 h-full w-full sm:w-[880px] bg-gradient-to-b from-slate-900 to-slate-950 border-l border-white/10 shadow-2xl flex flex-col">
+        {/* ヘッダ */}
+        <div className="p-4 border-b border-white/10 bg-white/5 backdrop-blur flex items-center justify-between">
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            辞書の評価
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-lg bg-white/10 hover:bg-white/20">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* 本体 */}
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="p-3 rounded-lg bg-white/5 border border-white/10 text-sm leading-relaxed">
+            答え付きの文（コーパス）を今の辞書で解析して、首位カテゴリの正解率を出します。
+            JSONL は1行に <code className="text-xs">{`{"text": "…", "lead": "愛情"}`}</code>（lead は配列も可、
+            <code className="text-xs">"scores": {`{"愛情": 80, …}`}</code> でスコアの答えも付けられます）。
+            CSV は text 列と、lead 列かカテゴリ名の列を並べてください。
+          </div>
+
+          {/* コーパス */}
+          <div className="p-3 rounded-xl bg-white/5 border border-white/10 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs flex items-center gap-1 cursor-pointer">
+                <Upload className="w-3 h-3" />
+                ファイルを読み込む
+                <input
+                  type="file"
+                  accept=".jsonl,.json,.csv,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    e.currentTarget.value = "";
+                    if (f) importFile(f);
+                  }}
+                />
+              </label>
+              <button onClick={() => changeSource(EVAL_SAMPLE_TEXT)} className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs">
+                サンプル
+              </button>
+              <span className="ml-auto text-xs text-gray-400">
+                {corpus.examples.length}件{corpus.errors.length > 0 && ` ・ 読めない行 ${corpus.errors.length}`}
+              </span>
+            </div>
+            <textarea
+              value={source}
+              onChange={(e) => changeSource(e.target.value)}
+              placeholder='{"text": "会いたいのに会えない", "lead": "切なさ"}'
+              className="w-full h-32 bg-black/20 border border-white/10 rounded-lg p-2 text-xs font-mono resize-y focus:border-purple-500/50 outline-none placeholder:text-gray-500"
+            />
+            {corpus.errors.length > 0 && (
+              <ul className="text-[11px] text-amber-200 space-y-0.5">
+                {corpus.errors.slice(0, 5).map((e) => <li key={e}>{e}</li>)}
+                {corpus.errors.length > 5 && <li>ほか {corpus.errors.length - 5} 行</li>}
+              </ul>
+            )}
+          </div>
+
+          {/* 実行・スナップショット */}
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={run}
+              disabled={running || corpus.examples.length === 0}
+              className="px-4 py-2 rounded-lg bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-sm disabled:opacity-40"
+            >
+              {running ? "評価中…" : "評価する"}
+            </button>
+            <button
+              onClick={takeSnapshot}
+              title="今の辞書を比較用に保存します（前のスナップショットは上書き）"
+              className="px-3 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-sm"
+            >
+              今の辞書をスナップショットに保存
+            </button>
+            {snapshot && (
+              <>
+                <span className="text-xs text-gray-400">
+                  比較先：{new Date(snapshot.ts).toLocaleString("ja-JP")}
+                  {sameAsSnapshot && "（今の辞書と同じ）"}
+                </span>
+                <button onClick={clearSnapshot} className="px-2 py-1 rounded-md bg-white/10 hover:bg-red-500/20 text-xs">
+                  削除
+                </button>
+              </>
+            )}
+          </div>
+
+          {report && (
+            <>
+              {/* 集計 */}
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                  <div className="text-xs text-gray-400">正解率</div>
+                  <div className="text-2xl font-semibold">{pct(report.accuracy)}</div>
+                  <div className="text-xs text-gray-400">{report.correct} / {report.total}</div>
+                </div>
+                <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                  <div className="text-xs text-gray-400">スコア誤差（平均）</div>
+                  <div className="text-2xl font-semibold">{report.mae === null ? "—" : report.mae.toFixed(1)}</div>
+                  <div className="text-xs text-gray-400">scores 付きの例のみ</div>
+                </div>
+                {previous && diff && (
+                  <>
+                    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                      <div className="text-xs text-gray-400">スナップショットとの差</div>
+                      <div className={`text-2xl font-semibold ${diff.accuracyDelta > 0 ? "text-emerald-300" : diff.accuracyDelta < 0 ? "text-rose-300" : ""}`}>
+                        {signed(diff.accuracyDelta * 100)}pt
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        前 {pct(previous.accuracy)}
+                        {diff.maeDelta !== null && ` ・ 誤差 ${signed(diff.maeDelta)}`}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-xl bg-white/5 border border-white/10">
+                      <div className="text-xs text-gray-400">入れ替わり</div>
+                      <div className="text-2xl font-semibold">
+                        <span className="text-emerald-300">+{diff.fixed.length}</span>
+                        <span className="mx-1 text-gray-500">/</span>
+                        <span className="text-rose-300">−{diff.broken.length}</span>
+                      </div>
+                      <div className="text-xs text-gray-400">直った / 崩れた</div>
+                    </div>
+                  </>
+                )}
+              </div>
+              {report.skipped.length > 0 && (
+                <p className="text-xs text-amber-200">
+                  期待カテゴリが今の辞書に無い {report.skipped.length} 件は数えていません
+                </p>
+              )}
+
+              {/* 混同行列 */}
+              <div>
+                <div className="text-sm font-medium mb-2">混同行列</div>
+                <ConfusionMatrix report={report} />
+              </div>
+
+              {/* 外した例 */}
+              <OutcomeList title={`大きく外した例（上位${WORST_LIMIT}件）`} outcomes={worstMisses(report, WORST_LIMIT)} empty="外した例はありません" />
+
+              {diff && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <OutcomeList title="スナップショットから直った例" outcomes={diff.fixed.slice(0, WORST_LIMIT)} empty="なし" />
+                  <OutcomeList title="スナップショットから崩れた例" outcomes={diff.broken.slice(0, WORST_LIMIT)} empty="なし" />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
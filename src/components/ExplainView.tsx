@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from "react";
+import { DOUBLE_NEGATION_FACTOR, type Category, type MatchSpan } from "../engine";
+
+// 入力テキストにマッチ箇所を色付けして、ホバーで加点の内訳を出す
+
+interface ExplainViewProps {
+  text: string;
+  matches: MatchSpan[];
+  /** 感嘆符・文長による全体補正 */
+  scale: number;
+  /** App の CATEGORY_COLORS（グラデーション＋枠線のクラス） */
+  colors: Record<Category, string>;
+}
+
+type Piece = { start: number; end: number; hits: MatchSpan[] };
+
+const KIND_LABEL: Record<MatchSpan["kind"], string> = {
+  lexeme: "辞書語",
+  emoji: "絵文字",
+  kaomoji: "顔文字",
+  relation: "関係ブースト",
+  prosody: "書き方",
+};
+
+// 重なったマッチも表示できるよう、境界ごとに細切れにする。
+// マッチは開始位置順に1回だけ見て、いま掛かっているものだけを持ち回す（長文でマッチが数万あっても重くならないように）
+function toPieces(text: string, matches: MatchSpan[]): Piece[] {
+  const cuts = new Set<number>([0, text.length]);
+  for (const m of matches) { cuts.add(m.start); cuts.add(m.end); }
+  const sorted = [...cuts].filter((n) => n >= 0 && n <= text.length).sort((a, b) => a - b);
+  const order = matches.map((_, i) => i).sort((a, b) => matches[a].start - matches[b].start || a - b);
+  const pieces: Piece[] = [];
+  // 掛かっているマッチの番号（元の並び順。吹き出しの表示順を変えないため）
+  let active: number[] = [];
+  let next = 0;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    if (start === end) continue;
+    active = active.filter((k) => matches[k].end > start);
+    let added = false;
+    while (next < order.length && matches[order[next]].start <= start) {
+      if (matches[order[next]].end > start) { active.push(order[next]); added = true; }
+      next++;
+    }
+    if (added) active.sort((a, b) => a - b);
+    pieces.push({ start, end, hits: active.map((k) => matches[k]) });
+  }
+  return pieces;
+}
+
+function fmt(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+export default function ExplainView({ text, matches, scale, colors }: ExplainViewProps) {
+  const pieces = useMemo(() => toPieces(text, matches), [text, matches]);
+  const [hover, setHover] = useState<number | null>(null);
+
+  if (!text.trim()) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="p-3 rounded-lg bg-black/20 border border-white/10 text-sm leading-7 whitespace-pre-wrap break-words">
+        {pieces.map((p, i) => {
+          if (p.hits.length === 0) return <span key={i}>{text.slice(p.start, p.end)}</span>;
+          const head = p.hits[0];
+          const zeroed = p.hits.every((h) => h.factor === 0);
+          return (
+            <span
+              key={i}
+              className={`relative rounded px-0.5 bg-gradient-to-r ${colors[head.categories[0]]} border-b-2 cursor-help ${
+                zeroed ? "line-through opacity-60" : ""
+              }`}
+              onMouseEnter={() => setHover(i)}
+              onMouseLeave={() => setHover((h) => (h === i ? null : h))}
+            >
+              {text.slice(p.start, p.end)}
+              {hover === i && (
+                <span className="absolute left-0 top-full mt-1 z-30 w-64 p-2 rounded-lg bg-slate-950/95 border border-white/20 shadow-xl text-xs leading-relaxed whitespace-normal no-underline">
+                  {p.hits.map((h, k) => (
+                    <span key={k} className={`block ${k > 0 ? "mt-2 pt-2 border-t border-white/10" : ""}`}>
+                      <span className="block font-medium">
+                        「{h.term}」<span className="text-gray-400">（{KIND_LABEL[h.kind]}）</span>
+                      </span>
+                      <span className="block">重み: {fmt(h.weight)}</span>
+                      {h.intensifier && <span className="block">強調「{h.intensifier}」: ×{fmt(h.intensifierFactor ?? 1)}</span>}
+                      {h.diminisher && <span className="block">弱調「{h.diminisher}」: ×{fmt(h.diminisherFactor ?? 1)}</span>}
+                      {h.negation && (h.negationCount ?? 1) % 2 === 0 && (
+                        <span className="block text-emerald-300">二重否定「{h.negation}」: 打ち消し（×{DOUBLE_NEGATION_FACTOR}）</span>
+                      )}
+                      {h.negation && (h.negationCount ?? 1) % 2 === 1 && (
+                        h.flippedTo ? (
+                          <span className="block text-rose-300">否定「{h.negation}」: {h.flippedTo}へ振り替え（×{fmt(h.negationFactor ?? 0)}）</span>
+                        ) : (
+                          <span className="block text-rose-300">
+                            否定「{h.negation}」: ×{fmt(h.negationFactor ?? 0)}{(h.negationFactor ?? 0) === 0 ? "（無効）" : ""}
+                          </span>
+                        )
+                      )}
+                      <span className="block">
+                        {h.delta < 0 ? "減点" : "加点"}: {fmt(h.delta)} → {h.categories.join(" / ")}
+                      </span>
+                    </span>
+                  ))}
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-400">
+        マッチ {matches.length}件 ・ 全体補正（感嘆符・文長） ×{scale.toFixed(2)}
+      </p>
+    </div>
+  );
+}
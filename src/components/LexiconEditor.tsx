@@ -1,20 +1,40 @@
 import React, { useEffect, useRef, useState } from "react";
-
-// App.tsxから型定義をインポート
-type Category = "愛情" | "切なさ" | "悲しみ" | "甘え" | "欲";
-
-interface Lexeme {
-  term: string;
-  weight?: number;
-  categories?: Category[];
-}
-
-type Lexicon = Record<Category, Lexeme[]>;
+import {
+  MATCH_MODES,
+  MATCH_MODE_LABEL,
+  categoriesOf,
+  isValidPattern,
+  type AnalyzeOptions,
+  type Category,
+  type Lexeme,
+  type Lexicon,
+  type MatchMode,
+  type Modifiers,
+  type NormalizeOptions,
+  type OverlapPolicy,
+} from "../engine";
+import type { CategoryDef, CategoryOp } from "../categories";
+import ModifierEditor from "./ModifierEditor";
+import OverlapPanel from "./OverlapPanel";
+import NormalizePanel from "./NormalizePanel";
+import CategoryManager from "./CategoryManager";
+import WeightTuner from "./WeightTuner";
 
 // Props の型定義
 interface LexiconEditorProps {
   lexicon: Lexicon;
   onChange: (next: Lexicon) => void;
+  /** カテゴリの見た目（辞書のキーと同じ並び） */
+  categoryDefs: CategoryDef[];
+  onCategoryOp: (op: CategoryOp) => void;
+  modifiers: Modifiers;
+  onModifiersChange: (next: Modifiers) => void;
+  overlap: OverlapPolicy;
+  onOverlapChange: (next: OverlapPolicy) => void;
+  normalize: NormalizeOptions;
+  onNormalizeChange: (next: NormalizeOptions) => void;
+  /** 重み調整で評価し直すときの解析の設定（画面の設定と同じもの） */
+  analyzeOptions: AnalyzeOptions;
   onClose: () => void;
   onImport: (file: File) => void;
   onReset: () => void;
@@ -23,14 +43,29 @@ interface LexiconEditorProps {
 export default function LexiconEditor({
   lexicon,
   onChange,
+  categoryDefs,
+  onCategoryOp,
+  modifiers,
+  onModifiersChange,
+  overlap,
+  onOverlapChange,
+  normalize,
+  onNormalizeChange,
+  analyzeOptions,
   onClose,
   onImport,
   onReset,
 }: LexiconEditorProps) {
-  const categories: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
-  const [tab, setTab] = useState<Category>("愛情");
+  const categories = categoriesOf(lexicon);
+  const [selected, setTab] = useState<Category>(categories[0]);
+  // 改名・削除で選択中のタブが無くなったら先頭へ
+  const tab = categories.includes(selected) ? selected : categories[0];
+  // カテゴリ別の語彙 or 修飾語・重なり・正規化・カテゴリ管理・重み調整タブ
+  const [view, setView] = useState<"lexicon" | "modifiers" | "overlaps" | "normalize" | "categories" | "tuning">("lexicon");
   const [term, setTerm] = useState("");
   const [weight, setWeight] = useState(1.0);
+  const [mode, setMode] = useState<MatchMode>("substring");
+  const [negatedTo, setNegatedTo] = useState<Category | "">("");
   const [multiCats, setMultiCats] = useState<Category[]>([tab]);
   const [showJsonText, setShowJsonText] = useState(false);
   const [jsonText, setJsonText] = useState<string>("");
@@ -42,12 +77,13 @@ export default function LexiconEditor({
 
   useEffect(() => {
     if (showJsonText) {
-      const obj = Object.fromEntries(
-        categories.map((c) => [c, lexicon[c] ?? []])
-      );
+      const obj = {
+        ...Object.fromEntries(categories.map((c) => [c, lexicon[c] ?? []])),
+        modifiers,
+      };
       setJsonText(JSON.stringify(obj, null, 2));
     }
-  }, [showJsonText, lexicon]);
+  }, [showJsonText, lexicon, modifiers]);
 
   const addLexeme = () => {
   const t = term.trim();
@@ -63,22 +99,31 @@ export default function LexiconEditor({
     return;
   }
 
+  // 正規表現モードは書式チェック
+  if (mode === "regex" && !isValidPattern(t)) {
+    alert("正規表現として読み込めません。書式を確認してください。");
+    return;
+  }
+
   // 追加しようとしているカテゴリ集合（複数指定されていればそれを採用）
-  const cats = (multiCats && multiCats.length > 0) ? [...new Set(multiCats)] : [tab];
+  const picked = multiCats.filter((c) => categories.includes(c));
+  const cats = picked.length > 0 ? [...new Set(picked)] : [tab];
 
   // 同一タブ内で、同じ語句＋同じカテゴリ構成が既にあるかを確認
   const exists = (lexicon[tab] ?? []).some((x) => {
     const xCats = x.categories && x.categories.length > 0 ? x.categories.slice().sort().join(",") : tab;
     const newCats = (cats.length > 1 ? cats.slice().sort().join(",") : tab);
-    return x.term === t && xCats === newCats;
+    return x.term === t && xCats === newCats && (x.match ?? "substring") === mode;
   });
   if (exists) {
-    alert("同じ語句（同じカテゴリ構成）がすでに登録されています。");
+    alert("同じ語句（同じカテゴリ構成・マッチ方法）がすでに登録されています。");
     return;
   }
 
   const newLex: Lexeme = { term: t, weight: w };
   if (cats.length > 1) newLex.categories = cats;
+  if (mode !== "substring") newLex.match = mode;
+  if (negatedTo && categories.includes(negatedTo)) newLex.negatedTo = negatedTo;
 
   const next: Lexicon = { ...lexicon };
   next[tab] = [...(next[tab] ?? []), newLex];
@@ -86,6 +131,7 @@ export default function LexiconEditor({
   onChange(next);
   setTerm("");
   setWeight(1);
+  setNegatedTo("");
 };
 
   const deleteLexeme = (cat: Category, idx: number) => {
@@ -214,17 +260,64 @@ export default function LexiconEditor({
           {categories.map((c) => (
             <button
               key={c}
-              onClick={() => setTab(c)}
+              onClick={() => { setTab(c); setView("lexicon"); }}
               className={`px-3 py-1.5 rounded-xl border ${
-                tab === c ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+                view === "lexicon" && tab === c ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
               }`}
             >
               {c}
             </button>
           ))}
+          <button
+            onClick={() => setView("modifiers")}
+            className={`px-3 py-1.5 rounded-xl border ${
+              view === "modifiers" ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            修飾語
+          </button>
+          <button
+            onClick={() => setView("overlaps")}
+            className={`px-3 py-1.5 rounded-xl border ${
+              view === "overlaps" ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            重なり
+          </button>
+          <button
+            onClick={() => setView("normalize")}
+            className={`px-3 py-1.5 rounded-xl border ${
+              view === "normalize" ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            正規化
+          </button>
+          <button
+            onClick={() => setView("categories")}
+            className={`px-3 py-1.5 rounded-xl border ${
+              view === "categories" ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            カテゴリ
+          </button>
+          <button
+            onClick={() => setView("tuning")}
+            className={`px-3 py-1.5 rounded-xl border ${
+              view === "tuning" ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            重み調整
+          </button>
         </div>
 
+        {view === "modifiers" && <ModifierEditor modifiers={modifiers} categories={categories} onChange={onModifiersChange} />}
+        {view === "categories" && <CategoryManager defs={categoryDefs} lexicon={lexicon} onOp={onCategoryOp} />}
+        {view === "overlaps" && <OverlapPanel lexicon={lexicon} policy={overlap} onPolicyChange={onOverlapChange} />}
+        {view === "normalize" && <NormalizePanel options={normalize} onChange={onNormalizeChange} />}
+        {view === "tuning" && <WeightTuner lexicon={lexicon} options={analyzeOptions} onChange={onChange} />}
+
         {/* メインコンテンツ */}
+        {view === "lexicon" && (
         <div className="p-5 grid grid-cols-1 lg:grid-cols-2 gap-5">
           {/* 追加フォーム */}
           <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
@@ -252,6 +345,38 @@ export default function LexiconEditor({
                   className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
                 />
               </div>
+              <div>
+                <label className="text-sm text-neutral-400">マッチ方法</label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as MatchMode)}
+                  className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+                >
+                  {MATCH_MODES.map((m) => (
+                    <option key={m} value={m}>{MATCH_MODE_LABEL[m]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-neutral-500 mt-1">
+                  {mode === "lemma" && "辞書形（例: 泣く・会う・悲しい）で登録すると、泣いて・会いたい・悲しかった にも当たります（同梱の形態素解析辞書で原形に戻して比べます。初回は辞書の読み込みに少し時間がかかります）。"}
+                  {mode === "exact" && "前後が単語の切れ目のときだけ当たります（「熱」は「情熱」に当たらない）。"}
+                  {mode === "prefix" && "単語の先頭から始まるときだけ当たります（「欲」は「欲求」に当たり「意欲」には当たらない）。"}
+                  {mode === "regex" && "JavaScript の正規表現として扱います（例: ほし(い|く)）。"}
+                  {mode === "substring" && "文字列が含まれていれば当たります（従来の動作）。"}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm text-neutral-400">否定されたとき</label>
+                <select
+                  value={negatedTo}
+                  onChange={(e) => setNegatedTo(e.target.value as Category | "")}
+                  className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+                >
+                  <option value="">加点しない（0点）</option>
+                  {categories.map((c) => (
+                    <option key={c} value={c}>{c} に振り替える</option>
+                  ))}
+                </select>
+              </div>
               <div>
                 <label className="text-sm text-neutral-400">複数カテゴリ適用</label>
                 <div className="mt-1 flex flex-wrap gap-2">
@@ -296,6 +421,12 @@ export default function LexiconEditor({
                     <div>
                       <span className="font-medium">{lex.term}</span>
                       <span className="ml-2 text-xs text-neutral-400">重み: {lex.weight ?? 1}</span>
+                      {lex.match && lex.match !== "substring" && (
+                        <span className="ml-2 text-xs text-neutral-400">{MATCH_MODE_LABEL[lex.match]}</span>
+                      )}
+                      {lex.negatedTo && (
+                        <span className="ml-2 text-xs text-neutral-400">否定→{lex.negatedTo}</span>
+                      )}
                       {lex.categories && lex.categories.length > 1 && (
                         <span className="ml-2 text-xs text-neutral-400">
                           複数: {lex.categories.join(", ")}
@@ -315,10 +446,11 @@ export default function LexiconEditor({
 
             {/* 下部統計 */}
             <div className="mt-4 bg-slate-950/60 rounded-xl p-3 border border-white/10 text-sm text-neutral-300">
-              愛情: {lexicon["愛情"].length}　切なさ: {lexicon["切なさ"].length}　悲しみ: {lexicon["悲しみ"].length}　甘え: {lexicon["甘え"].length}　欲: {lexicon["欲"].length}
+              {categories.map((c) => `${c}: ${lexicon[c].length}`).join("　")}
             </div>
           </div>
         </div>
+        )}
       </div>
     </div>
   </div>
@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import {
+  MODIFIER_KINDS,
+  MODIFIER_KIND_LABEL,
+  MODIFIER_DEFAULT_FACTOR,
+  PROSODY_MARKERS,
+  PROSODY_MARKER_LABEL,
+  isProsodyMarker,
+  type Category,
+  type ModifierEntry,
+  type ModifierKind,
+  type Modifiers,
+} from "../engine";
+
+// 辞書エディタの「修飾語」タブ（強調語・弱調語・否定語・絵文字・顔文字・関係語・書き方）
+
+interface ModifierEditorProps {
+  modifiers: Modifiers;
+  /** 選べるカテゴリ（辞書の並び） */
+  categories: Category[];
+  onChange: (next: Modifiers) => void;
+}
+
+const FACTOR_LABEL: Record<ModifierKind, string> = {
+  intensifiers: "倍率（例: 1.5）",
+  diminishers: "倍率（例: 0.7）",
+  negations: "否定されたときの倍率（0 = 加点しない）",
+  emoji: "1回あたりの加点",
+  kaomoji: "1回あたりの加点",
+  bond: "1回あたりの加点",
+  prosody: "1回あたりの加点（マイナスで減点）",
+};
+
+const CATEGORY_LABEL: Record<ModifierKind, string> = {
+  intensifiers: "効かせるカテゴリ（空 = すべて）",
+  diminishers: "効かせるカテゴリ（空 = すべて）",
+  negations: "振り替え先カテゴリ（空 = 振り替えない）",
+  emoji: "加点先カテゴリ",
+  kaomoji: "加点先カテゴリ",
+  bond: "加点先カテゴリ",
+  prosody: "加点・減点するカテゴリ",
+};
+
+const KIND_HELP: Record<ModifierKind, string> = {
+  intensifiers: "語の直前（8文字以内）にあると、その語の加点に倍率を掛けます。例: まじで、クソ",
+  diminishers: "語の直前（8文字以内）にあると、その語の加点に倍率を掛けます。",
+  negations: "語の直後のスコープ内で数えます。奇数個で否定、偶数個は二重否定として打ち消します。",
+  emoji: "本文中に出てくるたびに、指定カテゴリへ加点します。❤️ と ❤、肌色違いは同じ絵文字として数えます。",
+  kaomoji: "本文中に出てくるたびに、指定カテゴリへ加点します。全角・半角の違いは無視します。登録の無い顔文字も目・口の形から推定して少しだけ加点します。",
+  bond: "関係ブーストがONのとき、出てくるたびに指定カテゴリへ加点します。",
+  prosody: "「…」「〜」「w」「？！」や伸ばした語が出てくるたびに、指定カテゴリへ加点・減点します（1つの特徴につき3回まで）。減点はそのカテゴリの点数より下げません。",
+};
+
+// 書き方は語句の代わりに特徴を選ぶ。倍率・加点は書き方だけマイナスも可
+const needsCategoryFor = (k: ModifierKind) => k === "emoji" || k === "kaomoji" || k === "bond" || k === "prosody";
+const minFactorFor = (k: ModifierKind) => (k === "prosody" ? -5.0 : 0);
+
+function termLabel(kind: ModifierKind, term: string): string {
+  return kind === "prosody" && isProsodyMarker(term) ? PROSODY_MARKER_LABEL[term] : term;
+}
+
+export default function ModifierEditor({ modifiers, categories, onChange }: ModifierEditorProps) {
+  const [kind, setKind] = useState<ModifierKind>("intensifiers");
+  const [term, setTerm] = useState("");
+  const [factor, setFactor] = useState<number>(MODIFIER_DEFAULT_FACTOR.intensifiers);
+  const [category, setCategory] = useState<Category | "">("");
+
+  const needsCategory = needsCategoryFor(kind);
+  const list = modifiers[kind] ?? [];
+
+  const switchKind = (k: ModifierKind) => {
+    setKind(k);
+    setTerm(k === "prosody" ? PROSODY_MARKERS[0] : "");
+    setFactor(MODIFIER_DEFAULT_FACTOR[k]);
+    setCategory(needsCategoryFor(k) ? categories[0] ?? "" : "");
+  };
+
+  const addEntry = () => {
+    const t = term.trim();
+    if (!t) {
+      alert("語句が空です。入力してください。");
+      return;
+    }
+    const f = Number(factor);
+    if (Number.isNaN(f) || f < minFactorFor(kind) || f > 5.0) {
+      alert(`倍率・加点は ${minFactorFor(kind)} 〜 5.0 の間で入力してください。`);
+      return;
+    }
+    if (needsCategory && !category) {
+      alert("加点先カテゴリを選んでください。");
+      return;
+    }
+    if (list.some((x) => x.term === t && (x.category ?? "") === category)) {
+      alert("同じ語句（同じカテゴリ）がすでに登録されています。");
+      return;
+    }
+    const entry: ModifierEntry = { term: t, factor: f };
+    if (category) entry.category = category;
+    onChange({ ...modifiers, [kind]: [...list, entry] });
+    setTerm(kind === "prosody" ? t : "");
+  };
+
+  const deleteEntry = (idx: number) => {
+    onChange({ ...modifiers, [kind]: list.filter((_, i) => i !== idx) });
+  };
+
+  return (
+    <div className="p-5 space-y-4">
+      {/* 種類 */}
+      <div className="flex flex-wrap gap-2">
+        {MODIFIER_KINDS.map((k) => (
+          <button
+            key={k}
+            onClick={() => switchKind(k)}
+            className={`px-3 py-1.5 rounded-xl border text-sm ${
+              kind === k ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            {MODIFIER_KIND_LABEL[k]} ({(modifiers[k] ?? []).length})
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-400">{KIND_HELP[kind]}</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+        {/* 追加フォーム */}
+        <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
+          <h3 className="font-semibold mb-3">{MODIFIER_KIND_LABEL[kind]} を追加</h3>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm text-neutral-400">{kind === "prosody" ? "特徴" : "語句・絵文字"}</label>
+              {kind === "prosody" ? (
+                <select
+                  value={term}
+                  onChange={(e) => setTerm(e.target.value)}
+                  className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+                >
+                  {PROSODY_MARKERS.map((m) => (
+                    <option key={m} value={m}>{PROSODY_MARKER_LABEL[m]}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={term}
+                  onChange={(e) => setTerm(e.target.value)}
+                  placeholder={kind === "emoji" ? "例: 🫶" : kind === "kaomoji" ? "例: (*´ω`*)" : "例: まじで"}
+                  className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+                />
+              )}
+            </div>
+            <div>
+              <label className="text-sm text-neutral-400">{FACTOR_LABEL[kind]}</label>
+              <input
+                type="number"
+                value={factor}
+                onChange={(e) => setFactor(Number(e.target.value))}
+                min={minFactorFor(kind)}
+                max={5.0}
+                step={0.1}
+                className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-sm text-neutral-400">{CATEGORY_LABEL[kind]}</label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as Category | "")}
+                className="w-full mt-1 px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+              >
+                {!needsCategory && <option value="">（指定なし）</option>}
+                {categories.map((c) => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={addEntry}
+              className="w-full py-2 rounded-lg bg-blue-950/40 hover:bg-blue-950/50 border border-white/10"
+            >
+              追加
+            </button>
+          </div>
+        </div>
+
+        {/* 一覧 */}
+        <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
+          <h3 className="font-semibold mb-3">{MODIFIER_KIND_LABEL[kind]} ({list.length}件)</h3>
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {list.length === 0 ? (
+              <p className="text-neutral-400 text-sm">登録がありません</p>
+            ) : (
+              list.map((m, idx) => (
+                <div
+                  key={idx}
+                  className="flex items-center justify-between bg-slate-950/60 rounded-lg px-3 py-2 border border-white/10"
+                >
+                  <div>
+                    <span className="font-medium">{termLabel(kind, m.term)}</span>
+                    <span className="ml-2 text-xs text-neutral-400">
+                      {needsCategory ? (m.factor < 0 ? "" : "+") : "×"}{m.factor}
+                    </span>
+                    {m.category && <span className="ml-2 text-xs text-neutral-400">{m.category}</span>}
+                  </div>
+                  <button
+                    onClick={() => deleteEntry(idx)}
+                    className="px-2 py-1 text-xs rounded-md bg-white/10 hover:bg-red-500/20 border border-white/20 hover:border-red-500/30 transition-colors"
+                  >
+                    削除
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import React from "react";
+import {
+  DEFAULT_NARRATIVE_PHRASES,
+  NARRATIVE_PHRASE_KEYS,
+  NARRATIVE_PHRASE_LABEL,
+  buildNarrative,
+  type AnalysisResult,
+  type NarrativePhrases,
+} from "../engine";
+
+// コメント設定の「要約の文言」欄：文章の要約を組み立てるフレーズの編集と、今の本文でのプレビュー
+
+interface NarrativePhraseEditorProps {
+  phrases: NarrativePhrases;
+  onChange: (next: NarrativePhrases) => void;
+  /** プレビュー用の今の解析結果（本文が空なら null） */
+  result: AnalysisResult | null;
+  relationBoost: boolean;
+}
+
+export default function NarrativePhraseEditor({ phrases, onChange, result, relationBoost }: NarrativePhraseEditorProps) {
+  const preview = result ? buildNarrative(result, phrases, { relationBoost }) : null;
+
+  return (
+    <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">要約の文言</h3>
+        <button
+          onClick={() => {
+            if (window.confirm("要約の文言をすべて既定に戻します。よろしいですか？")) onChange(DEFAULT_NARRATIVE_PHRASES);
+          }}
+          className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-xs"
+        >
+          既定に戻す
+        </button>
+      </div>
+      <p className="text-xs opacity-70">
+        結果の「要約」はこの文を並べて作ります。{"{ }"} の変数は解析結果で埋まります。埋めた結果が空の（）は消えます。
+      </p>
+
+      <div className="space-y-2">
+        {NARRATIVE_PHRASE_KEYS.map((k) => (
+          <label key={k} className="block">
+            <span className="text-[11px] opacity-70">{NARRATIVE_PHRASE_LABEL[k]}</span>
+            <input
+              type="text"
+              value={phrases[k]}
+              onChange={(e) => onChange({ ...phrases, [k]: e.target.value })}
+              className="w-full px-2 py-1 rounded-lg bg-black/20 border border-white/10 text-sm"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="p-3 rounded-lg bg-black/20 border border-white/10 text-sm space-y-2">
+        {preview ? preview.map((p, i) => <p key={i}>{p}</p>) : <p className="opacity-60">本文を入力するとプレビューが出ます</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import React, { useMemo, useState } from "react";
+import {
+  DEFAULT_NORMALIZE,
+  NORMALIZE_STEPS,
+  NORMALIZE_STEP_LABEL,
+  normalizeText,
+  type NormalizeOptions,
+} from "../engine";
+
+// 辞書エディタの「正規化」タブ：照合前にかける手順の切り替えと、その場で試せるプレビュー
+
+interface NormalizePanelProps {
+  options: NormalizeOptions;
+  onChange: (next: NormalizeOptions) => void;
+}
+
+export default function NormalizePanel({ options, onChange }: NormalizePanelProps) {
+  const [sample, setSample] = useState("ｷﾞｭｰってして〜〜 スキすきーーー！！");
+  const preview = useMemo(() => normalizeText(sample, options).text, [sample, options]);
+
+  return (
+    <div className="p-5 space-y-4">
+      <p className="text-xs text-neutral-400">
+        本文と辞書の語句の両方に同じ手順をかけてから照合します。ハイライトは元の文字の位置に表示されます。
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-5">
+        {/* 手順 */}
+        <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
+          <h3 className="font-semibold mb-3">手順</h3>
+          <div className="space-y-2">
+            {NORMALIZE_STEPS.map((s) => (
+              <label key={s} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!options[s]}
+                  onChange={(e) => onChange({ ...options, [s]: e.target.checked })}
+                />
+                {NORMALIZE_STEP_LABEL[s]}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={() => onChange({ ...DEFAULT_NORMALIZE })}
+            className="mt-4 px-3 py-1.5 text-xs rounded-lg bg-white/10 hover:bg-white/20 border border-white/20"
+          >
+            おすすめの手順にする
+          </button>
+        </div>
+
+        {/* プレビュー */}
+        <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
+          <h3 className="font-semibold mb-3">プレビュー</h3>
+          <input
+            type="text"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+            className="w-full px-3 py-2 rounded-lg bg-slate-950/60 border border-white/10 focus:border-blue-400 outline-none"
+          />
+          <p className="mt-3 text-sm">
+            <span className="text-neutral-400 text-xs mr-2">照合に使う形</span>
+            {preview}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React, { useMemo } from "react";
+import {
+  OVERLAP_POLICIES,
+  OVERLAP_POLICY_LABEL,
+  findOverlapGroups,
+  overlapWinners,
+  type Lexicon,
+  type OverlapEntry,
+  type OverlapPolicy,
+} from "../engine";
+
+// 辞書エディタの「重なり」タブ：ほかの語を含んでいる語句の一覧と、重なりの扱いの切り替え
+
+interface OverlapPanelProps {
+  lexicon: Lexicon;
+  policy: OverlapPolicy;
+  onPolicyChange: (next: OverlapPolicy) => void;
+}
+
+const POLICY_HELP: Record<OverlapPolicy, string> = {
+  all: "重なった語をすべて数えます。「愛してるよ」と書くと「愛してる」も一緒に加点されます。",
+  longest: "同じ箇所に当たった語のうち、いちばん長い語だけを数えます。",
+  weight: "同じ箇所に当たった語のうち、重みのいちばん大きい語だけを数えます（同じなら長い方）。",
+};
+
+function EntryChip({ entry, counted }: { entry: OverlapEntry; counted: boolean }) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md border text-xs ${
+        counted ? "bg-blue-950/40 border-blue-400/40" : "bg-slate-950/60 border-white/10 text-neutral-500 line-through"
+      }`}
+    >
+      {entry.term}
+      <span className="text-neutral-400 no-underline">{entry.category}・{entry.weight}</span>
+    </span>
+  );
+}
+
+export default function OverlapPanel({ lexicon, policy, onPolicyChange }: OverlapPanelProps) {
+  const groups = useMemo(() => findOverlapGroups(lexicon), [lexicon]);
+
+  return (
+    <div className="p-5 space-y-4">
+      {/* 方針 */}
+      <div className="flex flex-wrap gap-2">
+        {OVERLAP_POLICIES.map((p) => (
+          <button
+            key={p}
+            onClick={() => onPolicyChange(p)}
+            className={`px-3 py-1.5 rounded-xl border text-sm ${
+              policy === p ? "bg-blue-950/40 border-white/10" : "bg-blue-950/20 border-white/10 hover:bg-blue-950/35"
+            }`}
+          >
+            {OVERLAP_POLICY_LABEL[p]}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-neutral-400">{POLICY_HELP[policy]}</p>
+
+      {/* 重なりグループ */}
+      <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
+        <h3 className="font-semibold mb-1">重なっている語句 ({groups.length}組)</h3>
+        <p className="text-xs text-neutral-400 mb-3">
+          左の語句が本文に出たとき、右の語も同じ箇所に当たります。取り消し線の語は今の方針では数えられません。正規表現の語は対象外です。
+        </p>
+        <div className="max-h-96 overflow-y-auto space-y-2">
+          {groups.length === 0 ? (
+            <p className="text-neutral-400 text-sm">重なっている語句はありません</p>
+          ) : (
+            groups.map((g, idx) => {
+              const winners = new Set(overlapWinners(g, policy));
+              return (
+                <div
+                  key={idx}
+                  className="flex flex-wrap items-center gap-2 bg-slate-950/60 rounded-lg px-3 py-2 border border-white/10"
+                >
+                  <EntryChip entry={g.outer} counted={winners.has(g.outer)} />
+                  <span className="text-neutral-500 text-xs">⊃</span>
+                  {g.inner.map((e, k) => (
+                    <EntryChip key={k} entry={e} counted={winners.has(e)} />
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
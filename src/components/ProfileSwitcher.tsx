@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { Layers } from "lucide-react";
+
+// 入力パネルの見出しに置くプロファイルの切り替え（辞書・修飾語・採点の方式・コメントのひとまとまり）
+
+/** プロファイル名の長さの上限 */
+export const PROFILE_NAME_MAX = 20;
+
+interface ProfileSwitcherProps {
+  names: string[];
+  active: string;
+  onSwitch: (name: string) => void;
+  /** 今の設定を写して新しいプロファイルを作る */
+  onCreate: (name: string) => void;
+  onRename: (name: string) => void;
+  onRemove: () => void;
+}
+
+export function validateProfileName(name: string, names: string[], self?: string): string | null {
+  const n = name.trim();
+  if (!n) return "名前を入力してください";
+  if (n.length > PROFILE_NAME_MAX) return `名前は${PROFILE_NAME_MAX}文字までです`;
+  if (n !== self && names.includes(n)) return "同じ名前のプロファイルがあります";
+  return null;
+}
+
+export default function ProfileSwitcher({ names, active, onSwitch, onCreate, onRename, onRemove }: ProfileSwitcherProps) {
+  // 名前の入力欄（新規 or 改名のときだけ開く）
+  const [editing, setEditing] = useState<"create" | "rename" | null>(null);
+  const [name, setName] = useState("");
+  const error = editing ? validateProfileName(name, names, editing === "rename" ? active : undefined) : null;
+
+  const open = (mode: "create" | "rename") => {
+    setEditing(mode);
+    setName(mode === "rename" ? active : "");
+  };
+
+  const submit = () => {
+    if (!editing || error) return;
+    if (editing === "create") onCreate(name.trim());
+    else if (name.trim() !== active) onRename(name.trim());
+    setEditing(null);
+  };
+
+  if (editing) {
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          autoFocus
+          type="text"
+          value={name}
+          maxLength={PROFILE_NAME_MAX}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submit();
+            if (e.key === "Escape") setEditing(null);
+          }}
+          placeholder={editing === "create" ? "例: 仕事のチャット" : undefined}
+          title={error ?? undefined}
+          className={`w-36 px-2 py-1 rounded-lg bg-black/20 border text-xs outline-none ${
+            error && name ? "border-rose-500/50" : "border-white/10 focus:border-purple-400"
+          }`}
+        />
+        <button
+          onClick={submit}
+          disabled={!!error}
+          className="px-2 py-1 rounded-lg bg-purple-500/20 hover:bg-purple-500/30 border border-purple-500/30 text-xs disabled:opacity-40"
+        >
+          {editing === "create" ? "作成" : "改名"}
+        </button>
+        <button onClick={() => setEditing(null)} className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-xs">
+          取消
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Layers className="w-3.5 h-3.5 text-gray-400" />
+      <select
+        value={active}
+        onChange={(e) => onSwitch(e.target.value)}
+        title="プロファイル（辞書・修飾語・採点の方式・コメントをまとめて切り替え）"
+        className="max-w-[9rem] px-2 py-1 rounded-lg bg-black/20 border border-white/10 text-xs"
+      >
+        {names.map((n) => (
+          <option key={n} value={n}>{n}</option>
+        ))}
+      </select>
+      <button onClick={() => open("create")} title="今の設定を写して新しく作る" className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-xs">
+        新規
+      </button>
+      <button onClick={() => open("rename")} className="px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-xs">
+        改名
+      </button>
+      <button
+        disabled={names.length < 2}
+        title={names.length < 2 ? "プロファイルが1つだけのときは削除できません" : undefined}
+        onClick={() => {
+          if (window.confirm(`プロファイル「${active}」を削除します。よろしいですか？`)) onRemove();
+        }}
+        className="px-2 py-1 rounded-lg bg-white/10 hover:bg-red-500/20 text-xs disabled:opacity-40"
+      >
+        削除
+      </button>
+    </div>
+  );
+}
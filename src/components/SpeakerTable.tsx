@@ -0,0 +1,77 @@
+import React from "react";
+import { leadersOf, type Category, type SpeakerAnalysis } from "../engine";
+
+// 会話モードの話者ごとの表：発言数・首位カテゴリ・寄与の大きい語
+
+interface SpeakerTableProps {
+  speakers: SpeakerAnalysis[];
+  /** レーダーの線と同じ色（speakers と同じ並び） */
+  colors: string[];
+  /** レーダーに載せきれずに省いた話者の数 */
+  hidden?: number;
+}
+
+const TOP_TERMS = 4;
+
+/** カテゴリをまたいで寄与の大きい語（内部用の __ で始まるキーは除く） */
+function topTermsOf(s: SpeakerAnalysis): Array<{ term: string; cat: Category; val: number }> {
+  const out: Array<{ term: string; cat: Category; val: number }> = [];
+  for (const [cat, terms] of s.result.details) {
+    for (const [term, val] of terms) {
+      if (!term.startsWith("__") && val > 0) out.push({ term, cat, val });
+    }
+  }
+  return out.sort((a, b) => b.val - a.val).slice(0, TOP_TERMS);
+}
+
+export default function SpeakerTable({ speakers, colors, hidden = 0 }: SpeakerTableProps) {
+  return (
+    <div className="overflow-x-auto rounded-xl bg-black/20 border border-white/10">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400 border-b border-white/10">
+            <th className="text-left font-normal px-3 py-2">話者</th>
+            <th className="text-right font-normal px-3 py-2">発言数</th>
+            <th className="text-left font-normal px-3 py-2">首位</th>
+            <th className="text-left font-normal px-3 py-2">上位の語</th>
+          </tr>
+        </thead>
+        <tbody>
+          {speakers.map((s, i) => {
+            const lead = leadersOf(s.result.normalized);
+            const terms = topTermsOf(s);
+            return (
+              <tr key={s.speaker} className="border-b border-white/5 last:border-0 align-top">
+                <td className="px-3 py-2 whitespace-nowrap">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: colors[i] }} />
+                  {s.speaker}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-300">{s.messages}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{lead.length ? lead.join("・") : <span className="text-gray-500">—</span>}</td>
+                <td className="px-3 py-2">
+                  {terms.length === 0 ? (
+                    <span className="text-gray-500">寄与語なし</span>
+                  ) : (
+                    <span className="flex flex-wrap gap-1">
+                      {terms.map((t) => (
+                        <span key={`${t.cat}:${t.term}`} className="px-1.5 py-0.5 rounded bg-white/5 border border-white/10">
+                          {t.term}
+                          <span className="ml-1 text-gray-400">{t.cat} +{t.val.toFixed(1)}</span>
+                        </span>
+                      ))}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {hidden > 0 && (
+        <p className="px-3 py-2 text-[11px] text-gray-400 border-t border-white/10">
+          ほか {hidden} 人は発言が少ないため省略しています
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,8 @@ import React, { useEffect, useState, useRef, useCallback } from "react";
 import { createPortal } from "react-dom";
 
 import { BarChart3, Sparkles, Copy, X, Download, Upload, ImagePlus, Trash2, Edit3, HelpCircle } from "lucide-react";
+import { dropKey, renameKey, type Category } from "../engine";
 
-/** App.tsx と同じ定義に合わせる */
-type Category = "愛情" | "切なさ" | "悲しみ" | "甘え" | "欲";
 type GrowthStats = Record<Category, number>;
 
 /** 保存データ */
@@ -19,7 +18,7 @@ type PetSave = {
 const PET_KEY = "emotion_pet_v1";
 
 const DEFAULT_SAVE: PetSave = {
-  stats: { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 },
+  stats: {},
   total: 0,
   version: 1,
   forms: {},
@@ -48,10 +47,58 @@ const PET_IMAGE_ANIM_KEY = "emotion_pet_image_anim_v1";
 // ▼ 台詞カスタマイズの保存キー
 const PET_LINES_KEY = "emotion_pet_lines_v1";
 
-// 解析結果を「比較しやすいキー」にする（小数1桁で丸めて5項目を連結）
-function makeResultKey(latest: Record<Category, number> | null): string | null {
+// ▼ 成長段階と台詞の既定
+type Stage = "egg" | "child" | "teen" | "adult";
+type PetLines = Record<Category, Record<Stage, string[]>>;
+
+const DEFAULT_LINES: PetLines = {
+  愛情: {
+    egg:   ["ここ…あったかい…", "ぽかぽかする…"],
+    child: ["なかよししたい！", "ぎゅってしてもいい？"],
+    teen:  ["もっと一緒にいたいな", "手をつないで歩こうよ"],
+    adult: ["大好きがあふれてるよ", "きみがいると安心する"],
+  },
+  切なさ: {
+    egg:   ["ときどき…きゅってなる", "だれか…いるかな"],
+    child: ["はやくあいたいよ", "キミをさがしちゃう"],
+    teen:  ["会えない時間が長いね", "窓の外を見ちゃうんだ"],
+    adult: ["気持ちが届きますように", "また会える日を楽しみにしてる"],
+  },
+  悲しみ: {
+    egg:   ["しーん…", "少しさみしい…"],
+    child: ["ぎゅってして…", "ないちゃってもいい？"],
+    teen:  ["今日は元気ない？そばにいるね", "深呼吸しよ、一緒に"],
+    adult: ["無理しないでね、ここにいるから", "つらい時は頼ってほしいな"],
+  },
+  甘え: {
+    egg:   ["ふにゃ…", "ぴとっ…"],
+    child: ["なでてほしいな", "だっこ～！"],
+    teen:  ["ちょっと甘えてもいい？", "となり座っていい？"],
+    adult: ["たまに甘えてもいいよね", "寄りかかってもいい？"],
+  },
+  欲: {
+    egg:   ["うずうず…", "やってみたい…！"],
+    child: ["ちょうせんしてみる！", "あたらしいことだいすき！"],
+    teen:  ["次はもっと上手くやるぞ", "計画立てて動こう！"],
+    adult: ["さあ次のステップへ", "目標に向かって進もう"],
+  },
+};
+
+// 既定の5つ以外（ユーザーが足したカテゴリ）の台詞
+const GENERIC_LINES: Record<Stage, string[]> = {
+  egg:   ["……？", "なにか感じる…"],
+  child: ["これなあに？", "もっと知りたい！"],
+  teen:  ["この気持ち、なんだろう", "少しずつわかってきたよ"],
+  adult: ["いろんな気持ちを知ったよ", "きみの言葉が育ててくれた"],
+};
+
+function defaultLinesOf(cat: Category): Record<Stage, string[]> {
+  return DEFAULT_LINES[cat] ?? GENERIC_LINES;
+}
+
+// 解析結果を「比較しやすいキー」にする（小数1桁で丸めてカテゴリ順に連結）
+function makeResultKey(latest: Record<Category, number> | null, cats: Category[]): string | null {
   if (!latest) return null;
-  const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
   const arr = cats.map(c => Math.round(((latest[c] ?? 0) * 10))); // 例：72.3 → 723
   return arr.join("|"); // 例："723|510|101|65|0"
 }
@@ -82,6 +129,41 @@ function savePet(v: PetSave) {
   localStorage.setItem(PET_KEY, JSON.stringify(v));
 }
 
+// カテゴリの改名・削除を育成データ（ステータス・進化先・台詞・進化枝画像）へ反映する（to が undefined なら削除）
+function remapPetCategory(from: Category, to: Category | undefined) {
+  const move = <T,>(rec: Record<Category, T>) => (to ? renameKey(rec, from, to) : dropKey(rec, from));
+  try {
+    const pet = loadPet();
+    const forms = { ...(pet.forms ?? {}) };
+    (["teen", "adult"] as const).forEach((k) => {
+      if (forms[k] !== from) return;
+      if (to) forms[k] = to;
+      else delete forms[k];
+    });
+    // 合計（Lv）はそのまま。消したカテゴリのぶんも育った記録として残す
+    savePet({ ...pet, stats: move(pet.stats), forms });
+
+    // 台詞は未保存なら既定を書き出してから付け替える（改名で既定の台詞が消えないように）
+    const rawLines = localStorage.getItem(PET_LINES_KEY);
+    const lines = rawLines ? (JSON.parse(rawLines) as PetLines) : DEFAULT_LINES;
+    localStorage.setItem(PET_LINES_KEY, JSON.stringify(move(lines)));
+
+    const rawBranch = localStorage.getItem(PET_BRANCH_IMAGES_KEY);
+    if (rawBranch) {
+      const b = JSON.parse(rawBranch) as Record<"teen" | "adult", Record<Category, string | null>>;
+      localStorage.setItem(PET_BRANCH_IMAGES_KEY, JSON.stringify({ teen: move(b.teen ?? {}), adult: move(b.adult ?? {}) }));
+    }
+  } catch { /* 壊れた保存データはそのまま */ }
+}
+
+export function renamePetCategory(from: Category, to: Category) {
+  remapPetCategory(from, to);
+}
+
+export function removePetCategory(name: Category) {
+  remapPetCategory(name, undefined);
+}
+
 // 画像ファイルを「ほどよい大きさのPNGデータURL」に変換する
 async function fileToPngDataURL(file: File, maxSide: number): Promise<string> {
   // 画像を <img> に読み込む
@@ -115,12 +197,15 @@ async function fileToPngDataURL(file: File, maxSide: number): Promise<string> {
 
 export default function TamagotchiPanel({
   latest,
+  categories,
   onClose,
 }: {
   latest: Record<Category, number> | null;
+  /** 育てるカテゴリ（レーダーと同じ並び） */
+  categories: Category[];
   onClose: () => void;
 }) {
-  const cats: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
+  const cats = categories;
   const [pet, setPet] = useState<PetSave>(() => loadPet());
   useEffect(() => savePet(pet), [pet]);
 
@@ -236,7 +321,7 @@ useEffect(() => {
 
 // 進化枝画像の編集用セレクタ（UI用）
 const [branchEditStage, setBranchEditStage] = useState<BranchStage>("teen");
-const [branchEditCat, setBranchEditCat] = useState<Category>("愛情");
+const [branchEditCat, setBranchEditCat] = useState<Category>(cats[0]);
 
 
 // バックアップ窓を開く（保存データをJSONで表示）
@@ -303,15 +388,8 @@ const applyImport = () => {
   }
 
   // --- 正規化（欠けている値を補完／数値化／合計合わせ）---
-  const cats: Category[] = ["愛情","切なさ","悲しみ","甘え","欲"];
     const normalized: PetSave = {
-    stats: {
-      愛情: Math.max(0, Math.round(Number(obj?.stats?.["愛情"] ?? 0))),
-      切なさ: Math.max(0, Math.round(Number(obj?.stats?.["切なさ"] ?? 0))),
-      悲しみ: Math.max(0, Math.round(Number(obj?.stats?.["悲しみ"] ?? 0))),
-      甘え: Math.max(0, Math.round(Number(obj?.stats?.["甘え"] ?? 0))),
-      欲: Math.max(0, Math.round(Number(obj?.stats?.["欲"] ?? 0))),
-    },
+    stats: Object.fromEntries(cats.map((c) => [c, Math.max(0, Math.round(Number(obj?.stats?.[c] ?? 0)))])),
     total: 0, // いったん0にして下で合計し直す
     // 文字列 "1.0.0" のような場合もあるので、数値にできなければ 1
     version: Number(obj?.version) || 1,
@@ -410,7 +488,6 @@ useEffect(() => {
 
 
   // ▼追加：成長段階
-  type Stage = "egg" | "child" | "teen" | "adult";
   const stage: Stage =
     level < 3 ? "egg" :
     level < 6 ? "child" :
@@ -430,7 +507,7 @@ useEffect(() => {
   };
 
   // ▼ 感情トップの算出（最新があれば最新、無ければ累積）
-  const topBy = (s: Record<Category, number>) => cats.reduce((a, b) => (s[a] >= s[b] ? a : b));
+  const topBy = (s: Record<Category, number>) => cats.reduce((a, b) => ((s[a] ?? 0) >= (s[b] ?? 0) ? a : b));
   const topCat: Category = latest ? topBy(latest) : topBy(pet.stats);
 
   // ▼ 進化枝の記録（ステージが変わった瞬間に固定化）
@@ -449,7 +526,7 @@ useEffect(() => {
   }, [stage, topCat]);
 
   // ▼ 台詞設定モーダル用の編集ステート
-  const [editCat, setEditCat] = useState<Category>("愛情"); // 初期値は固定。開く時に topCat を反映する
+  const [editCat, setEditCat] = useState<Category>(cats[0]); // 初期値は先頭。開く時に topCat を反映する
   const [editStage, setEditStage] = useState<Stage>(stage);
   const [editText, setEditText] = useState<string>("");
 
@@ -457,7 +534,7 @@ useEffect(() => {
     setEditCat(topCat);
     setEditStage(stage);
 
-    const arr = (lines[topCat]?.[stage] ?? DEFAULT_LINES[topCat][stage]) || [];
+    const arr = (lines[topCat]?.[stage] ?? defaultLinesOf(topCat)[stage]) || [];
     setEditText(arr.join("\n"));
     setShowLinesConfig(true);
   };
@@ -681,7 +758,7 @@ const gainFactor = (lv: number) => {
     if (!latest) return;
     
 // ▼ 直近解析のキーを作って、重複なら中断
-  const key = makeResultKey(latest);
+  const key = makeResultKey(latest, cats);
   if (key && feedLog.includes(key)) {
     setToastKind("info");
 setToastMsg("同じ解析結果はごはんにできないよ");
@@ -692,7 +769,7 @@ toastTimerRef.current = window.setTimeout(() => setToastMsg(null), 2500);
   }
 
   // ここから加算
-  const incStats: GrowthStats = { 愛情: 0, 切なさ: 0, 悲しみ: 0, 甘え: 0, 欲: 0 };
+  const incStats: GrowthStats = {};
   cats.forEach((c) => {
     const raw = (latest[c] ?? 0) * 0.2 * gainFactor(level);
     const inc  = raw > 0 ? Math.max(1, Math.round(raw)) : 0; // 1以上を保証
@@ -722,44 +799,11 @@ useEffect(() => {
   lastLineRef.current = null;
 }, [topCat, stage]);
 
-const DEFAULT_LINES: Record<Category, Record<Stage, string[]>> = {
-  愛情: {
-    egg:   ["ここ…あったかい…", "ぽかぽかする…"],
-    child: ["なかよししたい！", "ぎゅってしてもいい？"],
-    teen:  ["もっと一緒にいたいな", "手をつないで歩こうよ"],
-    adult: ["大好きがあふれてるよ", "きみがいると安心する"],
-  },
-  切なさ: {
-    egg:   ["ときどき…きゅってなる", "だれか…いるかな"],
-    child: ["はやくあいたいよ", "キミをさがしちゃう"],
-    teen:  ["会えない時間が長いね", "窓の外を見ちゃうんだ"],
-    adult: ["気持ちが届きますように", "また会える日を楽しみにしてる"],
-  },
-  悲しみ: {
-    egg:   ["しーん…", "少しさみしい…"],
-    child: ["ぎゅってして…", "ないちゃってもいい？"],
-    teen:  ["今日は元気ない？そばにいるね", "深呼吸しよ、一緒に"],
-    adult: ["無理しないでね、ここにいるから", "つらい時は頼ってほしいな"],
-  },
-  甘え: {
-    egg:   ["ふにゃ…", "ぴとっ…"],
-    child: ["なでてほしいな", "だっこ～！"],
-    teen:  ["ちょっと甘えてもいい？", "となり座っていい？"],
-    adult: ["たまに甘えてもいいよね", "寄りかかってもいい？"],
-  },
-  欲: {
-    egg:   ["うずうず…", "やってみたい…！"],
-    child: ["ちょうせんしてみる！", "あたらしいことだいすき！"],
-    teen:  ["次はもっと上手くやるぞ", "計画立てて動こう！"],
-    adult: ["さあ次のステップへ", "目標に向かって進もう"],
-  },
-};
-
 // ▼ ユーザー上書き台詞（localStorageから読み込み／無ければ既定を使う）
-const [lines, setLines] = useState<Record<Category, Record<Stage, string[]>>>(() => {
+const [lines, setLines] = useState<PetLines>(() => {
   try {
     const raw = localStorage.getItem(PET_LINES_KEY);
-    return raw ? (JSON.parse(raw) as Record<Category, Record<Stage, string[]>>) : DEFAULT_LINES;
+    return raw ? (JSON.parse(raw) as PetLines) : DEFAULT_LINES;
   } catch {
     return DEFAULT_LINES;
   }
@@ -774,7 +818,7 @@ useEffect(() => {
 
 // ▼ ここから追加：カテゴリ or ステージを切り替えたら、保存済みの台詞をテキスト欄へ反映
 useEffect(() => {
-  const arr = (lines[editCat]?.[editStage] ?? DEFAULT_LINES[editCat][editStage]) || [];
+  const arr = (lines[editCat]?.[editStage] ?? defaultLinesOf(editCat)[editStage]) || [];
   setEditText(arr.join("\n"));
 }, [editCat, editStage, lines]);
 
@@ -783,8 +827,8 @@ const stageKey: keyof NonNullable<PetSave['forms']> | null =
   stage === "teen" ? "teen" : stage === "adult" ? "adult" : null;
 const branchCat: Category | null = stageKey ? (pet.forms?.[stageKey] ?? null) : null; // ← 進化枝が決まっていればそれを優先
 const activeCat: Category = branchCat ?? topCat;
-const baseArrRaw = (lines[activeCat]?.[stage] ?? DEFAULT_LINES[activeCat][stage]);
-const baseArr = (baseArrRaw && baseArrRaw.length) ? baseArrRaw : DEFAULT_LINES[activeCat][stage];
+const baseArrRaw = (lines[activeCat]?.[stage] ?? defaultLinesOf(activeCat)[stage]);
+const baseArr = (baseArrRaw && baseArrRaw.length) ? baseArrRaw : defaultLinesOf(activeCat)[stage];
 const unlocked = baseArr.slice(0, Math.min(baseArr.length, unlockedCount(level)));
 const pool = unlocked.length ? unlocked : baseArr;
 
@@ -1029,8 +1073,8 @@ const levelPct = Math.round((levelInto / 100) * 100); // %表示用
                 {/* ステータス */}
                 <div className="space-y-3">
 
-                  {["愛情","切なさ","悲しみ","甘え","欲"].map((c) => {
-                    const v = Math.max(0, pet.stats[c as Category] ?? 0);
+                  {cats.map((c) => {
+                    const v = Math.max(0, pet.stats[c] ?? 0);
                     const w = Math.round((v / Math.max(100, maxVal)) * 100);
                     return (
                       <div key={c}>
@@ -1543,7 +1587,7 @@ const levelPct = Math.round((levelInto / 100) * 100); // %表示用
                           onChange={(e) => setBranchEditCat(e.target.value as Category)}
                           className="bg-black/20 border border-white/10 rounded p-2 text-sm"
                         >
-                          {(["愛情","切なさ","悲しみ","甘え","欲"] as const).map(c => (
+                          {cats.map(c => (
                             <option key={c} value={c}>{c}</option>
                           ))}
                         </select>
@@ -1619,7 +1663,7 @@ const levelPct = Math.round((levelInto / 100) * 100); // %表示用
                       onChange={(e) => setEditCat(e.target.value as Category)}
                       className="bg-black/20 border border-white/10 rounded p-2 text-sm"
                     >
-                      {(["愛情","切なさ","悲しみ","甘え","欲"] as const).map(c => (
+                      {cats.map(c => (
                         <option key={c} value={c}>{c}</option>
                       ))}
                     </select>
@@ -1661,7 +1705,7 @@ const levelPct = Math.round((levelInto / 100) * 100); // %表示用
                   </button>
                   <button
                     onClick={() => {
-                      const def = DEFAULT_LINES[editCat][editStage] || [];
+                      const def = defaultLinesOf(editCat)[editStage] || [];
                       setEditText(def.join("\n"));
                       setLines(prev => ({
                         ...prev,
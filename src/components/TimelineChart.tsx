@@ -0,0 +1,79 @@
+import React from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import type { TimelinePoint } from "../engine";
+import { CATEGORY_PALETTE, type CategoryDef } from "../categories";
+
+interface TimelineChartProps {
+  points: TimelinePoint[];
+  /** 線にするカテゴリと色（レーダーと同じ並び） */
+  categories: CategoryDef[];
+  activeIndex: number | null;
+  onSelect: (index: number) => void;
+}
+
+export default function TimelineChart({ points, categories, activeIndex, onSelect }: TimelineChartProps) {
+  const data = points.map((p) => ({
+    name: `${p.index + 1}`,
+    snip: p.text.length > 24 ? p.text.slice(0, 24) + "…" : p.text,
+    ...Object.fromEntries(categories.map((c) => [c.name, Number((p.scores[c.name] ?? 0).toFixed(1))])),
+  }));
+
+  if (points.length < 2) {
+    return <p className="text-xs text-gray-400">2文以上になると文ごとの推移を表示します。</p>;
+  }
+
+  return (
+    <div className="h-56 w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart
+          data={data}
+          onClick={(state) => {
+            const i = Number(state?.activeTooltipIndex);
+            if (Number.isInteger(i) && i >= 0 && i < points.length) onSelect(i);
+          }}
+          style={{ cursor: "pointer" }}
+        >
+          <CartesianGrid stroke="rgba(255,255,255,0.08)" />
+          <XAxis dataKey="name" tick={{ fill: "#94a3b8", fontSize: 10 }} />
+          <YAxis domain={[0, 100]} tick={{ fill: "#94a3b8", fontSize: 10 }} width={28} />
+          {categories.map((c) => (
+            <Area
+              key={c.name}
+              type="monotone"
+              dataKey={c.name}
+              stroke={CATEGORY_PALETTE[c.color].hex}
+              fill={CATEGORY_PALETTE[c.color].hex}
+              fillOpacity={0.12}
+              strokeWidth={1.5}
+              dot={{ r: 2 }}
+              activeDot={{ r: 4 }}
+            />
+          ))}
+          {activeIndex !== null && data[activeIndex] && (
+            <ReferenceLine x={data[activeIndex].name} stroke="rgba(255,255,255,0.5)" strokeDasharray="3 3" />
+          )}
+          <Tooltip
+            labelFormatter={(_label, payload) => String(payload?.[0]?.payload?.snip ?? "")}
+            contentStyle={{
+              background: "rgba(0,0,0,0.8)",
+              border: "1px solid rgba(168,85,247,0.5)",
+              borderRadius: "8px",
+              fontSize: 12,
+            }}
+          />
+          <Legend wrapperStyle={{ fontSize: 11 }} />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
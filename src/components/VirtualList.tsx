@@ -0,0 +1,114 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+// 見えている範囲の行だけ描くリスト（履歴パネル用）。
+// 行の高さはまちまちなので、描いた行を ResizeObserver で測って覚え、まだ測っていない行は見込みの高さで置く。
+
+interface VirtualListProps<T> {
+  items: T[];
+  itemKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** 測る前の行の見込みの高さ（px、行間込み） */
+  estimateHeight?: number;
+  /** 見えている範囲の上下に余分に描く行数 */
+  overscan?: number;
+  /** 行の間隔（px） */
+  gap?: number;
+  /** 変わったら先頭までスクロールを戻す（絞り込みの条件など） */
+  resetKey?: string;
+  className?: string;
+}
+
+export default function VirtualList<T>({
+  items,
+  itemKey,
+  renderItem,
+  estimateHeight = 160,
+  overscan = 4,
+  gap = 8,
+  resetKey,
+  className,
+}: VirtualListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const [measured, setMeasured] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(600);
+
+  // ▼ 行の高さを測る（変わったら位置を計算し直す）
+  const observerRef = useRef<ResizeObserver | null>(null);
+  if (!observerRef.current && typeof ResizeObserver !== "undefined") {
+    observerRef.current = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const e of entries) {
+        // 画面から外れた行は測らずに見るのをやめる（高さ 0 で上書きしない）
+        if (!e.target.isConnected) {
+          observerRef.current?.unobserve(e.target);
+          continue;
+        }
+        const key = (e.target as HTMLElement).dataset.key;
+        if (!key) continue;
+        const h = Math.ceil((e.target as HTMLElement).offsetHeight) + gap;
+        if (heightsRef.current.get(key) !== h) {
+          heightsRef.current.set(key, h);
+          changed = true;
+        }
+      }
+      if (changed) setMeasured((n) => n + 1);
+    });
+  }
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewport(el.clientHeight);
+    const ro = new ResizeObserver(() => setViewport(el.clientHeight));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [resetKey]);
+
+  // 各行の上端の位置（末尾に全体の高さ）
+  const offsets = useMemo(() => {
+    const out = [0];
+    for (const it of items) out.push(out[out.length - 1] + (heightsRef.current.get(itemKey(it)) ?? estimateHeight));
+    return out;
+    // measured は測り直しの合図（heightsRef の中身が変わった）
+  }, [items, measured, estimateHeight]);
+
+  // 上端が scrollTop より上にある最後の行から描く
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid + 1] <= scrollTop) lo = mid + 1;
+    else hi = mid;
+  }
+  const start = Math.max(0, lo - overscan);
+  let end = lo;
+  while (end < items.length && offsets[end] < scrollTop + viewport) end++;
+  end = Math.min(items.length, end + overscan);
+
+  const attach = (el: HTMLDivElement | null) => {
+    if (el) observerRef.current?.observe(el);
+  };
+
+  return (
+    <div ref={scrollRef} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)} className={className}>
+      <div style={{ position: "relative", height: offsets[items.length] }}>
+        {items.slice(start, end).map((it, i) => {
+          const key = itemKey(it);
+          return (
+            <div key={key} ref={attach} data-key={key} style={{ position: "absolute", top: offsets[start + i], left: 0, right: 0 }}>
+              {renderItem(it)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from "react";
+import {
+  applyWeightChanges,
+  evaluateCorpus,
+  parseEvalCorpus,
+  suggestWeights,
+  type AnalyzeOptions,
+  type Lexicon,
+  type WeightSuggestion,
+} from "../engine";
+import { EVAL_SAMPLE_TEXT, loadEvalCorpusText } from "./EvalView";
+import { prepareTokenizer } from "../engine/tokenizerBrowser";
+
+// 辞書エディタの「重み調整」タブ：評価用コーパスに合う重みを探して、変更案を1件ずつ選んで反映する。
+// コーパスは評価画面で読み込んだもの（無ければサンプル）を使う
+
+interface WeightTunerProps {
+  lexicon: Lexicon;
+  options: AnalyzeOptions;
+  onChange: (next: Lexicon) => void;
+}
+
+// 罰則が強いほど今の重みから動かさない
+const REGULARIZATION_PRESETS: Array<{ label: string; value: number }> = [
+  { label: "大胆（0.01）", value: 0.01 },
+  { label: "ふつう（0.1）", value: 0.1 },
+  { label: "控えめ（0.5）", value: 0.5 },
+];
+
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`;
+}
+
+export default function WeightTuner({ lexicon, options, onChange }: WeightTunerProps) {
+  const [source, setSource] = useState<"saved" | "sample">(() => (loadEvalCorpusText().trim() ? "saved" : "sample"));
+  const corpus = useMemo(
+    () => parseEvalCorpus(source === "saved" ? loadEvalCorpusText() : EVAL_SAMPLE_TEXT),
+    [source]
+  );
+  const [regularization, setRegularization] = useState(0.1);
+  const [busy, setBusy] = useState(false);
+  // 提案と、その提案を作ったときの辞書（辞書が変わったら提案は古い）
+  const [result, setResult] = useState<{ base: Lexicon; suggestion: WeightSuggestion } | null>(null);
+  const [chosen, setChosen] = useState<Set<number>>(new Set());
+  const [applied, setApplied] = useState<string | null>(null);
+
+  const suggestion = result && result.base === lexicon ? result.suggestion : null;
+
+  const run = () => {
+    setBusy(true);
+    setApplied(null);
+    // 描画を先に済ませてから重い計算をする（見出し語モードの語があれば形態素解析の辞書を先に読む）
+    setTimeout(() => {
+      prepareTokenizer(lexicon)
+        .then(() => {
+          const s = suggestWeights(corpus.examples, lexicon, options, { regularization });
+          setResult({ base: lexicon, suggestion: s });
+          setChosen(new Set(s.changes.map((_, i) => i)));
+        })
+        .catch((e: unknown) => alert(e instanceof Error ? e.message : String(e)))
+        .finally(() => setBusy(false));
+    }, 0);
+  };
+
+  // 選んだ分だけ採ったときの正解率（全部 or 何も選んでいなければ計算し直さない）
+  const subset = useMemo(() => {
+    if (!suggestion) return null;
+    if (chosen.size === 0) return suggestion.before;
+    if (chosen.size === suggestion.changes.length) return suggestion.after;
+    const picked = suggestion.changes.filter((_, i) => chosen.has(i));
+    return evaluateCorpus(corpus.examples, applyWeightChanges(lexicon, picked), options);
+    // options は毎回作り直されるので、提案と選択が変わったときだけ計算する
+  }, [suggestion, chosen]);
+
+  const toggle = (i: number) => {
+    const next = new Set(chosen);
+    if (next.has(i)) next.delete(i);
+    else next.add(i);
+    setChosen(next);
+  };
+
+  const apply = () => {
+    if (!suggestion || chosen.size === 0) return;
+    const picked = suggestion.changes.filter((_, i) => chosen.has(i));
+    onChange(applyWeightChanges(lexicon, picked));
+    setApplied(`${picked.length}件の重みを反映しました`);
+    setResult(null);
+    setChosen(new Set());
+  };
+
+  return (
+    <div className="p-5 space-y-4">
+      <p className="text-xs text-neutral-400">
+        答え付きのコーパスで、首位のカテゴリが当たりやすくなる重みを探します。辞書はすぐには変わりません。
+        変更案から採るものを選んで「反映」してください。
+      </p>
+
+      {/* 条件 */}
+      <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10 space-y-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-neutral-400">コーパス</span>
+          <select
+            value={source}
+            onChange={(e) => { setSource(e.target.value as "saved" | "sample"); setResult(null); }}
+            className="px-2 py-1 rounded-lg bg-slate-950/60 border border-white/10"
+          >
+            <option value="saved">評価画面で読み込んだもの</option>
+            <option value="sample">サンプル</option>
+          </select>
+          <span className="text-xs text-neutral-400">
+            {corpus.examples.length}件{corpus.errors.length ? `（読めなかった行 ${corpus.errors.length}件）` : ""}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-neutral-400">罰則の強さ</span>
+          <select
+            value={regularization}
+            onChange={(e) => setRegularization(Number(e.target.value))}
+            className="px-2 py-1 rounded-lg bg-slate-950/60 border border-white/10"
+          >
+            {REGULARIZATION_PRESETS.map((p) => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={run}
+            disabled={busy || corpus.examples.length === 0}
+            className="ml-auto px-4 py-1.5 rounded-lg bg-blue-950/40 hover:bg-blue-950/50 border border-white/10 disabled:opacity-40"
+          >
+            {busy ? "計算中…" : "提案を作る"}
+          </button>
+        </div>
+        <p className="text-xs text-neutral-500">
+          例が少ないと、その例にだけ合う重みになりがちです。数十件より少ないときは「控えめ」をおすすめします。
+        </p>
+      </div>
+
+      {applied && <p className="text-sm text-emerald-300">{applied}</p>}
+      {result && !suggestion && (
+        <p className="text-sm text-neutral-400">辞書が変わったので、もう一度提案を作ってください。</p>
+      )}
+
+      {suggestion && subset && (
+        <>
+          {/* 正解率 */}
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-slate-950/60 rounded-xl p-3 border border-white/10">
+              <div className="text-xs text-neutral-400">今の辞書</div>
+              <div className="text-xl font-bold">{pct(suggestion.before.accuracy)}</div>
+            </div>
+            <div className="bg-slate-950/60 rounded-xl p-3 border border-white/10">
+              <div className="text-xs text-neutral-400">選んだ変更を反映</div>
+              <div className="text-xl font-bold">{pct(subset.accuracy)}</div>
+            </div>
+            <div className="bg-slate-950/60 rounded-xl p-3 border border-white/10">
+              <div className="text-xs text-neutral-400">全部を反映</div>
+              <div className="text-xl font-bold">{pct(suggestion.after.accuracy)}</div>
+            </div>
+          </div>
+          {suggestion.skipped.length > 0 && (
+            <p className="text-xs text-neutral-500">
+              期待カテゴリが辞書に無い例 {suggestion.skipped.length}件は使っていません
+            </p>
+          )}
+
+          {/* 差分 */}
+          <div className="bg-slate-950/60 rounded-xl p-4 border border-white/10">
+            <div className="flex items-center gap-2 mb-3">
+              <h3 className="font-semibold">変更案 ({suggestion.changes.length}件)</h3>
+              <button
+                onClick={() => setChosen(new Set(suggestion.changes.map((_, i) => i)))}
+                className="ml-auto px-2 py-1 text-xs rounded-md bg-white/10 hover:bg-white/20"
+              >
+                全部選ぶ
+              </button>
+              <button onClick={() => setChosen(new Set())} className="px-2 py-1 text-xs rounded-md bg-white/10 hover:bg-white/20">
+                選択を外す
+              </button>
+            </div>
+            {suggestion.changes.length === 0 ? (
+              <p className="text-neutral-400 text-sm">今の重みのままが一番よく当たります</p>
+            ) : (
+              <div className="max-h-96 overflow-y-auto space-y-1">
+                {suggestion.changes.map((c, i) => (
+                  <label
+                    key={`${c.category}-${c.index}`}
+                    className="flex items-center gap-3 bg-slate-950/60 rounded-lg px-3 py-2 border border-white/10 text-sm cursor-pointer"
+                  >
+                    <input type="checkbox" checked={chosen.has(i)} onChange={() => toggle(i)} />
+                    <span className="text-xs text-neutral-400 w-14 shrink-0">{c.category}</span>
+                    <span className="flex-1 min-w-0 truncate">{c.term}</span>
+                    <span className="tabular-nums">
+                      {c.from} → <span className={c.to > c.from ? "text-emerald-300" : "text-rose-300"}>{c.to}</span>
+                    </span>
+                    <span className="text-xs text-neutral-500 w-16 text-right">{c.support}例</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={apply}
+              disabled={chosen.size === 0}
+              className="mt-3 w-full py-2 rounded-lg bg-blue-950/40 hover:bg-blue-950/50 border border-white/10 disabled:opacity-40"
+            >
+              選んだ {chosen.size}件を反映
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
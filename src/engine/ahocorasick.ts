@@ -0,0 +1,73 @@
+// ===== Aho-Corasick 多パターン照合 =====
+// 辞書語・活用形・絵文字・関係語をまとめて1本のオートマトンにし、本文を1回なめるだけで全出現位置を拾う。
+// 照合は UTF-16 のコード単位で行う（絵文字のサロゲートペアもパターン側と同じ並びなので問題ない）。
+
+export interface Automaton {
+  /** 登録パターン（id = 添字） */
+  patterns: string[];
+  /** 本文中の全出現（重なりも含む）をパターンごとの開始位置リストで返す */
+  searchAll(text: string): Map<number, number[]>;
+}
+
+export function buildAutomaton(patterns: string[]): Automaton {
+  // ノード 0 が根。goto[i] は 文字 → 次ノード
+  const goto: Array<Map<string, number>> = [new Map()];
+  const fail: number[] = [0];
+  const out: number[][] = [[]];
+  // 失敗リンクをたどった先で最初に出力を持つノード（出力リストのコピーを避ける）
+  const dictLink: number[] = [-1];
+
+  patterns.forEach((p, id) => {
+    if (!p) return;
+    let node = 0;
+    for (const ch of p.split("")) {
+      let next = goto[node].get(ch);
+      if (next === undefined) {
+        next = goto.length;
+        goto.push(new Map());
+        fail.push(0);
+        out.push([]);
+        dictLink.push(-1);
+        goto[node].set(ch, next);
+      }
+      node = next;
+    }
+    out[node].push(id);
+  });
+
+  // 幅優先で失敗リンクを張る
+  const queue: number[] = [];
+  for (const next of goto[0].values()) queue.push(next);
+  for (let qi = 0; qi < queue.length; qi++) {
+    const node = queue[qi];
+    for (const [ch, next] of goto[node]) {
+      let f = fail[node];
+      while (f !== 0 && !goto[f].has(ch)) f = fail[f];
+      const target = goto[f].get(ch);
+      fail[next] = target !== undefined && target !== next ? target : 0;
+      dictLink[next] = out[fail[next]].length ? fail[next] : dictLink[fail[next]];
+      queue.push(next);
+    }
+  }
+
+  const searchAll = (text: string): Map<number, number[]> => {
+    const found = new Map<number, number[]>();
+    let node = 0;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      while (node !== 0 && !goto[node].has(ch)) node = fail[node];
+      node = goto[node].get(ch) ?? 0;
+      for (let n = node; n > 0; n = dictLink[n]) {
+        for (const id of out[n]) {
+          const start = i - patterns[id].length + 1;
+          const list = found.get(id);
+          if (list) list.push(start);
+          else found.set(id, [start]);
+        }
+      }
+    }
+    return found;
+  };
+
+  return { patterns, searchAll };
+}
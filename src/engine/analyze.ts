@@ -0,0 +1,275 @@
+import {
+  DEFAULT_CATEGORIES,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type Category,
+  type CategoryScores,
+  type Lexeme,
+  type Lexicon,
+  type MatchSpan,
+  type ModifierEntry,
+  type NormalizeOptions,
+  type ScoringMode,
+} from "./types";
+import { createMatchContext, findLexemeHits } from "./matching";
+import { getCompiledLexicon } from "./compiled";
+import { DOUBLE_NEGATION_FACTOR, NEGATION_FLIP_FACTOR, scanNegation } from "./negation";
+import { resolveOverlaps } from "./overlap";
+import { isNormalizeEnabled, normalizeLexicon, normalizeModifiers, normalizeText, toOriginalSpan } from "./normalize";
+import { DEFAULT_MODIFIERS, EMOJI_BOOST, findModifier } from "./modifiers";
+import { findEmoji, findSymbols } from "./emoji";
+import { computeCoverage } from "./coverage";
+import { PROSODY_MARKER_SYMBOL, findProsody, prosodyRules } from "./prosody";
+import { categoriesOf, resolveBuiltinLexicon, resolveBuiltinModifiers } from "./categories";
+import {
+  DEFAULT_LEXICON_EN,
+  DEFAULT_MODIFIERS_EN,
+  detectLanguage,
+  findModifierWords,
+  precedingWords,
+  scanNegationEn,
+} from "./english";
+
+/**
+ * 絶対値モードの飽和曲線の目安：raw がこの値で約63%、3倍で約95%。
+ * デフォルト辞書で「好き」1語 ≈ 28%、熱のこもった手紙（raw 15前後）≈ 90% になるよう合わせてある。
+ */
+export const ABSOLUTE_SATURATION = 6;
+
+export const SCORING_MODE_LABEL: Record<ScoringMode, string> = {
+  relative: "相対",
+  absolute: "絶対",
+};
+
+/** raw を 0〜100 の絶対スケールに写す */
+export function absoluteScore(raw: number): number {
+  if (raw <= 0) return 0;
+  return 100 * (1 - Math.exp(-raw / ABSOLUTE_SATURATION));
+}
+
+export function emptyScores(categories: Category[] = DEFAULT_CATEGORIES): CategoryScores {
+  return Object.fromEntries(categories.map((c) => [c, 0]));
+}
+
+export function baseEmojiBoost(text: string, cat: Category): number {
+  const entries = EMOJI_BOOST[cat].map((term) => ({ term, factor: 1.2, category: cat }));
+  return findEmoji(text, entries).length * 1.2;
+}
+
+export function analyze(text: string, lexicon: Lexicon, options: AnalyzeOptions = {}): AnalysisResult {
+  const relationBoost = options.relationBoost ?? true;
+  const scoring = options.scoring ?? "relative";
+  const overlap = options.overlap ?? "all";
+  const t = text.trim();
+  const language = options.language && options.language !== "auto" ? options.language : detectLanguage(t);
+  // 軸は渡された辞書のカテゴリ（英語の辞書に無いカテゴリは 0 のまま）
+  const categories = categoriesOf(lexicon);
+  if (!t) {
+    return {
+      raw: emptyScores(categories),
+      normalized: emptyScores(categories),
+      details: new Map<Category, Map<string, number>>(),
+      matches: [],
+      scale: 1,
+      scoring,
+      language,
+      coverage: computeCoverage([], 0),
+    };
+  }
+  // 英語の本文には英語の辞書を使う（引数の lexicon / options.modifiers は日本語用）。
+  // 同梱の英語の辞書・修飾語は既定のカテゴリ名で書いてあるので、改名・削除を読み替えてから使う
+  const english = language === "en";
+  const builtin = options.builtinCategories ?? {};
+  const dict = english ? options.englishLexicon ?? resolveBuiltinLexicon(DEFAULT_LEXICON_EN, builtin) : lexicon;
+  const modifiers = english
+    ? options.englishModifiers ?? resolveBuiltinModifiers(DEFAULT_MODIFIERS_EN, builtin)
+    : options.modifiers ?? DEFAULT_MODIFIERS;
+  // マッチ位置を元テキストに戻すためのずれ
+  const offset = text.length - text.trimStart().length;
+
+  const exclamAmp = Math.min(0.5, (t.match(/[!！]/g) || []).length * 0.05);
+  const amp = 1 + exclamAmp;
+
+  const raw = emptyScores(categories);
+  const details = new Map<Category, Map<string, number>>();
+  const matches: MatchSpan[] = [];
+  for (const c of categories) details.set(c, new Map());
+  // 削除済みのカテゴリを指す古い参照は数えない
+  const known = (c: Category | undefined): c is Category => c !== undefined && details.has(c);
+
+  // 照合は正規化した本文・辞書どうしで行い、位置だけ元テキストに戻す
+  const normOpts: NormalizeOptions = english ? { ...options.normalize, foldCase: true } : options.normalize ?? {};
+  const norm = isNormalizeEnabled(normOpts) ? normalizeText(t, normOpts) : null;
+  const mt = norm ? norm.text : t;
+  const mlex = norm ? normalizeLexicon(dict, normOpts) : dict;
+  const mmods = norm ? normalizeModifiers(modifiers, normOpts) : modifiers;
+  const spanOf = (idx: number, length: number) => {
+    const { start, end } = norm ? toOriginalSpan(norm, idx, length) : { start: idx, end: idx + length };
+    return { start: offset + start, end: offset + end };
+  };
+  const ctx = createMatchContext(mt, getCompiledLexicon(mlex, mmods, language), language);
+
+  if (relationBoost) {
+    modifiers.bond.forEach(({ term: w, factor: points, category }, i) => {
+      const bc = category ?? categories[0];
+      if (!known(bc)) return;
+      const mw = mmods.bond[i].term;
+      let bonus = 0;
+      for (const idx of ctx.occurrences(mw)) {
+        // 英語は「you」が「young」の中に当たらないよう単語単位で
+        if (english && !(ctx.boundaries().has(idx) && ctx.boundaries().has(idx + mw.length))) continue;
+        bonus += points;
+        matches.push({
+          kind: "relation", ...spanOf(idx, mw.length), term: w,
+          weight: points, categories: [bc], factor: 1, delta: points,
+        });
+      }
+      raw[bc] += bonus;
+      if (bonus)
+        details
+          .get(bc)
+          ?.set("__RELATION_META__", (details.get(bc)?.get("__RELATION_META__") || 0) + bonus);
+    });
+  }
+  const negationTerms = mmods.negations.map((n) => n.term);
+
+  // 先に全タブのヒットを集めて、重なりの方針で間引いてから採点する
+  const candidates: Array<{ cat: Category; slot: number; lex: Lexeme; index: number; length: number; weight: number }> = [];
+  for (const cat of categories) {
+    (dict[cat] ?? []).forEach((lex, i) => {
+      for (const hit of findLexemeHits(ctx, mlex[cat][i])) {
+        candidates.push({ cat, slot: i, lex, ...hit, weight: lex.weight ?? 1 });
+      }
+    });
+  }
+
+  for (const { cat, slot, lex, index: idx, length, weight } of resolveOverlaps(candidates, overlap)) {
+    const lexCats = lex.categories?.filter(known) ?? [cat];
+    if (!lexCats.length) continue;
+    // 日本語は語の直前8文字と直後の否定、英語は語の前の数語（否定も前に来る）
+    let intensifier: ModifierEntry | undefined;
+    let diminisher: ModifierEntry | undefined;
+    let markers: string[];
+    if (english) {
+      const words = precedingWords(mt, idx);
+      intensifier = findModifierWords(mmods.intensifiers, words, lexCats);
+      diminisher = findModifierWords(mmods.diminishers, words, lexCats);
+      markers = scanNegationEn(mt, idx, negationTerms).markers;
+    } else {
+      const left = mt.slice(Math.max(0, idx - 8), idx);
+      intensifier = findModifier(mmods.intensifiers, left, lexCats);
+      diminisher = findModifier(mmods.diminishers, left, lexCats);
+      markers = scanNegation(mt, idx + length, negationTerms).markers;
+    }
+    const negated = markers.length % 2 === 1;
+    const negation = markers.length ? markers.join("…") : undefined;
+
+    let factor = 1;
+    if (intensifier) factor *= intensifier.factor;
+    if (diminisher) factor *= diminisher.factor;
+    if (markers.length && !negated) factor *= DOUBLE_NEGATION_FACTOR;
+
+    // 否定：語の振替先 → 否定語の振替先 → 否定語の倍率（通常 0 点）の順に見る
+    let flippedTo: Category | undefined;
+    let negationFactor: number | undefined;
+    if (negated) {
+      const entry = mmods.negations.find((n) => n.term === markers[markers.length - 1]);
+      const lexTarget = known(lex.negatedTo) ? lex.negatedTo : undefined;
+      flippedTo = lexTarget ?? (known(entry?.category) ? entry?.category : undefined);
+      negationFactor = lexTarget ? NEGATION_FLIP_FACTOR : entry?.factor ?? 0;
+      factor *= negationFactor;
+    }
+
+    const delta = weight * factor;
+    const cats = flippedTo ? [flippedTo] : lexCats;
+    for (const cc of cats) {
+      raw[cc] += delta;
+      const m = details.get(cc)!;
+      m.set(lex.term, (m.get(lex.term) || 0) + delta);
+    }
+    matches.push({
+      kind: "lexeme", ...spanOf(idx, length), term: lex.term,
+      entry: english ? undefined : { category: cat, index: slot },
+      weight, categories: cats,
+      intensifier: intensifier?.term, intensifierFactor: intensifier?.factor,
+      diminisher: diminisher?.term, diminisherFactor: diminisher?.factor,
+      negation, negationCount: markers.length, negationFactor, flippedTo, factor, delta,
+    });
+  }
+
+  // 絵文字・顔文字は正規化すると崩れるので、元の本文を書記素単位で見る
+  const symbols = findSymbols(t, modifiers.emoji, modifiers.kaomoji ?? [], builtin);
+  for (const kind of ["emoji", "kaomoji"] as const) {
+    for (const { index, length, entry } of symbols[kind]) {
+      const { term, factor: points, category } = entry;
+      if (!known(category)) continue;
+      raw[category] += points;
+      const m = details.get(category)!;
+      m.set(term, (m.get(term) || 0) + points);
+      matches.push({
+        kind, start: offset + index, end: offset + index + length, term,
+        weight: points, categories: [category], factor: 1, delta: points,
+      });
+    }
+  }
+
+  // 書き方の特徴（顔文字の中の「・・・」などは顔文字として数え済みなので除く。
+  // 正規化で「ぎゅ〜〜〜」が語「ぎゅー」に当たったときのように、語の一部になった記号も語として数え済みなので除く）。
+  // 減点はそのカテゴリのそれまでの合計までにとどめ、内訳には実際に効いた分を出す
+  const rules = prosodyRules(modifiers.prosody ?? []).filter((r) => known(r.category));
+  if (rules.length) {
+    const inFace = (i: number) => symbols.kaomoji.some((h) => i >= h.index && i < h.index + h.length);
+    const lexemes = matches.filter((m) => m.kind === "lexeme");
+    const inLexeme = (i: number, len: number) => lexemes.some((m) => offset + i < m.end && offset + i + len > m.start);
+    for (const hit of findProsody(t, [...new Set(rules.map((r) => r.term))])) {
+      if (inFace(hit.index) || inLexeme(hit.index, hit.length)) continue;
+      for (const { term, factor: points, category } of rules) {
+        if (term !== hit.marker) continue;
+        const delta = Math.max(points, -raw[category]);
+        if (delta === 0) continue;
+        raw[category] += delta;
+        const key = PROSODY_MARKER_SYMBOL[hit.marker];
+        const m = details.get(category)!;
+        m.set(key, (m.get(key) || 0) + delta);
+        matches.push({
+          kind: "prosody", start: offset + hit.index, end: offset + hit.index + hit.length, term: hit.text,
+          weight: points, categories: [category], factor: 1, delta,
+        });
+      }
+    }
+  }
+
+  const lengthNorm = Math.max(0.7, Math.min(1.0, 180 / Math.max(60, t.length)));
+  const scale = amp * lengthNorm;
+  for (const c of categories) raw[c] *= scale;
+
+  const normalized = emptyScores(categories);
+  if (scoring === "absolute") {
+    for (const c of categories) normalized[c] = absoluteScore(raw[c]);
+  } else {
+    const maxv = Math.max(0.0001, ...categories.map((c) => raw[c]));
+    for (const c of categories) normalized[c] = (raw[c] / maxv) * 100;
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  const coverage = computeCoverage(matches, t.length);
+  return { raw, normalized, details, matches, scale, scoring, language, coverage };
+}
+
+/** 正規化スコアが最大のカテゴリ（同率は全部）。何もヒットしなければ空 */
+export function leadersOf(normalized: CategoryScores): Category[] {
+  const cats = Object.keys(normalized);
+  const max = Math.max(...cats.map((k) => normalized[k]));
+  if (max <= 0) return [];
+  const EPS = 0.0001;
+  return cats.filter((k) => Math.abs(normalized[k] - max) <= EPS);
+}
+
+/** カテゴリに効いた語と加点（大きい順。内部用の __ で始まる項目と、差し引きで 0 以下の語は除く） */
+export function creditedTerms(result: AnalysisResult, cat: Category): Array<[string, number]> {
+  const m = result.details.get(cat);
+  if (!m) return [];
+  return Array.from(m.entries())
+    .filter(([k, v]) => !k.startsWith("__") && v > 0)
+    .sort((a, b) => b[1] - a[1]);
+}
@@ -0,0 +1,150 @@
+import { analyze } from "./analyze";
+import { analyzeTimeline, type TimelinePoint } from "./timeline";
+import { analyzeBySpeaker, parseChatLog, type SpeakerAnalysis } from "./chatlog";
+import { prepareTokenizer } from "./tokenizerBrowser";
+import type { AnalysisResult, AnalyzeOptions, Lexicon } from "./types";
+
+// ===== ワーカー越しの解析クライアント =====
+// ワーカーは作り直さずに使い続ける（中の辞書のコンパイル結果・形態素解析の辞書を捨てないため）。
+// 新しい依頼が来た時点で前の依頼は古いので、その Promise は null で解決し、走っている最中の返事は id で捨てる。
+// ワーカーには一度に1件だけ渡し、走っている間に来た依頼は最新の1件だけ待たせておく（打鍵ごとの依頼を溜めない）。
+// 1件が TASK_BUDGET_MS を超えたら、そのときだけワーカーを止めて作り直す。
+
+export type TaskKind = "analyze" | "timeline" | "speakers";
+
+export interface WorkerRequest {
+  id: number;
+  kind: TaskKind;
+  text: string;
+  lexicon: Lexicon;
+  options: AnalyzeOptions;
+}
+
+type TaskPayload = AnalysisResult | TimelinePoint[] | SpeakerAnalysis[];
+
+export type WorkerResponse =
+  | { id: number; ok: true; payload: TaskPayload }
+  | { id: number; ok: false; error: string };
+
+type TaskResult<K extends TaskKind> =
+  K extends "timeline" ? TimelinePoint[] : K extends "speakers" ? SpeakerAnalysis[] : AnalysisResult;
+
+/** 依頼の種類ごとの解析（ワーカーの中と、ワーカーが使えないときのその場解析で共通）。speakers は会話ログとして読めなければ空 */
+export function runTask<K extends TaskKind>(kind: K, text: string, lexicon: Lexicon, options: AnalyzeOptions): TaskResult<K> {
+  if (kind === "timeline") return analyzeTimeline(text, lexicon, options) as TaskResult<K>;
+  if (kind === "speakers") {
+    const log = parseChatLog(text);
+    return (log ? analyzeBySpeaker(log, lexicon, options) : []) as TaskResult<K>;
+  }
+  return analyze(text, lexicon, options) as TaskResult<K>;
+}
+
+/** 1件の解析にかけてよい時間（超えたらワーカーを作り直す） */
+export const TASK_BUDGET_MS = 30_000;
+
+export interface AnalyzerClient {
+  run<K extends TaskKind>(kind: K, text: string, lexicon: Lexicon, options: AnalyzeOptions): Promise<TaskResult<K> | null>;
+  /** 待っている依頼を取り下げる（走っている最中の解析は終わるまで続け、返事は捨てる） */
+  cancel(): void;
+  dispose(): void;
+}
+
+export function createAnalyzerClient(): AnalyzerClient {
+  let worker: Worker | null = null;
+  let seq = 0;
+  // 結果を待っている依頼（最新の1件だけ）
+  let pending: { id: number; resolve: (v: TaskPayload | null) => void; reject: (e: Error) => void } | null = null;
+  // ワーカーで走っている依頼の id と、時間切れのタイマー
+  let running: { id: number; timer: ReturnType<typeof setTimeout> } | null = null;
+  // 走っている依頼が終わったら渡す依頼
+  let queued: WorkerRequest | null = null;
+
+  const fail = (error: Error) => {
+    pending?.reject(error);
+    pending = null;
+  };
+
+  // ワーカーを捨てる（走っている依頼も止まる）
+  const drop = () => {
+    if (running) clearTimeout(running.timer);
+    running = null;
+    worker?.terminate();
+    worker = null;
+  };
+
+  const next = () => {
+    const req = queued;
+    queued = null;
+    if (req) send(req);
+  };
+
+  const spawn = (): Worker => {
+    const w = new Worker(new URL("./worker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const res = e.data;
+      if (!running || running.id !== res.id) return;
+      clearTimeout(running.timer);
+      running = null;
+      if (pending && pending.id === res.id) {
+        // 古い返事は捨てる（pending は後の依頼に替わっている）
+        const p = pending;
+        pending = null;
+        if (res.ok) p.resolve(res.payload);
+        else p.reject(new Error(res.error));
+      }
+      next();
+    };
+    // ワーカーのスクリプトが読めない・runTask の外で投げた（辞書の取得に失敗など）ときは返事が来ないので、ここで失敗にする
+    w.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      queued = null;
+      drop();
+      fail(new Error(e.message || "解析ワーカーを起動できませんでした"));
+    };
+    w.onmessageerror = () => {
+      queued = null;
+      drop();
+      fail(new Error("解析ワーカーの返事を読めませんでした"));
+    };
+    return w;
+  };
+
+  const send = (req: WorkerRequest) => {
+    worker ??= spawn();
+    const timer = setTimeout(() => {
+      drop();
+      if (pending && pending.id === req.id) fail(new Error("解析が時間内に終わりませんでした"));
+      next();
+    }, TASK_BUDGET_MS);
+    running = { id: req.id, timer };
+    worker.postMessage(req);
+  };
+
+  const cancel = () => {
+    pending?.resolve(null);
+    pending = null;
+    queued = null;
+  };
+
+  return {
+    run<K extends TaskKind>(kind: K, text: string, lexicon: Lexicon, options: AnalyzeOptions): Promise<TaskResult<K> | null> {
+      cancel();
+      // ワーカーが使えない環境ではその場で解析する
+      if (typeof Worker === "undefined") {
+        return prepareTokenizer(lexicon).then(() => runTask(kind, text, lexicon, options));
+      }
+      const id = ++seq;
+      return new Promise<TaskResult<K> | null>((resolve, reject) => {
+        pending = { id, resolve: (v) => resolve(v as TaskResult<K> | null), reject };
+        const req: WorkerRequest = { id, kind, text, lexicon, options };
+        if (running) queued = req;
+        else send(req);
+      });
+    },
+    cancel,
+    dispose() {
+      cancel();
+      drop();
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { DEFAULT_CATEGORIES, type BuiltinCategoryMap, type Category, type Lexeme, type Lexicon, type ModifierKind, type Modifiers } from "./types";
+
+// ===== カテゴリ（レーダーの軸）の登録・改名・削除 =====
+// どの軸があるかは辞書（Lexicon）のキーで決まり、その並びがレーダー・CSV・履歴の並びになる。
+// 改名・削除は辞書の中の参照（複数カテゴリ・否定の振替先）と修飾語の加点先もまとめて書き換える。
+
+/** レーダーとして形になる最少の軸数 */
+export const MIN_CATEGORIES = 3;
+/** 多すぎると軸の名前が重なって読めない */
+export const MAX_CATEGORIES = 8;
+export const CATEGORY_NAME_MAX = 8;
+
+/** 辞書に並んでいるカテゴリ（キーの順） */
+export function categoriesOf(lexicon: Lexicon): Category[] {
+  return Object.keys(lexicon);
+}
+
+/** 名前として使えなければ理由を返す（from は改名元。自分自身との重複は許す） */
+export function validateCategoryName(name: string, existing: Category[], from?: Category): string | null {
+  const n = name.trim();
+  if (!n) return "名前を入力してください";
+  if (n.length > CATEGORY_NAME_MAX) return `名前は${CATEGORY_NAME_MAX}文字までです`;
+  if (n.startsWith("__")) return "「__」で始まる名前は使えません";
+  if (n !== from && existing.includes(n)) return "同じ名前のカテゴリがあります";
+  return null;
+}
+
+export function addCategory(lexicon: Lexicon, name: Category): Lexicon {
+  return { ...lexicon, [name]: [] };
+}
+
+// 語の中の参照を付け替える（f が null を返したカテゴリは外す）
+function mapLexeme(lex: Lexeme, f: (c: Category) => Category | null): Lexeme {
+  const next: Lexeme = { ...lex };
+  if (lex.categories) {
+    const cats = lex.categories.flatMap((c) => f(c) ?? []);
+    if (cats.length) next.categories = [...new Set(cats)];
+    else delete next.categories;
+  }
+  if (lex.negatedTo !== undefined) {
+    const to = f(lex.negatedTo);
+    if (to) next.negatedTo = to;
+    else delete next.negatedTo;
+  }
+  return next;
+}
+
+// to が undefined なら外す
+function remapLexeme(lex: Lexeme, from: Category, to: Category | undefined): Lexeme {
+  return mapLexeme(lex, (c) => (c === from ? to ?? null : c));
+}
+
+/** 並び順を保ったまま改名する */
+export function renameCategory(lexicon: Lexicon, from: Category, to: Category): Lexicon {
+  const out: Lexicon = {};
+  for (const [c, list] of Object.entries(lexicon)) {
+    out[c === from ? to : c] = list.map((lex) => remapLexeme(lex, from, to));
+  }
+  return out;
+}
+
+/** カテゴリとその語を消す（ほかの語からの参照も外す） */
+export function removeCategory(lexicon: Lexicon, name: Category): Lexicon {
+  const out: Lexicon = {};
+  for (const [c, list] of Object.entries(lexicon)) {
+    if (c !== name) out[c] = list.map((lex) => remapLexeme(lex, name, undefined));
+  }
+  return out;
+}
+
+/** 修飾語の加点先・対象カテゴリを付け替える（to が undefined ならそのカテゴリ宛ての項目を消す） */
+export function remapModifiers(modifiers: Modifiers, from: Category, to: Category | undefined): Modifiers {
+  const out = { ...modifiers };
+  for (const kind of Object.keys(modifiers) as ModifierKind[]) {
+    out[kind] = modifiers[kind].flatMap((m) =>
+      m.category !== from ? [m] : to ? [{ ...m, category: to }] : []);
+  }
+  return out;
+}
+
+/** カテゴリ名をキーにした記録（コメント・育成値など）のキーを付け替える（並び順は保つ） */
+export function renameKey<T>(rec: Record<Category, T>, from: Category, to: Category): Record<Category, T> {
+  return Object.fromEntries(Object.entries(rec).map(([k, v]) => [k === from ? to : k, v]));
+}
+
+/** カテゴリ名をキーにした記録からそのカテゴリを外す */
+export function dropKey<T>(rec: Record<Category, T>, name: Category): Record<Category, T> {
+  return Object.fromEntries(Object.entries(rec).filter(([k]) => k !== name));
+}
+
+// ----- 同梱の表のカテゴリ名 -----
+// 英語の辞書・修飾語と顔文字の推定は既定の5カテゴリの名前で書いてある。
+// 改名・削除のたびに読み替え表（既定の名前 → 今の名前）を書き換えておき、解析のとき（AnalyzeOptions.builtinCategories）に読み替える。
+
+/** 改名・削除を読み替え表に反映する（to が undefined なら削除） */
+export function remapBuiltinCategories(map: BuiltinCategoryMap, from: Category, to: Category | undefined): BuiltinCategoryMap {
+  const out = { ...map };
+  for (const c of DEFAULT_CATEGORIES) {
+    if (resolveBuiltinCategory(map, c) === from) out[c] = to ?? null;
+  }
+  return out;
+}
+
+/** 既定の名前を今の名前にする（削除済みは null） */
+export function resolveBuiltinCategory(map: BuiltinCategoryMap | undefined, c: Category): Category | null {
+  return map && c in map ? map[c] : c;
+}
+
+/** 同梱の辞書を今のカテゴリ名に読み替える（削除済みのカテゴリの語は外す） */
+export function resolveBuiltinLexicon(lexicon: Lexicon, map: BuiltinCategoryMap): Lexicon {
+  const f = (c: Category) => resolveBuiltinCategory(map, c);
+  const out: Lexicon = {};
+  for (const [c, list] of Object.entries(lexicon)) {
+    const to = f(c);
+    if (to) out[to] = list.map((lex) => mapLexeme(lex, f));
+  }
+  return out;
+}
+
+/** 同梱の修飾語の加点先を今のカテゴリ名に読み替える */
+export function resolveBuiltinModifiers(modifiers: Modifiers, map: BuiltinCategoryMap): Modifiers {
+  const out = { ...modifiers };
+  for (const kind of Object.keys(modifiers) as ModifierKind[]) {
+    out[kind] = modifiers[kind].flatMap((m) => {
+      if (m.category === undefined) return [m];
+      const to = resolveBuiltinCategory(map, m.category);
+      return to ? [{ ...m, category: to }] : [];
+    });
+  }
+  return out;
+}
+
+export function isBuiltinCategoryMap(v: unknown): v is BuiltinCategoryMap {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return false;
+  return Object.values(v as Record<string, unknown>).every((x) => x === null || typeof x === "string");
+}
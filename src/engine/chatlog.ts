@@ -0,0 +1,124 @@
+import { analyze } from "./analyze";
+import type { AnalysisResult, AnalyzeOptions, Lexicon } from "./types";
+
+// ===== 会話ログの読み込み =====
+// LINE の「トーク履歴を送信」で書き出したテキスト（日付見出し + 「HH:MM<TAB>名前<TAB>本文」）と、
+// 「名前: 本文」形式のプレーンなログを読む。どちらでもない行は直前の発言の続き（改行入りの発言）とみなす。
+
+export type ChatFormat = "line" | "plain";
+
+export interface ChatMessage {
+  speaker: string;
+  text: string;
+  /** 直前の日付見出し（LINE のみ） */
+  date?: string;
+  /** 発言時刻（LINE のみ） */
+  time?: string;
+}
+
+export interface ChatLog {
+  format: ChatFormat;
+  messages: ChatMessage[];
+  /** 初登場順 */
+  speakers: string[];
+}
+
+export interface SpeakerAnalysis {
+  speaker: string;
+  /** 発言数 */
+  messages: number;
+  /** 発言をつないだ本文 */
+  text: string;
+  result: AnalysisResult;
+}
+
+const LINE_MESSAGE = /^(?:(午前|午後)\s*)?(\d{1,2}:\d{2})\t([^\t]+)\t(.*)$/;
+const LINE_DATE = /^(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})(?:\s*[(（][^)）]+[)）]|\s+\S+曜日)?\s*$/;
+// 書き出しの先頭（「[LINE] ○○とのトーク履歴」「保存日時：…」）や、時刻だけの通知行
+const LINE_HEADER = /^(?:\[LINE\]|保存日時|Saved on)|^(?:(?:午前|午後)\s*)?\d{1,2}:\d{2}\t[^\t]*$/;
+// 本文として数えない発言（写真・スタンプなど）
+const PLACEHOLDER = /^\[(?:写真|スタンプ|動画|ファイル|ボイスメッセージ|Photo|Sticker|Video|File)\]$/;
+// 「名前: 本文」（名前は20文字まで。URL の「https:」は名前とみなさない）
+const PLAIN_MESSAGE = /^([^\s:：/][^:：/]{0,19})[:：]\s*(.+)$/;
+
+function stripQuotes(s: string): string {
+  return s.length >= 2 && s.startsWith('"') && s.endsWith('"') ? s.slice(1, -1) : s;
+}
+
+function parseLine(lines: string[]): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  let date: string | undefined;
+  let open = false; // 「"」で始まった複数行の発言の途中
+  for (const line of lines) {
+    const m = line.match(LINE_MESSAGE);
+    if (m) {
+      const [, ampm, time, speaker, body] = m;
+      out.push({ speaker: speaker.trim(), text: body, date, time: ampm ? `${ampm}${time}` : time });
+      open = body.startsWith('"') && !(body.length > 1 && body.endsWith('"'));
+      continue;
+    }
+    const d = line.match(LINE_DATE);
+    if (d && !open) {
+      date = `${d[1]}/${d[2].padStart(2, "0")}/${d[3].padStart(2, "0")}`;
+      continue;
+    }
+    if (LINE_HEADER.test(line) && !open) continue;
+    const last = out[out.length - 1];
+    if (last && (open || line.trim())) {
+      last.text += "\n" + line;
+      if (open && line.endsWith('"')) open = false;
+    }
+  }
+  return out.map((m) => ({ ...m, text: stripQuotes(m.text).trim() }));
+}
+
+function parsePlain(lines: string[]): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  for (const line of lines) {
+    const m = line.match(PLAIN_MESSAGE);
+    if (m) {
+      out.push({ speaker: m[1].trim(), text: m[2] });
+    } else if (out.length && line.trim()) {
+      out[out.length - 1].text += "\n" + line;
+    }
+  }
+  return out;
+}
+
+/** 会話ログとして読めれば発言の一覧を返す（読めなければ null） */
+export function parseChatLog(text: string): ChatLog | null {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const nonEmpty = lines.filter((l) => l.trim()).length;
+  let format: ChatFormat;
+  let messages: ChatMessage[];
+  if (lines.filter((l) => LINE_MESSAGE.test(l)).length >= 2) {
+    format = "line";
+    messages = parseLine(lines);
+  } else {
+    // 地の文に「：」が混ざっただけの文章を会話扱いしないよう、半分以上の行が「名前: 本文」であること
+    const plain = lines.filter((l) => PLAIN_MESSAGE.test(l)).length;
+    if (plain < 2 || plain * 2 < nonEmpty) return null;
+    format = "plain";
+    messages = parsePlain(lines);
+  }
+  messages = messages.filter((m) => m.text && !PLACEHOLDER.test(m.text));
+  if (!messages.length) return null;
+  const speakers = [...new Set(messages.map((m) => m.speaker))];
+  return { format, messages, speakers };
+}
+
+/** 話者ごとに発言をつないで解析する（発言の多い順） */
+export function analyzeBySpeaker(log: ChatLog, lexicon: Lexicon, options: AnalyzeOptions = {}): SpeakerAnalysis[] {
+  return log.speakers
+    .map((speaker) => {
+      const own = log.messages.filter((m) => m.speaker === speaker);
+      const text = own.map((m) => m.text).join("\n");
+      return { speaker, messages: own.length, text, result: analyze(text, lexicon, options) };
+    })
+    .sort((a, b) => b.messages - a.messages);
+}
+
+/** 発言本文だけをつないだもの（時刻・名前を除いた会話全体の解析用） */
+export function chatBody(log: ChatLog): string {
+  return log.messages.map((m) => m.text).join("\n");
+}
@@ -0,0 +1,64 @@
+import type { AnalysisResult, Category } from "./types";
+
+// ===== 2つの解析結果の比較 =====
+// 下書きと書き直しのように、2つの文章のカテゴリごとの差と、片方にしか出てこない辞書語を出す。
+
+export interface CategoryDelta {
+  category: Category;
+  a: number;
+  b: number;
+  /** b − a */
+  delta: number;
+}
+
+export interface TermUse {
+  term: string;
+  /** 加点先（否定で振り替えた先も含む） */
+  categories: Category[];
+  /** 出てきた回数 */
+  count: number;
+}
+
+export interface Comparison {
+  deltas: CategoryDelta[];
+  /** A にだけ出てくる辞書語（回数の多い順） */
+  onlyA: TermUse[];
+  onlyB: TermUse[];
+  /** 両方に出てくる辞書語 */
+  shared: string[];
+}
+
+/** 辞書語ごとの出現（絵文字・関係語は含めない） */
+export function termUses(result: AnalysisResult): Map<string, TermUse> {
+  const out = new Map<string, TermUse>();
+  for (const m of result.matches) {
+    if (m.kind !== "lexeme") continue;
+    const use = out.get(m.term) ?? { term: m.term, categories: [], count: 0 };
+    use.count++;
+    for (const c of m.flippedTo ? [m.flippedTo] : m.categories) {
+      if (!use.categories.includes(c)) use.categories.push(c);
+    }
+    out.set(m.term, use);
+  }
+  return out;
+}
+
+export function compareResults(a: AnalysisResult, b: AnalysisResult): Comparison {
+  // 軸は両方の和（途中でカテゴリを足した履歴と比べても落ちないように）
+  const cats = [...new Set([...Object.keys(a.normalized), ...Object.keys(b.normalized)])];
+  const deltas = cats.map((category) => {
+    const va = a.normalized[category] ?? 0;
+    const vb = b.normalized[category] ?? 0;
+    return { category, a: va, b: vb, delta: vb - va };
+  });
+  const ua = termUses(a);
+  const ub = termUses(b);
+  const only = (x: Map<string, TermUse>, y: Map<string, TermUse>) =>
+    [...x.values()].filter((u) => !y.has(u.term)).sort((p, q) => q.count - p.count);
+  return {
+    deltas,
+    onlyA: only(ua, ub),
+    onlyB: only(ub, ua),
+    shared: [...ua.keys()].filter((t) => ub.has(t)),
+  };
+}
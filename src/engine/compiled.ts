@@ -0,0 +1,70 @@
+import { buildAutomaton, type Automaton } from "./ahocorasick";
+import { hashBase36, hashLexicon } from "./lexicon";
+import { englishForms } from "./english";
+import type { Language, Lexicon, Modifiers } from "./types";
+
+// ===== 辞書のコンパイル（オートマトン・正規表現を辞書ごとに1回だけ作る） =====
+export interface CompiledLexicon {
+  /** hashLexicon(辞書) + 修飾語のハッシュ */
+  key: string;
+  automaton: Automaton;
+  /** パターン文字列 → オートマトン上の id */
+  ids: Map<string, number>;
+  /** 正規表現モードの語 → コンパイル済み（書式エラーは null） */
+  regexes: Map<string, RegExp | null>;
+}
+
+export function compiledKey(lexicon: Lexicon, modifiers: Modifiers, language: Language = "ja"): string {
+  return `${hashLexicon(lexicon)}:${hashBase36(JSON.stringify(modifiers))}:${language}`;
+}
+
+export function compileLexicon(lexicon: Lexicon, modifiers: Modifiers, language: Language = "ja"): CompiledLexicon {
+  const patterns = new Set<string>();
+  const regexes = new Map<string, RegExp | null>();
+  for (const list of Object.values(lexicon)) {
+    for (const lex of list) {
+      if (!lex.term) continue;
+      if (lex.match === "regex") {
+        if (regexes.has(lex.term)) continue;
+        try {
+          regexes.set(lex.term, new RegExp(lex.term, "gu"));
+        } catch {
+          regexes.set(lex.term, null);
+        }
+      } else if (lex.match === "lemma") {
+        // 日本語の見出し語は形態素解析で探すのでオートマトンには入れない
+        if (language === "en") englishForms(lex.term).forEach((f) => patterns.add(f));
+      } else {
+        patterns.add(lex.term);
+      }
+    }
+  }
+  for (const m of modifiers.bond) if (m.term) patterns.add(m.term);
+
+  const list = [...patterns];
+  return {
+    key: compiledKey(lexicon, modifiers, language),
+    automaton: buildAutomaton(list),
+    ids: new Map(list.map((p, i) => [p, i])),
+    regexes,
+  };
+}
+
+// 直近に使った辞書だけ持っておく（辞書の切り替え・タイムラインの文ごと解析で使い回す）
+const CACHE_MAX = 8;
+const cache = new Map<string, CompiledLexicon>();
+let last: { lexicon: Lexicon; modifiers: Modifiers; language: Language; compiled: CompiledLexicon } | null = null;
+
+export function getCompiledLexicon(lexicon: Lexicon, modifiers: Modifiers, language: Language = "ja"): CompiledLexicon {
+  // 同じオブジェクトならハッシュ計算も省く
+  if (last && last.lexicon === lexicon && last.modifiers === modifiers && last.language === language) return last.compiled;
+  const key = compiledKey(lexicon, modifiers, language);
+  let compiled = cache.get(key);
+  if (!compiled) {
+    compiled = compileLexicon(lexicon, modifiers, language);
+    cache.set(key, compiled);
+    if (cache.size > CACHE_MAX) cache.delete(cache.keys().next().value as string);
+  }
+  last = { lexicon, modifiers, language, compiled };
+  return compiled;
+}
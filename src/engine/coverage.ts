@@ -0,0 +1,54 @@
+import type { ConfidenceLevel, Coverage, MatchSpan } from "./types";
+
+// ===== 根拠の量（カバレッジ）と信頼度 =====
+// 1語だけ当たった文章も50語当たった文章も、相対スコアでは同じように尖ったレーダーになる。
+// どれだけの根拠から出した結果かを数えて、少なすぎるときは画面で注意を出す。
+
+export const CONFIDENCE_LABEL: Record<ConfidenceLevel, string> = {
+  none: "根拠なし",
+  low: "根拠少なめ",
+  medium: "根拠ふつう",
+  high: "根拠じゅうぶん",
+};
+
+/** これ未満のマッチ数・語の種類・文字の割合だと「少なめ」 */
+export const LOW_CONFIDENCE = { matches: 3, distinct: 2, charShare: 0.01 } as const;
+/** これ以上で「じゅうぶん」 */
+export const HIGH_CONFIDENCE = { matches: 8, distinct: 4 } as const;
+
+export function confidenceOf(c: Pick<Coverage, "matchCount" | "distinctTerms" | "charShare">): ConfidenceLevel {
+  if (c.matchCount === 0) return "none";
+  if (c.matchCount < LOW_CONFIDENCE.matches || c.distinctTerms < LOW_CONFIDENCE.distinct || c.charShare < LOW_CONFIDENCE.charShare) {
+    return "low";
+  }
+  if (c.matchCount >= HIGH_CONFIDENCE.matches && c.distinctTerms >= HIGH_CONFIDENCE.distinct) return "high";
+  return "medium";
+}
+
+export function isLowConfidence(level: ConfidenceLevel | undefined): boolean {
+  return level === "none" || level === "low";
+}
+
+/**
+ * マッチ一覧から根拠の量を数える。関係語（呼称のブースト）と書き方の特徴は感情の根拠ではないので除く。
+ * 否定されて 0 点になった語（delta が 0）も点に効いていないので数えない。
+ * textLength は前後の空白を除いた本文の長さ
+ */
+export function computeCoverage(matches: MatchSpan[], textLength: number): Coverage {
+  const evidence = matches.filter((m) => m.kind !== "relation" && m.kind !== "prosody" && m.delta !== 0);
+  const terms = new Set(evidence.map((m) => `${m.kind}:${m.term}`));
+  // 重なったマッチの文字は1回だけ数える（開始位置順に並べて区間をつなぐ）
+  let covered = 0;
+  let reach = -1;
+  for (const m of evidence.slice().sort((a, b) => a.start - b.start)) {
+    const from = Math.max(m.start, reach);
+    if (m.end > from) covered += m.end - from;
+    reach = Math.max(reach, m.end);
+  }
+  const coverage = {
+    matchCount: evidence.length,
+    distinctTerms: terms.size,
+    charShare: textLength > 0 ? Math.min(1, covered / textLength) : 0,
+  };
+  return { ...coverage, confidence: confidenceOf(coverage) };
+}
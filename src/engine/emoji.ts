@@ -0,0 +1,136 @@
+import { resolveBuiltinCategory } from "./categories";
+import type { BuiltinCategoryMap, Category, ModifierEntry } from "./types";
+
+// ===== 絵文字・顔文字の認識 =====
+// 絵文字は書記素（見た目の1文字）単位で数える。
+// ❤️ と ❤（異体字セレクタの有無）や 👍🏽 と 👍（肌色）は同じ絵文字として扱い、
+// ❤️‍🔥 のような ZWJ 連結はそれ全体で1つの絵文字（❤ としては数えない）。
+// 顔文字は辞書との照合に加えて、辞書に無い「（…）」の顔も目・口の形からカテゴリを推定する。
+
+export interface SymbolHit {
+  index: number;
+  length: number;
+  /** 本文に出てきたままの形 */
+  text: string;
+  /** 当たった辞書の項目（推定の顔文字は term=本文の形） */
+  entry: ModifierEntry & { category: Category };
+  /** 辞書に無い顔文字を形から推定したもの */
+  guessed?: boolean;
+}
+
+// ----- 絵文字 -----
+
+const PICTO = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u;
+const VARIATION_AND_TONE = /[\uFE0E\uFE0F\u{1F3FB}-\u{1F3FF}]/gu;
+
+// 絵文字1文字ぶんの書記素（UTS #51 の絵文字シーケンス）：国旗・キーキャップ・
+// 異体字セレクタ／肌色付きの絵文字を ZWJ でつないだもの・タグ列（地域旗）
+// ※ Intl.Segmenter は長文だと区切りごとに本文を複製してメモリを食うので使わない
+const EMOJI_SEQUENCE =
+  /\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}[\uFE0E\uFE0F]?[\u{1F3FB}-\u{1F3FF}]?(?:\u200D\p{Extended_Pictographic}[\uFE0E\uFE0F]?[\u{1F3FB}-\u{1F3FF}]?)*[\u{E0020}-\u{E007F}]*/gu;
+
+/** 異体字セレクタ・肌色を落とした比較用の形 */
+export function emojiKey(s: string): string {
+  return s.replace(VARIATION_AND_TONE, "");
+}
+
+/** 本文中の絵文字を書記素ごとに辞書と照合する（同じ絵文字が複数カテゴリにあればそれぞれ数える） */
+export function findEmoji(text: string, entries: ModifierEntry[]): SymbolHit[] {
+  if (!PICTO.test(text)) return [];
+  const byKey = new Map<string, Array<ModifierEntry & { category: Category }>>();
+  for (const e of entries) {
+    if (!e.category || !e.term) continue;
+    const k = emojiKey(e.term);
+    byKey.set(k, [...(byKey.get(k) ?? []), e as ModifierEntry & { category: Category }]);
+  }
+  const hits: SymbolHit[] = [];
+  for (const m of text.matchAll(EMOJI_SEQUENCE)) {
+    const seq = m[0];
+    for (const entry of byKey.get(emojiKey(seq)) ?? []) {
+      hits.push({ index: m.index ?? 0, length: seq.length, text: seq, entry });
+    }
+  }
+  return hits;
+}
+
+// ----- 顔文字 -----
+
+// 照合用の1文字ずつの置き換え（文字数を変えないので位置はそのまま使える）
+const KAOMOJI_FOLD: Record<string, string> = { "･": "・", "￣": "~", "　": " " };
+
+function foldKaomoji(s: string): string {
+  let out = "";
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    const code = s.charCodeAt(i);
+    // 全角英数・記号 → 半角（（）；＿ など）
+    if (code >= 0xff01 && code <= 0xff5e) out += String.fromCharCode(code - 0xfee0);
+    else out += KAOMOJI_FOLD[ch] ?? ch;
+  }
+  return out;
+}
+
+// 辞書に無い顔の候補：かっこ1組（腕・効果の記号は前後に付いていてもよい）
+const FACE = /[ヾ٩＼\\ლʕ⊂]?\([^()\n]{1,16}\)[ﾉノ۶ﾞっ♡♥☆/]*/gu;
+// 顔に使われる目・口の字。これが1つも無いかっこ書き（「(笑)」「(2025)」など）は顔とみなさない
+const FACE_PARTS = /[´`・•ω∀▽°ﾟ^;_εдДзᴗ˘◕≧≦╥ಥ⊃∇︿｡]|T_?T/u;
+const NOT_FACE = /[\p{Script=Han}\p{Script=Hiragana}]|[A-Za-z]{3,}|\d{2,}/u;
+
+/** 形からの推定：上から順に、最初に当てはまったもの（既定のカテゴリ名。改名・削除は builtin で読み替える） */
+const KAOMOJI_FEATURES: Array<{ parts: RegExp; category: Category }> = [
+  { parts: /[;╥ಥ]|T_T|TT/u, category: "悲しみ" },
+  { parts: /[♡♥❤εз]/u, category: "愛情" },
+  { parts: /[дД]/u, category: "欲" },
+  { parts: /´[-_・]{1,2}`|︿/u, category: "切なさ" },
+  { parts: /[ω∀▽ᴗ]/u, category: "甘え" },
+];
+
+/** 辞書に無い顔文字の1回あたりの加点 */
+export const KAOMOJI_GUESS_POINTS = 0.8;
+
+/** 顔文字の辞書照合（長い顔を優先、重ならない）と、辞書に無い顔の推定 */
+export function findKaomoji(text: string, entries: ModifierEntry[], builtin?: BuiltinCategoryMap): SymbolHit[] {
+  const folded = foldKaomoji(text);
+  const taken = new Uint8Array(text.length);
+  const hits: SymbolHit[] = [];
+  const sorted = entries
+    .filter((e): e is ModifierEntry & { category: Category } => !!e.category && !!e.term)
+    .sort((a, b) => b.term.length - a.term.length);
+  for (const entry of sorted) {
+    const key = foldKaomoji(entry.term);
+    for (let p = folded.indexOf(key); p >= 0; p = folded.indexOf(key, p + key.length)) {
+      if (taken.subarray(p, p + key.length).some((x) => x)) continue;
+      taken.fill(1, p, p + key.length);
+      hits.push({ index: p, length: key.length, text: text.slice(p, p + key.length), entry });
+    }
+  }
+
+  for (const m of folded.matchAll(FACE)) {
+    const p = m.index ?? 0;
+    const face = m[0];
+    if (taken.subarray(p, p + face.length).some((x) => x)) continue;
+    if (!FACE_PARTS.test(face) || NOT_FACE.test(face)) continue;
+    const feature = KAOMOJI_FEATURES.find((f) => f.parts.test(face));
+    const category = feature && resolveBuiltinCategory(builtin, feature.category);
+    if (!category) continue;
+    const original = text.slice(p, p + face.length);
+    hits.push({
+      index: p, length: face.length, text: original, guessed: true,
+      entry: { term: original, factor: KAOMOJI_GUESS_POINTS, category },
+    });
+  }
+  return hits.sort((a, b) => a.index - b.index);
+}
+
+/** 顔文字と絵文字をまとめて探す（顔文字の中の ♥ などは絵文字としては数えない） */
+export function findSymbols(
+  text: string,
+  emoji: ModifierEntry[],
+  kaomoji: ModifierEntry[],
+  builtin?: BuiltinCategoryMap
+): { emoji: SymbolHit[]; kaomoji: SymbolHit[] } {
+  const faces = findKaomoji(text, kaomoji, builtin);
+  const inFace = new Uint8Array(text.length);
+  for (const f of faces) inFace.fill(1, f.index, f.index + f.length);
+  return { emoji: findEmoji(text, emoji).filter((h) => !inFace[h.index]), kaomoji: faces };
+}
@@ -0,0 +1,203 @@
+import { DEFAULT_MODIFIERS } from "./modifiers";
+import type { NegationScope } from "./negation";
+import type { Category, Language, Lexicon, ModifierEntry, Modifiers } from "./types";
+
+// ===== 英語モード =====
+// 英語は語を空白・記号で区切れるので、日本語の部分一致ではなく単語単位で照合する。
+// 否定（not / never / n't）と強弱の語は、語の「前」にある同じ節の数語を見る。
+// 照合は大文字・小文字をそろえた本文で行う（正規化の foldCase を必ずかける）。
+
+export const LANGUAGE_LABEL: Record<Language, string> = {
+  ja: "日本語",
+  en: "English",
+};
+
+/** 推定に使う先頭の文字数（長文でも打鍵ごとに全文を数えない） */
+const DETECT_SAMPLE = 5000;
+
+/** 本文の文字種から言語を推定する（仮名・漢字が英字の1/3未満なら英語） */
+export function detectLanguage(text: string): Language {
+  const sample = text.slice(0, DETECT_SAMPLE);
+  const ja = (sample.match(/[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/gu) || []).length;
+  const latin = (sample.match(/[A-Za-zＡ-Ｚａ-ｚ]/g) || []).length;
+  return latin >= 3 && ja * 3 < latin ? "en" : "ja";
+}
+
+export const EN_INTENSIFIERS = ["very", "so", "really", "totally", "extremely", "super", "truly", "absolutely", "so much"];
+export const EN_DIMINISHERS = ["a bit", "a little", "slightly", "kinda", "kind of", "somewhat", "sort of"];
+// n't は don't / can't / won't … の語尾として数える
+export const EN_NEGATIONS = ["not", "never", "n't", "no", "cannot", "without", "nor", "no longer"];
+export const EN_BOND_BOOSTERS = ["you", "babe", "baby", "honey", "darling", "together", "forever", "promise", "us"];
+
+export const DEFAULT_LEXICON_EN: Lexicon = {
+  愛情: [
+    { term: "love", weight: 2, match: "lemma" },
+    { term: "i love you", weight: 3 },
+    { term: "adore", weight: 2.5, match: "lemma" },
+    { term: "cherish", weight: 2, match: "lemma" },
+    { term: "sweetheart", weight: 1.5 },
+    { term: "precious", weight: 1.2 },
+    { term: "kiss", weight: 1.5, match: "lemma" },
+    { term: "xoxo", weight: 1.5 },
+    { term: "my heart", weight: 1.5 },
+  ],
+  切なさ: [
+    { term: "miss", weight: 2.5, match: "lemma" },
+    { term: "wish you were here", weight: 3 },
+    { term: "longing", weight: 2.5 },
+    { term: "yearn", weight: 2.5, match: "lemma" },
+    { term: "far away", weight: 1.5 },
+    { term: "bittersweet", weight: 2 },
+    { term: "can't wait to see you", weight: 2 },
+  ],
+  悲しみ: [
+    { term: "sad", weight: 2 },
+    { term: "cry", weight: 2, match: "lemma" },
+    { term: "tears", weight: 2 },
+    { term: "heartbroken", weight: 3 },
+    { term: "hurt", weight: 1.5, match: "lemma" },
+    { term: "lonely", weight: 2 },
+    { term: "depressed", weight: 2.5 },
+    { term: "sorrow", weight: 2.5 },
+    { term: "upset", weight: 1.5 },
+  ],
+  甘え: [
+    { term: "hug", weight: 2, match: "lemma" },
+    { term: "cuddle", weight: 2.5, match: "lemma" },
+    { term: "hold me", weight: 2.5 },
+    { term: "stay with me", weight: 2.5 },
+    { term: "spoil me", weight: 2 },
+    { term: "comfort me", weight: 2 },
+    { term: "pat", weight: 1.2, match: "lemma" },
+    { term: "need you", weight: 2 },
+  ],
+  欲: [
+    { term: "want you", weight: 2.5 },
+    { term: "crave", weight: 2.5, match: "lemma" },
+    { term: "desire", weight: 2.5, match: "lemma" },
+    { term: "tonight", weight: 1 },
+    { term: "touch me", weight: 2.5 },
+    { term: "sexy", weight: 2 },
+    { term: "hot", weight: 1.2 },
+  ],
+};
+
+export const DEFAULT_MODIFIERS_EN: Modifiers = {
+  intensifiers: EN_INTENSIFIERS.map((term) => ({ term, factor: 1.5 })),
+  diminishers: EN_DIMINISHERS.map((term) => ({ term, factor: 0.7 })),
+  negations: EN_NEGATIONS.map((term) => ({ term, factor: 0 })),
+  emoji: DEFAULT_MODIFIERS.emoji,
+  kaomoji: DEFAULT_MODIFIERS.kaomoji,
+  // 「w」「笑」は日本語の書き方なので、英語は …・?!・伸ばしだけ
+  prosody: DEFAULT_MODIFIERS.prosody.filter((e) => e.term !== "laugh" && e.term !== "tilde"),
+  bond: EN_BOND_BOOSTERS.map((term) => ({ term, factor: 0.6, category: "愛情" as Category })),
+};
+
+// ----- 単語の区切り -----
+
+const WORD = /[a-z0-9']+/g;
+
+/** 語境界（単語の始まりと終わり）。本文は小文字にそろえてある前提 */
+export function englishBoundaries(text: string): Set<number> {
+  const out = new Set<number>([0, text.length]);
+  for (const m of text.matchAll(WORD)) {
+    out.add(m.index ?? 0);
+    out.add((m.index ?? 0) + m[0].length);
+  }
+  return out;
+}
+
+const VOWELS = "aeiou";
+
+// 短母音で終わる1音節（hug, pat）は子音を重ねる（hugged, patting）
+function doublesFinal(word: string): boolean {
+  if (word.length < 3 || word.length > 4) return false;
+  const [a, b, c] = word.slice(-3);
+  return !VOWELS.includes(a) && VOWELS.includes(b) && !VOWELS.includes(c) && !"wxy".includes(c);
+}
+
+/** 見出し語の活用形（最初の1語だけ活用させる。「miss you」→「missed you」） */
+export function englishForms(term: string): string[] {
+  const t = term.trim().toLowerCase();
+  if (!t) return [];
+  const [head, ...rest] = t.split(/\s+/);
+  const tail = rest.length ? " " + rest.join(" ") : "";
+  const forms = new Set<string>([head]);
+  if (head.endsWith("e")) {
+    const stem = head.slice(0, -1);
+    forms.add(head + "s").add(stem + "ed").add(stem + "ing");
+  } else if (/[^aeiou]y$/.test(head)) {
+    const stem = head.slice(0, -1);
+    forms.add(stem + "ies").add(stem + "ied").add(head + "ing");
+  } else if (/(s|x|z|ch|sh)$/.test(head)) {
+    forms.add(head + "es").add(head + "ed").add(head + "ing");
+  } else {
+    const dbl = doublesFinal(head) ? head + head.slice(-1) : head;
+    forms.add(head + "s").add(dbl + "ed").add(dbl + "ing");
+  }
+  return [...forms].map((f) => f + tail);
+}
+
+// ----- 否定・強弱（語の前の数語） -----
+
+/** 節の切れ目。これより前は見ない */
+const CLAUSE_BREAK = /[,.;:!?。、！？\n]|\b(?:but|though|although|because|so that)\b/g;
+
+/** 見る語数 */
+export const EN_WINDOW_WORDS = 3;
+
+/** pos の直前にある同じ節の語（近い方から最大 max 語、並びは本文順） */
+export function precedingWords(text: string, pos: number, max = EN_WINDOW_WORDS): string[] {
+  const from = Math.max(0, pos - 80);
+  const before = text.slice(from, pos);
+  let cut = 0;
+  for (const m of before.matchAll(CLAUSE_BREAK)) cut = (m.index ?? 0) + m[0].length;
+  const words = before.slice(cut).match(WORD) ?? [];
+  return words.slice(-max);
+}
+
+function countPhrase(words: string[], term: string): number {
+  if (term === "n't") return words.filter((w) => w.endsWith("n't")).length;
+  const padded = ` ${words.join(" ")} `;
+  const needle = ` ${term} `;
+  let n = 0;
+  for (let p = padded.indexOf(needle); p >= 0; p = padded.indexOf(needle, p + needle.length - 1)) n++;
+  return n;
+}
+
+/**
+ * 語の前の数語にある否定（日本語の scanNegation と同じ形で返す）。
+ * 長いもの優先で、数えた語は消していく（「no longer」を「no」と二重に数えない）
+ */
+export function scanNegationEn(text: string, pos: number, negations: string[] = EN_NEGATIONS): NegationScope {
+  const words = precedingWords(text, pos);
+  const found: Array<{ at: number; term: string }> = [];
+  let rest = words.slice();
+  for (const term of negations.slice().sort((a, b) => b.length - a.length)) {
+    const parts = term.split(/\s+/);
+    for (let i = 0; i + parts.length <= rest.length; i++) {
+      const hit = term === "n't"
+        ? rest[i].endsWith("n't")
+        : parts.every((p, k) => rest[i + k] === p);
+      if (!hit) continue;
+      found.push({ at: i, term });
+      rest = rest.map((w, k) => (k >= i && k < i + parts.length ? "" : w));
+    }
+  }
+  return { scope: words.join(" "), markers: found.sort((a, b) => a.at - b.at).map((f) => f.term) };
+}
+
+/** 語の前の数語にある強調・弱調語のうち、いちばん長いもの */
+export function findModifierWords(
+  entries: ModifierEntry[],
+  words: string[],
+  cats: Category[]
+): ModifierEntry | undefined {
+  let best: ModifierEntry | undefined;
+  for (const e of entries) {
+    if (e.category && !cats.includes(e.category)) continue;
+    if (!countPhrase(words, e.term)) continue;
+    if (!best || e.term.length > best.term.length) best = e;
+  }
+  return best;
+}
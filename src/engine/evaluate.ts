@@ -0,0 +1,295 @@
+import { analyze, leadersOf } from "./analyze";
+import { categoriesOf } from "./categories";
+import type { AnalyzeOptions, Category, CategoryScores, Lexicon } from "./types";
+
+// ===== ラベル付きコーパスでの評価 =====
+// 「この文は愛情が首位」「この文はこのスコア」と答えを付けた文の集まりを今の辞書で解析して、
+// 正解率・カテゴリごとの取り違え（混同行列）・大きく外した例を出す。
+// 辞書の重みをいじったときに良くなったのか悪くなったのかを、前の辞書の結果と比べて確かめる用。
+
+export interface EvalExample {
+  /** 一覧で見分けるための番号（コーパスの行番号） */
+  id: string;
+  text: string;
+  /** 期待する首位カテゴリ（複数ならどれが首位でも正解） */
+  lead: Category[];
+  /** 期待するスコア（0〜100。あれば誤差も出す） */
+  scores?: CategoryScores;
+}
+
+export interface EvalCorpus {
+  examples: EvalExample[];
+  /** 読めなかった行（「3行目: …」の形） */
+  errors: string[];
+}
+
+/** 予測が何も当たらなかったときの混同行列の列 */
+export const NO_LEAD = "__none__";
+
+export interface EvalOutcome {
+  example: EvalExample;
+  /** 予測した首位（同率なら辞書の並びで先のもの。何も当たらなければ null） */
+  predicted: Category | null;
+  normalized: CategoryScores;
+  correct: boolean;
+  /** 外れの大きさ：予測首位のスコア − 期待カテゴリの最高スコア（正解なら 0、何も当たらなければ 100） */
+  margin: number;
+  /** scores があるときの平均絶対誤差 */
+  mae?: number;
+}
+
+export interface CategoryStat {
+  category: Category;
+  /** 期待がこのカテゴリだった例の数 */
+  support: number;
+  /** このカテゴリと予測した例のうち正解の割合（予測が無ければ null） */
+  precision: number | null;
+  /** 期待がこのカテゴリの例のうち正解の割合（例が無ければ null） */
+  recall: number | null;
+}
+
+export interface EvalReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** scores 付きの例の平均絶対誤差（無ければ null） */
+  mae: number | null;
+  /** 行・列の並び（辞書の並び） */
+  categories: Category[];
+  /** confusion[期待の首位][予測の首位 or NO_LEAD] = 件数 */
+  confusion: Record<Category, Record<string, number>>;
+  perCategory: CategoryStat[];
+  outcomes: EvalOutcome[];
+  /** 期待カテゴリがどれも辞書に無くて数えなかった例 */
+  skipped: EvalExample[];
+}
+
+// ----- 読み込み -----
+
+// 「愛情|切なさ」「愛情・切なさ」のように複数書ける
+function splitLead(v: unknown): Category[] {
+  const list = Array.isArray(v) ? v : typeof v === "string" ? v.split(/[|・、,]/) : [];
+  return list.map((x) => String(x).trim()).filter(Boolean);
+}
+
+function toScores(v: unknown): CategoryScores | undefined {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return undefined;
+  const out: CategoryScores = {};
+  for (const [k, n] of Object.entries(v as Record<string, unknown>)) {
+    const x = Number(n);
+    if (Number.isFinite(x)) out[k] = x;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// 期待の首位が無ければスコアの最大から決める
+function toExample(id: string, text: unknown, lead: unknown, scores: unknown): EvalExample | string {
+  if (typeof text !== "string" || !text.trim()) return "text がありません";
+  const sc = toScores(scores);
+  const ld = splitLead(lead);
+  const resolved = ld.length ? ld : sc ? leadersOf(sc) : [];
+  if (!resolved.length) return "lead か scores が必要です";
+  return { id, text, lead: resolved, ...(sc ? { scores: sc } : {}) };
+}
+
+// RFC 4180 程度の CSV（"" のエスケープ、引用符の中の改行）
+function parseCsvRows(src: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else { if (ch === "\n") line++; cell += ch; }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      cells.push(cell);
+      if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = "";
+      rowLine = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  if (cells.some((c) => c.trim())) rows.push({ line: rowLine, cells });
+  return rows;
+}
+
+// CLI の CSV（愛情(%) 列）もそのまま答えとして読めるようにする
+const CSV_IGNORED = /^(?:source|language|confidence|matches|distinct|coverage|id)$|\(raw\)$/;
+
+function parseCsv(src: string): EvalCorpus {
+  const [head, ...rows] = parseCsvRows(src);
+  const examples: EvalExample[] = [];
+  const errors: string[] = [];
+  if (!head) return { examples, errors };
+  const cols = head.cells.map((c) => c.trim().replace(/\(%\)$/, ""));
+  const textCol = cols.indexOf("text");
+  if (textCol === -1) return { examples, errors: ["1行目: text 列がありません"] };
+  const leadCol = cols.indexOf("lead");
+  const scoreCols = cols
+    .map((c, i) => ({ c, i }))
+    .filter(({ c, i }) => i !== textCol && i !== leadCol && c && !CSV_IGNORED.test(c));
+  for (const { line, cells } of rows) {
+    const scores = Object.fromEntries(
+      scoreCols.filter(({ i }) => (cells[i] ?? "").trim() !== "").map(({ c, i }) => [c, cells[i]])
+    );
+    const ex = toExample(`${line}`, cells[textCol], leadCol >= 0 ? cells[leadCol] : undefined, scores);
+    if (typeof ex === "string") errors.push(`${line}行目: ${ex}`);
+    else examples.push(ex);
+  }
+  return { examples, errors };
+}
+
+function parseJsonItems(items: Array<{ line: number; value: unknown }>): EvalCorpus {
+  const examples: EvalExample[] = [];
+  const errors: string[] = [];
+  for (const { line, value } of items) {
+    const o = (value ?? {}) as Record<string, unknown>;
+    const ex = toExample(String(o.id ?? line), o.text, o.lead, o.scores);
+    if (typeof ex === "string") errors.push(`${line}行目: ${ex}`);
+    else examples.push(ex);
+  }
+  return { examples, errors };
+}
+
+/**
+ * JSONL（1行に {"text", "lead", "scores"}）・JSON 配列・CSV（text 列と、lead 列かカテゴリ名の列）を読む。
+ * 先頭の文字で形式を見分ける
+ */
+export function parseEvalCorpus(src: string): EvalCorpus {
+  const body = src.replace(/^\uFEFF/, "");
+  const first = body.trimStart()[0];
+  if (first === "[") {
+    try {
+      const arr = JSON.parse(body);
+      if (!Array.isArray(arr)) return { examples: [], errors: ["JSON の配列ではありません"] };
+      return parseJsonItems(arr.map((value, i) => ({ line: i + 1, value })));
+    } catch {
+      return { examples: [], errors: ["JSON として読めませんでした"] };
+    }
+  }
+  if (first === "{") {
+    const items: Array<{ line: number; value: unknown }> = [];
+    const errors: string[] = [];
+    body.split(/\r?\n/).forEach((l, i) => {
+      if (!l.trim()) return;
+      try {
+        items.push({ line: i + 1, value: JSON.parse(l) });
+      } catch {
+        errors.push(`${i + 1}行目: JSON として読めませんでした`);
+      }
+    });
+    const parsed = parseJsonItems(items);
+    return { examples: parsed.examples, errors: [...errors, ...parsed.errors] };
+  }
+  return parseCsv(body);
+}
+
+// ----- 評価 -----
+
+function meanAbsError(expected: CategoryScores, got: CategoryScores): number {
+  const cats = Object.keys(expected);
+  return cats.reduce((s, c) => s + Math.abs(expected[c] - (got[c] ?? 0)), 0) / cats.length;
+}
+
+export function evaluateCorpus(examples: EvalExample[], lexicon: Lexicon, options: AnalyzeOptions = {}): EvalReport {
+  const categories = categoriesOf(lexicon);
+  const confusion: Record<Category, Record<string, number>> = {};
+  for (const c of categories) confusion[c] = {};
+  const outcomes: EvalOutcome[] = [];
+  const skipped: EvalExample[] = [];
+
+  for (const example of examples) {
+    const lead = example.lead.filter((c) => categories.includes(c));
+    if (!lead.length) {
+      skipped.push(example);
+      continue;
+    }
+    const { normalized } = analyze(example.text, lexicon, options);
+    const predicted = leadersOf(normalized)[0] ?? null;
+    const correct = predicted !== null && lead.includes(predicted);
+    const best = Math.max(...lead.map((c) => normalized[c] ?? 0));
+    const margin = correct ? 0 : predicted === null ? 100 : normalized[predicted] - best;
+    const row = confusion[lead[0]];
+    const col = predicted ?? NO_LEAD;
+    row[col] = (row[col] ?? 0) + 1;
+    outcomes.push({
+      example, predicted, normalized, correct, margin,
+      ...(example.scores ? { mae: meanAbsError(example.scores, normalized) } : {}),
+    });
+  }
+
+  const total = outcomes.length;
+  const correct = outcomes.filter((o) => o.correct).length;
+  const maes = outcomes.flatMap((o) => (o.mae === undefined ? [] : [o.mae]));
+  const perCategory = categories.map((category) => {
+    const expected = outcomes.filter((o) => o.example.lead.includes(category));
+    const predictedAs = outcomes.filter((o) => o.predicted === category);
+    return {
+      category,
+      support: expected.length,
+      precision: predictedAs.length ? predictedAs.filter((o) => o.correct).length / predictedAs.length : null,
+      recall: expected.length ? expected.filter((o) => o.correct).length / expected.length : null,
+    };
+  });
+  return {
+    total,
+    correct,
+    accuracy: total ? correct / total : 0,
+    mae: maes.length ? maes.reduce((s, x) => s + x, 0) / maes.length : null,
+    categories,
+    confusion,
+    perCategory,
+    outcomes,
+    skipped,
+  };
+}
+
+/** 外した例を外れの大きい順に（同じならスコアの誤差の大きい順） */
+export function worstMisses(report: EvalReport, limit = 10): EvalOutcome[] {
+  return report.outcomes
+    .filter((o) => !o.correct)
+    .sort((a, b) => b.margin - a.margin || (b.mae ?? 0) - (a.mae ?? 0))
+    .slice(0, limit);
+}
+
+export interface EvalDiff {
+  /** 今 − 前 */
+  accuracyDelta: number;
+  maeDelta: number | null;
+  /** 前は外れて今は正解になった例 */
+  fixed: EvalOutcome[];
+  /** 前は正解で今は外れた例 */
+  broken: EvalOutcome[];
+}
+
+/** 同じコーパスを2つの辞書で評価した結果を、例ごとに突き合わせる */
+export function diffEvalReports(current: EvalReport, previous: EvalReport): EvalDiff {
+  const before = new Map(previous.outcomes.map((o) => [o.example.id, o]));
+  const fixed: EvalOutcome[] = [];
+  const broken: EvalOutcome[] = [];
+  for (const o of current.outcomes) {
+    const p = before.get(o.example.id);
+    if (!p || p.correct === o.correct) continue;
+    (o.correct ? fixed : broken).push(o);
+  }
+  return {
+    accuracyDelta: current.accuracy - previous.accuracy,
+    maeDelta: current.mae !== null && previous.mae !== null ? current.mae - previous.mae : null,
+    fixed,
+    broken,
+  };
+}
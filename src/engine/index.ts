@@ -0,0 +1,162 @@
+// ===== 感情解析エンジン（公開API） =====
+// React/DOM に依存しない部分だけをここから出す。App と CLI の両方がこれを使う。
+export type {
+  Category,
+  Lexeme,
+  Lexicon,
+  CategoryScores,
+  AnalyzeOptions,
+  ScoringMode,
+  OverlapPolicy,
+  NormalizeStep,
+  NormalizeOptions,
+  Language,
+  ConfidenceLevel,
+  Coverage,
+  AnalysisResult,
+  ModifierKind,
+  ModifierEntry,
+  Modifiers,
+  MatchKind,
+  MatchMode,
+  MatchSpan,
+  BuiltinCategoryMap,
+} from "./types";
+export { DEFAULT_CATEGORIES } from "./types";
+export {
+  MIN_CATEGORIES,
+  MAX_CATEGORIES,
+  CATEGORY_NAME_MAX,
+  categoriesOf,
+  validateCategoryName,
+  addCategory,
+  renameCategory,
+  removeCategory,
+  remapModifiers,
+  renameKey,
+  dropKey,
+  remapBuiltinCategories,
+  resolveBuiltinCategory,
+  isBuiltinCategoryMap,
+} from "./categories";
+export {
+  ABSOLUTE_SATURATION,
+  SCORING_MODE_LABEL,
+  absoluteScore,
+  analyze,
+  baseEmojiBoost,
+  emptyScores,
+  leadersOf,
+  creditedTerms,
+} from "./analyze";
+export { DEFAULT_LEXICON, isLexicon, validateLexicon, hashLexicon, hashBase36, simpleHash } from "./lexicon";
+export type { Segment, TimelinePoint } from "./timeline";
+export { splitSentences, analyzeTimeline } from "./timeline";
+export {
+  MATCH_MODES,
+  MATCH_MODE_LABEL,
+  countSubstringIndices,
+  findLexemeHits,
+  isValidPattern,
+} from "./matching";
+export { loadTokenizer, tokenizerReady, needsTokenizer, tokenize, lemmasOf, DICT_FILES } from "./tokenizer";
+export type { DictFile, DictSource, Token } from "./tokenizer";
+export {
+  NEGATIONS,
+  DOUBLE_NEGATION_FACTOR,
+  NEGATION_FLIP_FACTOR,
+  scanNegation,
+} from "./negation";
+export type { NegationScope } from "./negation";
+export {
+  INTENSIFIERS,
+  DIMINISHERS,
+  EMOJI_BOOST,
+  KAOMOJI_BOOST,
+  BOND_BOOSTERS,
+  PROSODY_BOOST,
+  MODIFIER_KINDS,
+  MODIFIER_KIND_LABEL,
+  MODIFIER_DEFAULT_FACTOR,
+  DEFAULT_MODIFIERS,
+  isModifiers,
+  withModifierDefaults,
+  findModifier,
+} from "./modifiers";
+export { KAOMOJI_GUESS_POINTS, emojiKey, findEmoji, findKaomoji, findSymbols } from "./emoji";
+export type { SymbolHit } from "./emoji";
+export {
+  PROSODY_MARKERS,
+  PROSODY_MARKER_LABEL,
+  PROSODY_MARKER_SYMBOL,
+  PROSODY_MAX_HITS,
+  findProsody,
+  isProsodyMarker,
+  prosodyRules,
+} from "./prosody";
+export type { ProsodyMarker, ProsodyHit } from "./prosody";
+export {
+  OVERLAP_POLICIES,
+  OVERLAP_POLICY_LABEL,
+  resolveOverlaps,
+  findOverlapGroups,
+  overlapWinners,
+} from "./overlap";
+export type { OverlapCandidate, OverlapEntry, OverlapGroup } from "./overlap";
+export {
+  NORMALIZE_STEPS,
+  NORMALIZE_STEP_LABEL,
+  DEFAULT_NORMALIZE,
+  isNormalizeEnabled,
+  normalizeText,
+  normalizeTerm,
+  toOriginalSpan,
+} from "./normalize";
+export type { NormalizedText } from "./normalize";
+export {
+  LANGUAGE_LABEL,
+  DEFAULT_LEXICON_EN,
+  DEFAULT_MODIFIERS_EN,
+  EN_INTENSIFIERS,
+  EN_DIMINISHERS,
+  EN_NEGATIONS,
+  EN_BOND_BOOSTERS,
+  detectLanguage,
+  englishForms,
+  scanNegationEn,
+} from "./english";
+export { parseChatLog, analyzeBySpeaker, chatBody } from "./chatlog";
+export type { ChatFormat, ChatMessage, ChatLog, SpeakerAnalysis } from "./chatlog";
+export {
+  CONFIDENCE_LABEL,
+  LOW_CONFIDENCE,
+  HIGH_CONFIDENCE,
+  computeCoverage,
+  confidenceOf,
+  isLowConfidence,
+} from "./coverage";
+export { compareResults, termUses } from "./compare";
+export {
+  NO_LEAD,
+  parseEvalCorpus,
+  evaluateCorpus,
+  worstMisses,
+  diffEvalReports,
+} from "./evaluate";
+export type { EvalExample, EvalCorpus, EvalOutcome, EvalReport, EvalDiff, CategoryStat } from "./evaluate";
+export {
+  NARRATIVE_PHRASE_KEYS,
+  NARRATIVE_PHRASE_LABEL,
+  DEFAULT_NARRATIVE_PHRASES,
+  buildNarrative,
+  isNarrativePhrases,
+  withNarrativeDefaults,
+} from "./narrative";
+export type { NarrativePhraseKey, NarrativePhrases } from "./narrative";
+export { WEIGHT_MIN, WEIGHT_MAX, suggestWeights, applyWeightChanges } from "./optimize";
+export type { WeightChange, OptimizeOptions, WeightSuggestion } from "./optimize";
+export type { CategoryDelta, TermUse, Comparison } from "./compare";
+export { buildAutomaton } from "./ahocorasick";
+export type { Automaton } from "./ahocorasick";
+export { compileLexicon, getCompiledLexicon } from "./compiled";
+export type { CompiledLexicon } from "./compiled";
@@ -0,0 +1,24 @@
+// kuromoji の内部モジュール（同梱辞書を自前で読み込むために、辞書の組み立てと Tokenizer を直接使う）
+declare module "kuromoji/src/dict/DynamicDictionaries" {
+  import type { DynamicDictionaries as Dictionaries } from "kuromoji";
+  interface DynamicDictionaries extends Dictionaries {
+    loadTokenInfoDictionaries(tokenInfo: Uint8Array, pos: Uint8Array, targetMap: Uint8Array): DynamicDictionaries;
+    loadConnectionCosts(cc: Int16Array): DynamicDictionaries;
+    loadUnknownDictionaries(
+      unk: Uint8Array,
+      unkPos: Uint8Array,
+      unkMap: Uint8Array,
+      catMap: Uint8Array,
+      compatCatMap: Uint32Array,
+      invokeDef: Uint8Array
+    ): DynamicDictionaries;
+  }
+  const DynamicDictionaries: new () => DynamicDictionaries;
+  export default DynamicDictionaries;
+}
+
+declare module "kuromoji/src/Tokenizer" {
+  import type { DynamicDictionaries, IpadicFeatures, Tokenizer as KuromojiTokenizer } from "kuromoji";
+  const Tokenizer: new (dic: DynamicDictionaries) => KuromojiTokenizer<IpadicFeatures>;
+  export default Tokenizer;
+}
@@ -0,0 +1,109 @@
+import { MAX_CATEGORIES, MIN_CATEGORIES } from "./categories";
+import type { Lexicon } from "./types";
+
+// ===== デフォルト語彙（初期値） =====
+export const DEFAULT_LEXICON: Lexicon = {
+  愛情: [
+    { term: "愛してる", weight: 3 },
+    { term: "愛してるよ", weight: 3 },
+    { term: "好き", weight: 2 },
+    { term: "大好き", weight: 3 },
+    { term: "いとしい", weight: 2 },
+    { term: "大切", weight: 2 },
+    { term: "ずっと", weight: 1.5 },
+    { term: "抱きしめ", weight: 2 },
+    { term: "ぎゅ", weight: 1.8 },
+    { term: "キス", weight: 1.6 },
+    { term: "そばに", weight: 1.4 },
+    { term: "一緒に", weight: 1.2 },
+    { term: "誓う", weight: 1.8 },
+  ],
+  切なさ: [
+    { term: "切ない", weight: 3 },
+    { term: "恋しい", weight: 2.2, categories: ["愛情", "切なさ"] },
+    { term: "会いたい", weight: 2.4, categories: ["愛情", "切なさ"] },
+    { term: "会いたく", weight: 2.4, categories: ["愛情", "切なさ"] },
+    { term: "まだ", weight: 1 },
+    { term: "もし", weight: 1.2 },
+    { term: "いつか", weight: 1.2 },
+    { term: "届か", weight: 1.4 },
+    { term: "足りない", weight: 1.6 },
+    { term: "ため息", weight: 1.6 },
+  ],
+  悲しみ: [
+    { term: "悲しい", weight: 3 },
+    { term: "涙", weight: 2.4 },
+    { term: "辛い", weight: 2.4 },
+    { term: "辛く", weight: 2.4 },
+    { term: "苦しい", weight: 2.2 },
+    { term: "寂しい", weight: 2.2 },
+    { term: "寂しく", weight: 2.2 },
+    { term: "痛い", weight: 1.6 },
+    { term: "泣", weight: 2.0 },
+    { term: "喪失", weight: 2.2 },
+  ],
+  甘え: [
+    { term: "ねえ", weight: 1.4 },
+    { term: "お願い", weight: 1.8 },
+    { term: "だっこ", weight: 2.0 },
+    { term: "撫でて", weight: 1.8 },
+    { term: "よしよし", weight: 1.6 },
+    { term: "そばにいて", weight: 2.0 },
+    { term: "ぎゅー", weight: 1.8 },
+    { term: "甘え", weight: 2.0 },
+    { term: "頼って", weight: 1.6 },
+  ],
+  欲: [
+    { term: "欲しい", weight: 2.0 },
+    { term: "欲", weight: 2.2 },
+    { term: "もっと", weight: 1.8 },
+    { term: "求め", weight: 2.0 },
+    { term: "ください", weight: 1.2 },
+    { term: "して", weight: 1.1 },
+    { term: "触れ", weight: 1.6, categories: ["愛情", "欲"] },
+    { term: "抱い", weight: 1.6, categories: ["愛情", "欲"] },
+    { term: "熱", weight: 1.4 },
+  ],
+};
+
+// ===== ハッシュ =====
+export function simpleHash(s: string): number {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) {
+    h = (h << 5) - h + s.charCodeAt(i);
+    h |= 0;
+  }
+  return Math.abs(h);
+}
+
+export function hashBase36(s: string): string {
+  try { return simpleHash(s).toString(36); } catch { return "0"; }
+}
+
+export function hashLexicon(lex: Lexicon): string {
+  try { return hashBase36(JSON.stringify(lex)); } catch { return "0"; }
+}
+
+// ===== 形チェック =====
+/** 書き出しJSONに辞書と一緒に入れるキー（カテゴリ名ではない） */
+const BUNDLED_KEYS = ["modifiers"];
+
+/**
+ * 辞書エディタの書き出しJSONと同じ形（カテゴリ名 → 語の配列）で、カテゴリの数が MIN_CATEGORIES〜MAX_CATEGORIES か。
+ * 取り込めなければ理由を返す（カテゴリ管理画面と同じ範囲。取り込み・プロファイル・CLI の --lexicon で共通）
+ */
+export function validateLexicon(v: unknown): string | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return "辞書の形が不正です（カテゴリ名 → 語の配列）";
+  const entries = Object.entries(v).filter(([k]) => !BUNDLED_KEYS.includes(k));
+  if (!entries.every(([c, list]) => !c.startsWith("__") && Array.isArray(list))) {
+    return "辞書の形が不正です（カテゴリ名 → 語の配列）";
+  }
+  if (entries.length < MIN_CATEGORIES || entries.length > MAX_CATEGORIES) {
+    return `カテゴリは${MIN_CATEGORIES}〜${MAX_CATEGORIES}個にしてください（${entries.length}個あります）`;
+  }
+  return null;
+}
+
+export function isLexicon(v: unknown): v is Lexicon {
+  return validateLexicon(v) === null;
+}
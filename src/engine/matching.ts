@@ -0,0 +1,211 @@
+import type { CompiledLexicon } from "./compiled";
+import { englishBoundaries, englishForms } from "./english";
+import { lemmasOf, tokenize, type Token } from "./tokenizer";
+import type { Language, Lexeme, MatchMode } from "./types";
+
+// ===== 語のマッチング（モード別） =====
+export interface Hit {
+  index: number;
+  length: number;
+}
+
+/** 1回の解析の間だけ使う、語境界・出現位置などのキャッシュ */
+export interface MatchContext {
+  text: string;
+  /** en では部分一致も単語単位になり、見出し語は英語の活用で広げる */
+  language: Language;
+  boundaries(): Set<number>;
+  /** 形態素解析の結果（ja の見出し語モード用。辞書の読み込みが先に要る） */
+  tokens(): Token[];
+  /** 辞書形 → tokens() 上の番号 */
+  lemmaIndex(): Map<string, number[]>;
+  /** term の出現位置（重ならないよう左から貪欲に。countSubstringIndices と同じ結果） */
+  occurrences(term: string): number[];
+  /** 正規表現モードの語のコンパイル結果（書式エラーは null） */
+  regex(pattern: string): RegExp | null;
+}
+
+export const MATCH_MODES: MatchMode[] = ["substring", "exact", "prefix", "lemma", "regex"];
+
+export const MATCH_MODE_LABEL: Record<MatchMode, string> = {
+  substring: "部分一致",
+  exact: "単語一致",
+  prefix: "前方一致",
+  lemma: "見出し語（活用込み）",
+  regex: "正規表現",
+};
+
+const CHUNK_MAX = 1000;
+
+interface WordSegmenter {
+  segment(input: string): Iterable<{ index: number; segment: string }>;
+}
+type SegmenterConstructor = new (locale: string, options: { granularity: "word" }) => WordSegmenter;
+
+// 語境界：ランタイム同梱の ICU 日本語辞書（Intl.Segmenter）で分かち書きした切れ目（単語一致・前方一致用）
+function computeBoundaries(text: string): Set<number> {
+  const out = new Set<number>([0, text.length]);
+  // lib が ES2020 なので Intl.Segmenter の型は自前で付ける
+  const Segmenter = (Intl as typeof Intl & { Segmenter?: SegmenterConstructor }).Segmenter;
+  if (!Segmenter) {
+    // 分かち書きできない環境では全位置を境界扱い（= 部分一致と同じ）
+    for (let i = 0; i <= text.length; i++) out.add(i);
+    return out;
+  }
+  // 長文を丸ごと渡すと区切りごとに本文が複製されてメモリを食うので、文ごとに分かち書きする
+  const seg = new Segmenter("ja", { granularity: "word" });
+  for (let from = 0; from < text.length; ) {
+    const rest = text.slice(from, from + CHUNK_MAX);
+    const cut = rest.search(/[\n。！？!?]/);
+    const chunk = cut >= 0 ? rest.slice(0, cut + 1) : rest;
+    for (const s of seg.segment(chunk)) {
+      out.add(from + s.index);
+      out.add(from + s.index + s.segment.length);
+    }
+    from += chunk.length;
+  }
+  return out;
+}
+
+// オートマトンの出現（重なりあり）を、indexOf ループと同じ「重ならない出現」に間引く
+function nonOverlapping(starts: number[], length: number): number[] {
+  const out: number[] = [];
+  let from = 0;
+  for (const s of starts) {
+    if (s < from) continue;
+    out.push(s);
+    from = s + length;
+  }
+  return out;
+}
+
+/** compiled があれば本文を1回だけ走査し、なければ語ごとに indexOf で探す */
+export function createMatchContext(text: string, compiled?: CompiledLexicon, language: Language = "ja"): MatchContext {
+  let boundaries: Set<number> | null = null;
+  let found: Map<number, number[]> | null = null;
+  let tokens: Token[] | null = null;
+  let lemmaIndex: Map<string, number[]> | null = null;
+  const getTokens = () => (tokens ??= tokenize(text));
+  return {
+    text,
+    language,
+    boundaries: () => (boundaries ??= language === "en" ? englishBoundaries(text) : computeBoundaries(text)),
+    tokens: getTokens,
+    lemmaIndex: () => {
+      if (lemmaIndex) return lemmaIndex;
+      lemmaIndex = new Map();
+      getTokens().forEach((t, i) => {
+        const list = lemmaIndex!.get(t.basic);
+        if (list) list.push(i);
+        else lemmaIndex!.set(t.basic, [i]);
+      });
+      return lemmaIndex;
+    },
+    occurrences: (term) => {
+      const id = compiled?.ids.get(term);
+      if (!compiled || id === undefined) return countSubstringIndices(text, term);
+      found ??= compiled.automaton.searchAll(text);
+      return nonOverlapping(found.get(id) ?? [], term.length);
+    },
+    regex: (pattern) => {
+      if (compiled?.regexes.has(pattern)) return compiled.regexes.get(pattern) ?? null;
+      try {
+        return new RegExp(pattern, "gu");
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+export function countSubstringIndices(text: string, term: string): number[] {
+  const indices: number[] = [];
+  let from = 0;
+  while (true) {
+    const idx = text.indexOf(term, from);
+    if (idx === -1) break;
+    indices.push(idx);
+    from = idx + term.length;
+  }
+  return indices;
+}
+
+/** 正規表現として使えるか（辞書エディタの入力チェック用） */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "gu");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function regexHits(ctx: MatchContext, pattern: string): Hit[] {
+  const re = ctx.regex(pattern);
+  if (!re) return [];
+  const hits: Hit[] = [];
+  for (const m of ctx.text.matchAll(re)) {
+    if (!m[0]) continue; // 空マッチは数えない
+    hits.push({ index: m.index ?? 0, length: m[0].length });
+  }
+  return hits;
+}
+
+// 英語は活用形を並べて単語一致で探す。同じ開始位置なら一番長い活用形を採用
+function englishLemmaHits(ctx: MatchContext, term: string): Hit[] {
+  const b = ctx.boundaries();
+  const best = new Map<number, number>();
+  for (const form of englishForms(term)) {
+    for (const idx of ctx.occurrences(form)) {
+      if (!b.has(idx) || !b.has(idx + form.length)) continue;
+      if ((best.get(idx) ?? 0) < form.length) best.set(idx, form.length);
+    }
+  }
+  return [...best.entries()].sort((x, y) => x[0] - y[0]).map(([index, length]) => ({ index, length }));
+}
+
+// 日本語は形態素解析の辞書形で比べる（見出し語が複数の語なら、辞書形が同じ並びで続くところ）。
+// 当たる範囲は活用した語の表層形（「会いたい」なら「会い」）
+function lemmaHits(ctx: MatchContext, term: string): Hit[] {
+  if (ctx.language === "en") return englishLemmaHits(ctx, term);
+  if (!ctx.text) return [];
+  const want = lemmasOf(term);
+  if (!want.length) return [];
+  const toks = ctx.tokens();
+  const hits: Hit[] = [];
+  for (const i of ctx.lemmaIndex().get(want[0]) ?? []) {
+    if (i + want.length > toks.length) continue;
+    if (!want.every((w, k) => toks[i + k].basic === w)) continue;
+    const start = toks[i].start;
+    hits.push({ index: start, length: toks[i + want.length - 1].end - start });
+  }
+  return hits;
+}
+
+/** 語の登録モードに従って本文中の出現位置を返す */
+export function findLexemeHits(ctx: MatchContext, lex: Lexeme): Hit[] {
+  const term = lex.term;
+  if (!term) return [];
+  // 英語の部分一致は「missed」の中の「miss」のような途中一致を避けて単語一致にする
+  const mode = lex.match ?? "substring";
+  switch (ctx.language === "en" && mode === "substring" ? "exact" : mode) {
+    case "regex":
+      return regexHits(ctx, term);
+    case "lemma":
+      return lemmaHits(ctx, term);
+    case "exact": {
+      const b = ctx.boundaries();
+      return ctx.occurrences(term)
+        .filter((i) => b.has(i) && b.has(i + term.length))
+        .map((index) => ({ index, length: term.length }));
+    }
+    case "prefix": {
+      const b = ctx.boundaries();
+      return ctx.occurrences(term)
+        .filter((i) => b.has(i))
+        .map((index) => ({ index, length: term.length }));
+    }
+    default:
+      return ctx.occurrences(term).map((index) => ({ index, length: term.length }));
+  }
+}
@@ -0,0 +1,111 @@
+import { NEGATIONS } from "./negation";
+import type { ProsodyMarker } from "./prosody";
+import { DEFAULT_CATEGORIES, type Category, type ModifierEntry, type ModifierKind, type Modifiers } from "./types";
+
+// ===== 修飾語辞書（強弱・否定・絵文字・顔文字・関係語） =====
+
+// 既定の語（公開APIとしても残す）
+export const INTENSIFIERS = [
+  "とても", "すごく", "めっちゃ", "超絶", "超",
+  "かなり", "本当に", "ほんとに", "めちゃくちゃ",
+];
+export const DIMINISHERS = ["少し", "ちょっと", "やや", "まあまあ", "すこし"];
+export const EMOJI_BOOST: { [k in Category]: string[] } = {
+  愛情: ["❤️", "💕", "😘", "💖", "🥰"],
+  切なさ: ["🥺", "😢"],
+  悲しみ: ["😢", "😭"],
+  甘え: ["🤲", "🤗"],
+  欲: ["🔥", "💦", "😏"],
+};
+export const KAOMOJI_BOOST: { [k in Category]: string[] } = {
+  愛情: ["(*´з`*)", "(´ε｀ )", "(♡´▽`♡)", "(〃ω〃)", "(*ﾉωﾉ)"],
+  切なさ: ["(´・ω・`)", "(´-ω-`)", "(´･_･`)", "( ´ー`)"],
+  悲しみ: ["(´；ω；｀)", "(;_;)", "(T_T)", "(つд⊂)", "(´；д；`)", "( ；∀；)"],
+  甘え: ["(*´ω`*)", "(っ´ω`c)", "(*´∀`*)", "ヾ(*´∀`*)ﾉ"],
+  欲: ["(*´Д`)ﾊｧﾊｧ", "(*´Д`)", "ψ(｀∇´)ψ"],
+};
+export const BOND_BOOSTERS = ["あなた", "君", "妻", "夫", "二人", "ずっと一緒", "約束", "誓い"];
+/** 書き方の特徴 → カテゴリへの加点（マイナスは減点） */
+export const PROSODY_BOOST: Array<{ term: ProsodyMarker; factor: number; category: Category }> = [
+  { term: "ellipsis", factor: 0.8, category: "切なさ" },
+  { term: "tilde", factor: 0.8, category: "甘え" },
+  { term: "laugh", factor: -1.0, category: "悲しみ" },
+  { term: "burst", factor: 0.5, category: "切なさ" },
+  { term: "stretch", factor: 0.6, category: "甘え" },
+];
+
+export const MODIFIER_KINDS: ModifierKind[] = ["intensifiers", "diminishers", "negations", "emoji", "kaomoji", "bond", "prosody"];
+
+export const MODIFIER_KIND_LABEL: Record<ModifierKind, string> = {
+  intensifiers: "強調語",
+  diminishers: "弱調語",
+  negations: "否定語",
+  emoji: "絵文字",
+  kaomoji: "顔文字",
+  bond: "関係語",
+  prosody: "書き方",
+};
+
+/** 新規追加時の既定値（従来の固定倍率） */
+export const MODIFIER_DEFAULT_FACTOR: Record<ModifierKind, number> = {
+  intensifiers: 1.5,
+  diminishers: 0.7,
+  negations: 0,
+  emoji: 1.2,
+  kaomoji: 1.2,
+  bond: 0.6,
+  prosody: 0.5,
+};
+
+export const DEFAULT_MODIFIERS: Modifiers = {
+  intensifiers: INTENSIFIERS.map((term) => ({ term, factor: 1.5 })),
+  diminishers: DIMINISHERS.map((term) => ({ term, factor: 0.7 })),
+  negations: NEGATIONS.map((term) => ({ term, factor: 0 })),
+  emoji: DEFAULT_CATEGORIES.flatMap((c) => EMOJI_BOOST[c].map((term) => ({ term, factor: 1.2, category: c }))),
+  kaomoji: DEFAULT_CATEGORIES.flatMap((c) => KAOMOJI_BOOST[c].map((term) => ({ term, factor: 1.2, category: c }))),
+  bond: BOND_BOOSTERS.map((term) => ({ term, factor: 0.6, category: "愛情" as Category })),
+  prosody: PROSODY_BOOST.map((e) => ({ ...e })),
+};
+
+function isEntry(v: unknown): v is ModifierEntry {
+  if (!v || typeof v !== "object") return false;
+  const e = v as any;
+  if (typeof e.term !== "string" || !e.term) return false;
+  if (typeof e.factor !== "number" || !Number.isFinite(e.factor)) return false;
+  return e.category === undefined || (typeof e.category === "string" && !!e.category);
+}
+
+// 後から増えた種類（古い保存データ・書き出しJSONには無い）
+const LATER_KINDS: ModifierKind[] = ["kaomoji", "prosody"];
+
+/** 形チェック（全種類が配列で、各要素が term/factor を持つ。後から増えた種類は無くてもよい） */
+export function isModifiers(v: unknown): v is Modifiers {
+  if (!v || typeof v !== "object") return false;
+  return MODIFIER_KINDS.every((k) => {
+    const list = (v as any)[k];
+    if (list === undefined && LATER_KINDS.includes(k)) return true;
+    return Array.isArray(list) && list.every(isEntry);
+  });
+}
+
+/** 古いデータに無い種類を既定で埋める */
+export function withModifierDefaults(m: Modifiers): Modifiers {
+  const missing = LATER_KINDS.filter((k) => !m[k]);
+  if (!missing.length) return m;
+  return { ...m, ...Object.fromEntries(missing.map((k) => [k, DEFAULT_MODIFIERS[k]])) };
+}
+
+/** 左側の窓に出てきた語のうち、いちばん長いもの（「超絶」と「超」なら「超絶」） */
+export function findModifier(
+  entries: ModifierEntry[],
+  windowText: string,
+  cats: Category[]
+): ModifierEntry | undefined {
+  let best: ModifierEntry | undefined;
+  for (const e of entries) {
+    if (e.category && !cats.includes(e.category)) continue;
+    if (!windowText.includes(e.term)) continue;
+    if (!best || e.term.length > best.term.length) best = e;
+  }
+  return best;
+}
@@ -0,0 +1,173 @@
+import type { AnalysisResult, Category } from "./types";
+import { creditedTerms } from "./analyze";
+
+// ===== 文章での要約 =====
+// 首位だけでなく全カテゴリについて、解析結果を数段落の文章にする。
+// 文は差し替えられるフレーズ集（{category} などの変数入り）から組み立てる。
+// 変数を埋めた結果が空の「（）」になったら取り除く（効いた語が無いときなど）。
+
+export type NarrativePhraseKey =
+  | "lead" | "leadTie" | "leadTerms"
+  | "secondaryStrong" | "secondaryWeak" | "absent"
+  | "notable" | "negation" | "flipped"
+  | "relation" | "relationOff" | "nothing";
+
+export type NarrativePhrases = Record<NarrativePhraseKey, string>;
+
+export const NARRATIVE_PHRASE_KEYS: NarrativePhraseKey[] = [
+  "lead", "leadTie", "leadTerms",
+  "secondaryStrong", "secondaryWeak", "absent",
+  "notable", "negation", "flipped",
+  "relation", "relationOff", "nothing",
+];
+
+/** 設定画面での説明（使える変数つき） */
+export const NARRATIVE_PHRASE_LABEL: Record<NarrativePhraseKey, string> = {
+  lead: "首位が1つ {category} {score}",
+  leadTie: "首位が複数 {categories} {score}",
+  leadTerms: "首位に効いた語 {terms}",
+  secondaryStrong: "2番手以降・60%以上 {category} {score} {terms}",
+  secondaryWeak: "2番手以降・60%未満 {category} {score} {terms}",
+  absent: "出ていないカテゴリ {categories}",
+  notable: "目立った語 {terms}",
+  negation: "否定された表現 {terms}",
+  flipped: "否定で振り替えた語 {terms} {category}",
+  relation: "関係語の上乗せ {terms} {category} {points}",
+  relationOff: "関係語の上乗せがオフ",
+  nothing: "何も当たらなかった",
+};
+
+export const DEFAULT_NARRATIVE_PHRASES: NarrativePhrases = {
+  lead: "いちばん強く出ているのは{category}（{score}%）です。",
+  leadTie: "{categories}が同じくらい強く（{score}%）出ています。",
+  leadTerms: "主に{terms}が効いています。",
+  secondaryStrong: "{category}も{score}%と強めに出ています（{terms}）。",
+  secondaryWeak: "{category}は{score}%で、控えめに混ざっています（{terms}）。",
+  absent: "{categories}はほとんど見られません。",
+  notable: "全体で目立った語は{terms}です。",
+  negation: "否定とともに使われた表現：{terms}。",
+  flipped: "このうち{terms}は、否定の意味をくんで{category}として数えました。",
+  relation: "関係を表す語（{terms}）で、{category}に{points}点を上乗せしています。",
+  relationOff: "関係を表す語による上乗せはオフにしています。",
+  nothing: "感情を表す語は見つかりませんでした。",
+};
+
+const NOTABLE_LIMIT = 5;
+const TERMS_PER_CATEGORY = 3;
+/** これ以上は強めとして書く */
+const STRONG_SCORE = 60;
+
+export function isNarrativePhrases(v: unknown): v is Partial<NarrativePhrases> {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return false;
+  return Object.entries(v as Record<string, unknown>).every(
+    ([k, s]) => (NARRATIVE_PHRASE_KEYS as string[]).includes(k) && typeof s === "string"
+  );
+}
+
+/** 保存済みの一部だけのフレーズ集を既定で埋める */
+export function withNarrativeDefaults(p: Partial<NarrativePhrases>): NarrativePhrases {
+  return { ...DEFAULT_NARRATIVE_PHRASES, ...p };
+}
+
+function fill(template: string, vars: Record<string, string>): string {
+  return template
+    .replace(/\{([a-z]+)\}/g, (all, name: string) => (name in vars ? vars[name] : all))
+    .replace(/（\s*）|\(\s*\)/g, "");
+}
+
+const quote = (t: string) => `「${t}」`;
+const pct = (n: number) => String(Math.round(n));
+
+// カテゴリに効いた語を上から TERMS_PER_CATEGORY 個
+const topTermsOf = (result: AnalysisResult, cat: Category) =>
+  creditedTerms(result, cat).slice(0, TERMS_PER_CATEGORY).map(([k]) => k);
+
+/**
+ * 解析結果を段落の配列にする（首位 / 2番手以降 / 目立った語 / 否定 / 関係語）。
+ * relationBoost は解析のときの設定（オフだったことを書くため）
+ */
+export function buildNarrative(
+  result: AnalysisResult,
+  phrases: NarrativePhrases = DEFAULT_NARRATIVE_PHRASES,
+  opts: { relationBoost?: boolean } = {}
+): string[] {
+  const cats = Object.keys(result.normalized);
+  const score = (c: Category) => result.normalized[c] ?? 0;
+  const max = Math.max(0, ...cats.map(score));
+  if (max <= 0) return [fill(phrases.nothing, {})];
+
+  const sorted = cats.slice().sort((a, b) => score(b) - score(a));
+  const leaders = sorted.filter((c) => Math.abs(score(c) - max) <= 0.0001);
+  const rest = sorted.filter((c) => !leaders.includes(c));
+  const paragraphs: string[] = [];
+
+  // ▼ 首位
+  const leadTerms = [...new Set(leaders.flatMap((c) => topTermsOf(result, c)))];
+  paragraphs.push(
+    (leaders.length === 1
+      ? fill(phrases.lead, { category: leaders[0], score: pct(max) })
+      : fill(phrases.leadTie, { categories: leaders.join("・"), score: pct(max) })) +
+      (leadTerms.length ? fill(phrases.leadTerms, { terms: leadTerms.map(quote).join("、") }) : "")
+  );
+
+  // ▼ 2番手以降（出ていないものはまとめて1文）
+  const present = rest.filter((c) => score(c) > 0);
+  const absent = rest.filter((c) => score(c) <= 0);
+  const secondary = present.map((c) =>
+    fill(score(c) >= STRONG_SCORE ? phrases.secondaryStrong : phrases.secondaryWeak, {
+      category: c,
+      score: pct(score(c)),
+      terms: topTermsOf(result, c).map(quote).join("、"),
+    })
+  );
+  if (absent.length) secondary.push(fill(phrases.absent, { categories: absent.join("・") }));
+  if (secondary.length) paragraphs.push(secondary.join(""));
+
+  // ▼ 目立った語（カテゴリをまたいで加点の大きい順）
+  const notable = cats
+    .flatMap((c) => creditedTerms(result, c).map(([term, v]) => ({ term, cat: c, v })))
+    .sort((a, b) => b.v - a.v)
+    .slice(0, NOTABLE_LIMIT);
+  if (notable.length > 1) {
+    paragraphs.push(fill(phrases.notable, { terms: notable.map((n) => `${quote(n.term)}（${n.cat}）`).join("、") }));
+  }
+
+  // ▼ 否定
+  const negated = result.matches.filter((m) => m.kind === "lexeme" && (m.negationCount ?? 0) % 2 === 1);
+  if (negated.length) {
+    const expr = [...new Set(negated.map((m) => `${quote(m.term)}…${m.negation ?? ""}`))];
+    let para = fill(phrases.negation, { terms: expr.join("、") });
+    const flippedTo = [...new Set(negated.flatMap((m) => (m.flippedTo ? [m.flippedTo] : [])))];
+    for (const to of flippedTo) {
+      const terms = [...new Set(negated.filter((m) => m.flippedTo === to).map((m) => quote(m.term)))];
+      para += fill(phrases.flipped, { terms: terms.join("、"), category: to });
+    }
+    paragraphs.push(para);
+  }
+
+  // ▼ 関係語（点はスコアと同じく倍率 scale をかけた値で書く）
+  if (opts.relationBoost === false) {
+    paragraphs.push(fill(phrases.relationOff, {}));
+  } else {
+    const relation = result.matches.filter((m) => m.kind === "relation");
+    const byCat = new Map<Category, { terms: Set<string>; points: number }>();
+    for (const m of relation) {
+      for (const c of m.categories) {
+        const e = byCat.get(c) ?? { terms: new Set<string>(), points: 0 };
+        e.terms.add(m.term);
+        e.points += m.delta * result.scale;
+        byCat.set(c, e);
+      }
+    }
+    const lines = [...byCat].map(([c, e]) =>
+      fill(phrases.relation, {
+        terms: [...e.terms].map(quote).join("、"),
+        category: c,
+        points: String(Math.round(e.points * 10) / 10),
+      })
+    );
+    if (lines.length) paragraphs.push(lines.join(""));
+  }
+
+  return paragraphs;
+}
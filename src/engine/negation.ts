@@ -0,0 +1,66 @@
+// ===== 否定のスコープ判定 =====
+// 語の直後から節の切れ目までを「スコープ」とし、その中の否定マーカーを数える。
+// - 奇数個 → 否定（0点、または語に指定された反対カテゴリへ振り替え）
+// - 偶数個 → 二重否定（「好きじゃないわけじゃない」）として打ち消し、少しだけ弱める
+// スコープはひらがなの連なり（活用語尾・助動詞）だけで、漢字・カタカナ・記号が来たら終わる。
+// これで「会いたくない」は否定、「会いたい人がいない」は否定しない。
+
+/** 既定の否定マーカー（修飾語辞書で差し替え可） */
+export const NEGATIONS = [
+  "じゃありません", "ではありません", "じゃなかった", "ではなかった",
+  "じゃない", "ではない", "なかった", "ません", "ない", "なく", "ず", "ぬ",
+];
+
+// 1文字のマーカー（ず・ぬ など）は誤爆しやすいので、語に直結（未然形の1文字まで）していて、
+// 後ろが「に・と・も・ま・は」か終わりのときだけ数える（「泣かずに」はOK、「ずっと」「ぬいぐるみ」はNG）
+const SHORT_MARKER_NEXT = "にともまは";
+
+// スコープの切れ目：接続助詞（ここから先は別の節）と、前の語を名詞に係らせる形式名詞
+const SCOPE_BREAKS = ["けれど", "けど", "のに", "ので", "から", "を", "もの", "ひと", "とき", "ところ"];
+
+/** スコープの最大長（文字） */
+const SCOPE_MAX = 16;
+
+/** 二重否定で打ち消されたときの係数（肯定だが言い切りより弱い） */
+export const DOUBLE_NEGATION_FACTOR = 0.8;
+
+/** 否定で反対カテゴリへ振り替えるときの係数 */
+export const NEGATION_FLIP_FACTOR = 0.5;
+
+export interface NegationScope {
+  /** スコープとして見た文字列 */
+  scope: string;
+  /** 見つかった否定マーカー（出現順） */
+  markers: string[];
+}
+
+function isHiragana(ch: string): boolean {
+  return (ch >= "ぁ" && ch <= "ゖ") || ch === "ー";
+}
+
+/** text の pos から始まるスコープを切り出して否定マーカーを数える */
+export function scanNegation(text: string, pos: number, negations: string[] = NEGATIONS): NegationScope {
+  // 長いもの優先で照合する
+  const sorted = negations.slice().sort((a, b) => b.length - a.length);
+  let end = pos;
+  while (end < text.length && end - pos < SCOPE_MAX && isHiragana(text[end])) end++;
+  let scope = text.slice(pos, end);
+  for (const br of SCOPE_BREAKS) {
+    const i = scope.indexOf(br);
+    if (i >= 0) scope = scope.slice(0, i);
+  }
+
+  const markers: string[] = [];
+  let p = 0;
+  while (p < scope.length) {
+    const m = sorted.find((n) => n && scope.startsWith(n, p));
+    if (!m) { p++; continue; }
+    if (m.length === 1) {
+      const next = scope[p + 1];
+      if (p > 1 || (next !== undefined && !SHORT_MARKER_NEXT.includes(next))) { p++; continue; }
+    }
+    markers.push(m);
+    p += m.length;
+  }
+  return { scope, markers };
+}
@@ -0,0 +1,158 @@
+import type { Lexicon, Modifiers, ModifierKind, NormalizeOptions, NormalizeStep } from "./types";
+
+// ===== 照合前の正規化（本文・辞書の両方に同じ手順をかける） =====
+// 「ｷﾞｭｰ」「ぎゅ〜〜」「ぎゅーーー」を同じ「ぎゅー」として当てるための前処理。
+// 文字数が変わるので、正規化後の各文字が元テキストのどこから来たかを控えておき、ハイライトに使う。
+
+export const NORMALIZE_STEPS: NormalizeStep[] = ["nfkc", "foldKana", "longVowel", "smallKana", "collapseRepeats", "foldCase"];
+
+export const NORMALIZE_STEP_LABEL: Record<NormalizeStep, string> = {
+  nfkc: "全角・半角をそろえる（NFKC）",
+  foldKana: "カタカナをひらがなに寄せる",
+  longVowel: "伸ばし棒をそろえる（〜・～・ｰ → ー）",
+  smallKana: "小さい仮名を大きく（ぁ → あ）",
+  collapseRepeats: "繰り返しを畳む（ーーー → ー、ああああ → ああ）",
+  foldCase: "英字の大文字・小文字をそろえる",
+};
+
+/** おすすめの手順（アプリ・CLI とも既定は正規化なし）。仮名の寄せ方は辞書の書き方に左右されるので入れていない */
+export const DEFAULT_NORMALIZE: NormalizeOptions = {
+  nfkc: true,
+  foldKana: false,
+  longVowel: true,
+  smallKana: false,
+  collapseRepeats: true,
+  foldCase: false,
+};
+
+export interface NormalizedText {
+  text: string;
+  /** 正規化後の i 文字目（UTF-16 単位）の元テキスト上の開始位置 */
+  starts: number[];
+  /** 同じく終了位置（畳まれた文字のぶんも含む） */
+  ends: number[];
+}
+
+const SMALL_KANA = "ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ";
+const LARGE_KANA = "あいうえおつやゆよわかけアイウエオツヤユヨワカケ";
+// 仮名の後ろに来たときだけ長音とみなす（「1〜2」「A-B」はそのまま）
+const LONG_VOWEL_MARKS = new Set(["〜", "〰", "～", "~", "ｰ", "−", "‐", "―", "─", "-", "⁓"]);
+// 何個続いても1個に畳む文字
+const COLLAPSE_TO_ONE = new Set(["ー", "っ", "ッ"]);
+// 直前の文字にくっつけて1まとまりで正規化する文字（濁点・半濁点・結合文字・異体字セレクタ）
+const COMBINING = /^[\u0300-\u036F\u3099\u309A\uFF9E\uFF9F\uFE00-\uFE0F]$/u;
+
+function isKana(ch: string): boolean {
+  return /^[\u3041-\u309F\u30A0-\u30FF]$/u.test(ch);
+}
+
+function isLetter(ch: string): boolean {
+  return /^[\p{L}\p{M}ー]$/u.test(ch);
+}
+
+export function isNormalizeEnabled(opts?: NormalizeOptions): boolean {
+  return !!opts && NORMALIZE_STEPS.some((s) => opts[s]);
+}
+
+/** 正規化して、元テキストへの位置の対応表も返す */
+export function normalizeText(text: string, opts: NormalizeOptions): NormalizedText {
+  const out: string[] = [];
+  const starts: number[] = [];
+  const ends: number[] = [];
+  // 直前に出した1文字（コードポイント）と、その連続数
+  let prev = "";
+  let run = 0;
+  let prevFrom = 0;
+
+  const cps = Array.from(text);
+  let pos = 0;
+  for (let i = 0; i < cps.length; ) {
+    // 1まとまり（基底文字 + 後続の結合文字）
+    let cluster = cps[i++];
+    while (i < cps.length && COMBINING.test(cps[i])) cluster += cps[i++];
+    const start = pos;
+    pos += cluster.length;
+
+    const chars = Array.from(opts.nfkc ? cluster.normalize("NFKC") : cluster);
+    for (let ch of chars) {
+      if (opts.foldKana && ch >= "ァ" && ch <= "ヶ") {
+        ch = String.fromCharCode(ch.charCodeAt(0) - 0x60);
+      }
+      if (opts.smallKana) {
+        const k = SMALL_KANA.indexOf(ch);
+        if (k >= 0) ch = LARGE_KANA[k];
+      }
+      if (opts.foldCase) {
+        if (ch >= "A" && ch <= "Z") ch = ch.toLowerCase();
+        else if (ch === "’") ch = "'";
+      }
+      if (opts.longVowel && LONG_VOWEL_MARKS.has(ch) && isKana(prev)) ch = "ー";
+
+      if (opts.collapseRepeats && ch === prev && isLetter(ch)) {
+        if (COLLAPSE_TO_ONE.has(ch) || run >= 2) {
+          // 畳んだ文字は直前の文字の範囲に含める
+          for (let k = prevFrom; k < ends.length; k++) ends[k] = pos;
+          continue;
+        }
+      }
+      run = ch === prev ? run + 1 : 1;
+      prev = ch;
+      prevFrom = out.length;
+      for (let k = 0; k < ch.length; k++) {
+        out.push(ch[k]);
+        starts.push(start);
+        ends.push(pos);
+      }
+    }
+  }
+  return { text: out.join(""), starts, ends };
+}
+
+/** 辞書語・修飾語用（位置の対応は要らない） */
+export function normalizeTerm(term: string, opts: NormalizeOptions): string {
+  return normalizeText(term, opts).text;
+}
+
+/** 正規化後の [index, index+length) を元テキストの範囲に戻す */
+export function toOriginalSpan(n: NormalizedText, index: number, length: number): { start: number; end: number } {
+  if (length <= 0) {
+    const s = index < n.starts.length ? n.starts[index] : (n.ends[n.ends.length - 1] ?? 0);
+    return { start: s, end: s };
+  }
+  return { start: n.starts[index], end: n.ends[index + length - 1] };
+}
+
+function optionsKey(opts: NormalizeOptions): string {
+  return NORMALIZE_STEPS.map((s) => (opts[s] ? "1" : "0")).join("");
+}
+
+// 辞書は解析のたびに正規化し直さないよう、元のオブジェクトごとに持っておく
+// （同じオブジェクトを返せば getCompiledLexicon の使い回しも効く）
+const lexiconCache = new WeakMap<Lexicon, { key: string; value: Lexicon }>();
+const modifiersCache = new WeakMap<Modifiers, { key: string; value: Modifiers }>();
+
+/** 語句を正規化した辞書（並び順は元と同じ。正規表現の語はそのまま） */
+export function normalizeLexicon(lexicon: Lexicon, opts: NormalizeOptions): Lexicon {
+  const key = optionsKey(opts);
+  const hit = lexiconCache.get(lexicon);
+  if (hit && hit.key === key) return hit.value;
+  const value = { ...lexicon };
+  for (const c of Object.keys(lexicon)) {
+    value[c] = lexicon[c].map((lex) =>
+      lex.match === "regex" ? lex : { ...lex, term: normalizeTerm(lex.term, opts) });
+  }
+  lexiconCache.set(lexicon, { key, value });
+  return value;
+}
+
+export function normalizeModifiers(modifiers: Modifiers, opts: NormalizeOptions): Modifiers {
+  const key = optionsKey(opts);
+  const hit = modifiersCache.get(modifiers);
+  if (hit && hit.key === key) return hit.value;
+  const value = { ...modifiers };
+  for (const kind of Object.keys(modifiers) as ModifierKind[]) {
+    value[kind] = modifiers[kind].map((m) => ({ ...m, term: normalizeTerm(m.term, opts) }));
+  }
+  modifiersCache.set(modifiers, { key, value });
+  return value;
+}
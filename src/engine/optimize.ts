@@ -0,0 +1,173 @@
+import { analyze } from "./analyze";
+import { categoriesOf } from "./categories";
+import { evaluateCorpus, type EvalExample, type EvalReport } from "./evaluate";
+import type { AnalyzeOptions, Category, Lexicon } from "./types";
+
+// ===== 辞書の重みの自動調整 =====
+// ラベル付きコーパスに合うように辞書語の重みを探して、変更案（差分）として返す。
+// 辞書そのものは書き換えない。どれを採るかは辞書エディタで1件ずつ選んでもらう。
+//
+// やり方：各例を今の辞書で1回だけ解析し、カテゴリの合計を「辞書語の重み × 補正の積」の和と、
+// それ以外（関係語・絵文字・書き方の特徴）の定数に分ける。この線形の近似の上で、
+// 期待カテゴリの確率（softmax）の対数尤度を勾配法で上げる。今の重みからの離れ具合には
+// L2 の罰則を掛けて、少ない例に合わせすぎないようにする。
+// 重なりの間引きや減点の下限は近似では無視するので、前後の正解率は実際に解析し直して出す。
+
+/** 辞書エディタで入れられる重みの範囲 */
+export const WEIGHT_MIN = 0.1;
+export const WEIGHT_MAX = 5.0;
+
+export interface WeightChange {
+  category: Category;
+  /** タブの中の位置 */
+  index: number;
+  term: string;
+  from: number;
+  to: number;
+  /** この語が当たった例の数 */
+  support: number;
+}
+
+export interface OptimizeOptions {
+  /** 今の重みから離れることへの罰則の強さ（大きいほど控えめな提案。既定 0.1） */
+  regularization?: number;
+  /** 勾配法の繰り返し回数（既定 300） */
+  iterations?: number;
+  /** 1回あたりの歩幅（既定 0.5） */
+  learningRate?: number;
+  /** softmax の温度（合計の差をどれだけ確率の差として見るか。既定 1） */
+  temperature?: number;
+}
+
+export interface WeightSuggestion {
+  /** 変わる語だけ（重みの変化の大きい順） */
+  changes: WeightChange[];
+  /** 今の辞書での評価 */
+  before: EvalReport;
+  /** 全部の変更を採ったときの評価 */
+  after: EvalReport;
+  /** 期待カテゴリがどれも辞書に無くて使わなかった例 */
+  skipped: EvalExample[];
+}
+
+const entryKey = (category: Category, index: number) => `${category}\u0000${index}`;
+
+interface Row {
+  /** 辞書語以外の加点（全体補正込み） */
+  base: number[];
+  /** 辞書語ごとの「重み1あたり」のカテゴリ別の加点（全体補正込み） */
+  features: Array<{ k: number; x: number[] }>;
+  /** 期待カテゴリの列番号 */
+  lead: number[];
+}
+
+/** 0.1 刻みに丸めて範囲に収める */
+function roundWeight(w: number): number {
+  return Math.min(WEIGHT_MAX, Math.max(WEIGHT_MIN, Math.round(w * 10) / 10));
+}
+
+export function suggestWeights(
+  examples: EvalExample[],
+  lexicon: Lexicon,
+  options: AnalyzeOptions = {},
+  opt: OptimizeOptions = {}
+): WeightSuggestion {
+  const lambda = opt.regularization ?? 0.1;
+  const iterations = opt.iterations ?? 300;
+  const rate = opt.learningRate ?? 0.5;
+  const temperature = opt.temperature ?? 1;
+  const categories = categoriesOf(lexicon);
+  const col = new Map(categories.map((c, i) => [c, i]));
+
+  // ▼ 例ごとに線形の形へ分解する
+  const keys: Array<{ category: Category; index: number }> = [];
+  const keyIndex = new Map<string, number>();
+  const support: number[] = [];
+  const rows: Row[] = [];
+  const skipped: EvalExample[] = [];
+  for (const example of examples) {
+    const lead = example.lead.flatMap((c) => (col.has(c) ? [col.get(c)!] : []));
+    if (!lead.length) {
+      skipped.push(example);
+      continue;
+    }
+    const result = analyze(example.text, lexicon, options);
+    const base = categories.map((c) => result.raw[c]);
+    const byKey = new Map<number, number[]>();
+    for (const m of result.matches) {
+      if (m.kind !== "lexeme" || !m.entry || !m.weight) continue;
+      const key = entryKey(m.entry.category, m.entry.index);
+      let k = keyIndex.get(key);
+      if (k === undefined) {
+        k = keys.length;
+        keyIndex.set(key, k);
+        keys.push(m.entry);
+        support.push(0);
+      }
+      const x = byKey.get(k) ?? categories.map(() => 0);
+      for (const c of m.categories) {
+        const per = (m.delta / m.weight) * result.scale;
+        x[col.get(c)!] += per;
+        base[col.get(c)!] -= m.delta * result.scale;
+      }
+      byKey.set(k, x);
+    }
+    for (const k of byKey.keys()) support[k]++;
+    rows.push({ base, features: [...byKey].map(([k, x]) => ({ k, x })), lead });
+  }
+
+  // ▼ 射影つきの勾配法（平均の負の対数尤度 + λ·Σ(w − w₀)²）
+  const initial = keys.map(({ category, index }) => lexicon[category][index].weight ?? 1);
+  const w = [...initial];
+  const n = Math.max(1, rows.length);
+  for (let it = 0; it < iterations && keys.length; it++) {
+    const grad = w.map((wk, k) => 2 * lambda * (wk - initial[k]));
+    for (const row of rows) {
+      const z = [...row.base];
+      for (const { k, x } of row.features) x.forEach((v, c) => { z[c] += w[k] * v; });
+      const max = Math.max(...z);
+      const e = z.map((v) => Math.exp((v - max) / temperature));
+      const total = e.reduce((s, v) => s + v, 0);
+      const leadTotal = row.lead.reduce((s, c) => s + e[c], 0);
+      // ∂(−log Σ_{lead} p) / ∂z_c = p_c − [c ∈ lead]·p_c / Σ_{lead} p
+      const g = e.map((v, c) => (v / total - (row.lead.includes(c) ? v / leadTotal : 0)) / temperature);
+      for (const { k, x } of row.features) {
+        grad[k] += x.reduce((s, v, c) => s + v * g[c], 0) / n;
+      }
+    }
+    for (let k = 0; k < w.length; k++) {
+      w[k] = Math.min(WEIGHT_MAX, Math.max(WEIGHT_MIN, w[k] - rate * grad[k]));
+    }
+  }
+
+  const changes: WeightChange[] = keys
+    .map(({ category, index }, k) => ({
+      category,
+      index,
+      term: lexicon[category][index].term,
+      from: initial[k],
+      to: roundWeight(w[k]),
+      support: support[k],
+    }))
+    .filter((c) => Math.abs(c.to - c.from) >= 0.05)
+    .sort((a, b) => Math.abs(b.to - b.from) - Math.abs(a.to - a.from) || b.support - a.support);
+
+  return {
+    changes,
+    before: evaluateCorpus(examples, lexicon, options),
+    after: evaluateCorpus(examples, applyWeightChanges(lexicon, changes), options),
+    skipped,
+  };
+}
+
+/** 選んだ変更だけを辞書に当てる（位置と語がずれていたら当てない） */
+export function applyWeightChanges(lexicon: Lexicon, changes: WeightChange[]): Lexicon {
+  const out: Lexicon = { ...lexicon };
+  for (const ch of changes) {
+    const list = out[ch.category];
+    if (!list || list[ch.index]?.term !== ch.term) continue;
+    if (list === lexicon[ch.category]) out[ch.category] = [...list];
+    out[ch.category][ch.index] = { ...list[ch.index], weight: ch.to };
+  }
+  return out;
+}
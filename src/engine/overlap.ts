@@ -0,0 +1,99 @@
+import type { Category, Lexicon, OverlapPolicy } from "./types";
+
+// ===== 重なった辞書語の整理 =====
+// 「愛してる」と「愛してるよ」、「ぎゅ」と「ぎゅー」のように、本文の同じ箇所に
+// 複数の辞書語が当たったときにどれを数えるかを決める。
+
+export const OVERLAP_POLICIES: OverlapPolicy[] = ["all", "longest", "weight"];
+
+export const OVERLAP_POLICY_LABEL: Record<OverlapPolicy, string> = {
+  all: "すべて数える",
+  longest: "長い語を優先",
+  weight: "重い語を優先",
+};
+
+/** 重なり判定に使う最小限の形（index/length は本文上の位置、weight は語の重み） */
+export interface OverlapCandidate {
+  index: number;
+  length: number;
+  weight: number;
+}
+
+function rank(policy: OverlapPolicy) {
+  return (a: OverlapCandidate, b: OverlapCandidate): number =>
+    policy === "weight"
+      ? b.weight - a.weight || b.length - a.length || a.index - b.index
+      : b.length - a.length || b.weight - a.weight || a.index - b.index;
+}
+
+/**
+ * 方針に従って、重なったヒットのうち勝ったものだけを残す。
+ * 優先順に並べて、まだ誰にも取られていない範囲のヒットだけを採る。返す順番は元の並びのまま。
+ */
+export function resolveOverlaps<T extends OverlapCandidate>(hits: T[], policy: OverlapPolicy): T[] {
+  if (policy === "all" || hits.length < 2) return hits;
+  const end = hits.reduce((m, h) => Math.max(m, h.index + h.length), 0);
+  const taken = new Uint8Array(end);
+  const cmp = rank(policy);
+  const order = hits.map((_, i) => i).sort((a, b) => cmp(hits[a], hits[b]) || a - b);
+  const keep = new Set<number>();
+  for (const i of order) {
+    const { index, length } = hits[i];
+    let free = true;
+    for (let p = index; p < index + length; p++) {
+      if (taken[p]) { free = false; break; }
+    }
+    if (!free) continue;
+    taken.fill(1, index, index + length);
+    keep.add(i);
+  }
+  return hits.filter((_, i) => keep.has(i));
+}
+
+// ===== 辞書エディタ向け：重なりグループ =====
+
+export interface OverlapEntry {
+  /** 登録されているタブ */
+  category: Category;
+  term: string;
+  weight: number;
+}
+
+/** outer の語句が本文に出たとき、一緒に当たってしまう inner の語（outer の部分文字列） */
+export interface OverlapGroup {
+  outer: OverlapEntry;
+  inner: OverlapEntry[];
+}
+
+/**
+ * 辞書の中で、ある語句が別の語句を含んでいる組をまとめる。
+ * 正規表現の語は本文を見ないと分からないので対象外。
+ */
+export function findOverlapGroups(lexicon: Lexicon): OverlapGroup[] {
+  const entries: OverlapEntry[] = [];
+  for (const [category, list] of Object.entries(lexicon) as [Category, Lexicon[Category]][]) {
+    for (const lex of list) {
+      if (lex.match === "regex" || !lex.term) continue;
+      entries.push({ category, term: lex.term, weight: lex.weight ?? 1 });
+    }
+  }
+  const groups: OverlapGroup[] = [];
+  entries.forEach((outer, i) => {
+    const inner = entries.filter((e, j) =>
+      j !== i && outer.term.includes(e.term) && (e.term.length < outer.term.length || j > i));
+    if (inner.length) groups.push({ outer, inner });
+  });
+  return groups.sort((a, b) => b.inner.length - a.inner.length || b.outer.term.length - a.outer.term.length);
+}
+
+/** outer の語句が1回出たとき、方針ごとに数えられる語（outer の中での当たり方をそのまま再現する） */
+export function overlapWinners(group: OverlapGroup, policy: OverlapPolicy): OverlapEntry[] {
+  const hits = [group.outer, ...group.inner].flatMap((entry) => {
+    const out: Array<OverlapCandidate & { entry: OverlapEntry }> = [];
+    for (let p = group.outer.term.indexOf(entry.term); p >= 0; p = group.outer.term.indexOf(entry.term, p + entry.term.length)) {
+      out.push({ index: p, length: entry.term.length, weight: entry.weight, entry });
+    }
+    return out;
+  });
+  return [...new Set(resolveOverlaps(hits, policy).map((h) => h.entry))];
+}
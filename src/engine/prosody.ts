@@ -0,0 +1,80 @@
+import type { Category, ModifierEntry } from "./types";
+
+// ===== 書き方の特徴（プロソディ） =====
+// 「…」「〜」「w」「笑」「？！」や伸ばした語など、辞書語の外にある書き方の癖を拾う。
+// 修飾語辞書の prosody に「特徴 → カテゴリ・1回あたりの加点」を並べて使う。
+// 加点はマイナスも可（「w」で悲しみを下げる、など）。感嘆符だけは従来どおり全体補正（scale）で扱う。
+
+export type ProsodyMarker = "ellipsis" | "tilde" | "laugh" | "burst" | "stretch";
+
+export const PROSODY_MARKERS: ProsodyMarker[] = ["ellipsis", "tilde", "laugh", "burst", "stretch"];
+
+export const PROSODY_MARKER_LABEL: Record<ProsodyMarker, string> = {
+  ellipsis: "…（三点リーダー）",
+  tilde: "〜（波線）",
+  laugh: "w・笑（笑い）",
+  burst: "？！・？？（記号の連打）",
+  stretch: "ーー・あああ（伸ばし）",
+};
+
+/** 内訳（details）に出すときの短い名前 */
+export const PROSODY_MARKER_SYMBOL: Record<ProsodyMarker, string> = {
+  ellipsis: "…",
+  tilde: "〜",
+  laugh: "w",
+  burst: "？！",
+  stretch: "ー",
+};
+
+/** 1つの特徴を数える上限（「…」だらけの長文で振り切れないように） */
+export const PROSODY_MAX_HITS = 3;
+
+const KANA = "\\p{sc=Hiragana}\\p{sc=Katakana}";
+// 文・句の切れ目（「笑」を動詞の「笑う」と分けるため）
+const CLAUSE_END = "(?=$|[\\s。、．，！!？?…」』）)])";
+
+const PATTERNS: Record<ProsodyMarker, RegExp> = {
+  ellipsis: /…+|‥+|\.{3,}|・{3,}|。{2,}/gu,
+  // 仮名の後ろの波線だけ（「10〜20」の範囲は数えない）
+  tilde: new RegExp(`(?<=[${KANA}ー])[〜～~]+`, "gu"),
+  // 英単語の中の w は数えない
+  laugh: new RegExp(`(?<![A-Za-zＡ-Ｚａ-ｚ])[wｗ]+(?![A-Za-zＡ-Ｚａ-ｚ])|[（(]笑[）)]|笑${CLAUSE_END}`, "gu"),
+  // 「？」を含む連打（「！」だけの連打は感嘆符の全体補正に任せる）
+  burst: /[!！?？]*[?？][!！?？]*/gu,
+  // 同じ仮名3つ以上、または仮名の後ろの長音2つ以上
+  stretch: new RegExp(`([${KANA}])\\1{2,}ー*|(?<=[${KANA}])ー{2,}`, "gu"),
+};
+
+export interface ProsodyHit {
+  marker: ProsodyMarker;
+  index: number;
+  length: number;
+  /** 本文に出てきたままの形 */
+  text: string;
+}
+
+export function isProsodyMarker(v: string): v is ProsodyMarker {
+  return (PROSODY_MARKERS as string[]).includes(v);
+}
+
+/** 本文の中の特徴を、特徴ごとに PROSODY_MAX_HITS 個まで拾う */
+export function findProsody(text: string, markers: ProsodyMarker[] = PROSODY_MARKERS): ProsodyHit[] {
+  const hits: ProsodyHit[] = [];
+  for (const marker of markers) {
+    let n = 0;
+    for (const m of text.matchAll(PATTERNS[marker])) {
+      // burst は「？」1つだけなら普通の疑問文
+      if (marker === "burst" && m[0].length < 2) continue;
+      hits.push({ marker, index: m.index ?? 0, length: m[0].length, text: m[0] });
+      if (++n >= PROSODY_MAX_HITS) break;
+    }
+  }
+  return hits.sort((a, b) => a.index - b.index);
+}
+
+/** 修飾語辞書の prosody のうち、使える項目（term が特徴の名前で、加点先がある） */
+export function prosodyRules(entries: ModifierEntry[]): Array<ModifierEntry & { term: ProsodyMarker; category: Category }> {
+  return entries.filter(
+    (e): e is ModifierEntry & { term: ProsodyMarker; category: Category } => isProsodyMarker(e.term) && !!e.category
+  );
+}
@@ -0,0 +1,59 @@
+import { absoluteScore, analyze, emptyScores } from "./analyze";
+import { detectLanguage } from "./english";
+import { categoriesOf } from "./categories";
+import {
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type CategoryScores,
+  type Lexicon,
+} from "./types";
+
+// ===== 文ごとのタイムライン =====
+export interface Segment {
+  /** 元テキスト上の開始位置（含む） */
+  start: number;
+  /** 元テキスト上の終了位置（含まない） */
+  end: number;
+  text: string;
+}
+
+export interface TimelinePoint extends Segment {
+  index: number;
+  /** 文の強さ（文どうしで比べられる）。relative は全文中の最大値を100、absolute は解析と同じ絶対スコア */
+  scores: CategoryScores;
+  result: AnalysisResult;
+}
+
+// 。！？（半角 !? も）と改行で区切る。句読点は直前の文に含める
+const SENTENCE_RE = /[^。！？!?\r\n]+[。！？!?]*|[。！？!?]+/g;
+
+export function splitSentences(text: string): Segment[] {
+  const out: Segment[] = [];
+  for (const m of text.matchAll(SENTENCE_RE)) {
+    const raw = m[0];
+    const lead = raw.length - raw.trimStart().length;
+    const body = raw.trim();
+    if (!body) continue;
+    const start = (m.index ?? 0) + lead;
+    out.push({ start, end: start + body.length, text: body });
+  }
+  return out;
+}
+
+export function analyzeTimeline(text: string, lexicon: Lexicon, options: AnalyzeOptions = {}): TimelinePoint[] {
+  const segs = splitSentences(text);
+  // 言語は文ごとではなく全体で決める（短い文の推定ぶれで辞書が入れ替わらないように）
+  const language = options.language && options.language !== "auto" ? options.language : detectLanguage(text);
+  const results = segs.map((s) => analyze(s.text, lexicon, { ...options, language }));
+  const cats = categoriesOf(lexicon);
+  // 文の数が多いとスプレッドで引数が溢れるのでループで取る
+  let maxv = 0.0001;
+  for (const r of results) for (const c of cats) if (r.raw[c] > maxv) maxv = r.raw[c];
+  const absolute = options.scoring === "absolute";
+  return segs.map((s, index) => {
+    const result = results[index];
+    const scores = emptyScores(cats);
+    for (const c of cats) scores[c] = absolute ? absoluteScore(result.raw[c]) : (result.raw[c] / maxv) * 100;
+    return { ...s, index, scores, result };
+  });
+}
@@ -0,0 +1,117 @@
+import DynamicDictionaries from "kuromoji/src/dict/DynamicDictionaries";
+import Tokenizer from "kuromoji/src/Tokenizer";
+import type { IpadicFeatures, Tokenizer as KuromojiTokenizer } from "kuromoji";
+import type { Lexicon } from "./types";
+
+// ===== 形態素解析（見出し語モード用） =====
+// kuromoji と同梱の IPADIC 辞書で本文を分かち書きし、各語の辞書形（原形）を得る。
+// 辞書は十数MBあるので、見出し語モードの語が辞書にあるときだけ読み込む（画面・ワーカー・CLI それぞれで1回）。
+// 辞書ファイルの取り出し方は環境ごとに違うので、読み込む側が DictSource を渡す（ブラウザは tokenizerBrowser.ts、CLI は cli/tokenizerNode.ts）。
+
+export const DICT_FILES = [
+  "base.dat.gz", "check.dat.gz",
+  "tid.dat.gz", "tid_pos.dat.gz", "tid_map.dat.gz",
+  "cc.dat.gz",
+  "unk.dat.gz", "unk_pos.dat.gz", "unk_map.dat.gz", "unk_char.dat.gz", "unk_compat.dat.gz", "unk_invoke.dat.gz",
+] as const;
+
+export type DictFile = (typeof DICT_FILES)[number];
+
+/** 辞書ファイル1つの中身（gzip のままでも、展開済みでもよい） */
+export type DictSource = (file: DictFile) => Promise<ArrayBuffer>;
+
+export interface Token {
+  surface: string;
+  /** 辞書形（辞書に無い語は表層形） */
+  basic: string;
+  /** 元テキスト上の位置（end は含まない） */
+  start: number;
+  end: number;
+}
+
+let tokenizer: KuromojiTokenizer<IpadicFeatures> | null = null;
+let loading: Promise<void> | null = null;
+
+// 配信側で展開済みのこともあるので、gzip の頭（1f 8b）があるときだけ展開する
+async function gunzip(buf: ArrayBuffer): Promise<ArrayBuffer> {
+  const head = new Uint8Array(buf, 0, Math.min(2, buf.byteLength));
+  if (head[0] !== 0x1f || head[1] !== 0x8b) return buf;
+  const stream = new Blob([buf]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).arrayBuffer();
+}
+
+/** 辞書を読み込む（2回目以降は同じ Promise。失敗したら次の呼び出しで読み直す） */
+export function loadTokenizer(source: DictSource): Promise<void> {
+  if (tokenizer) return Promise.resolve();
+  loading ??= (async () => {
+    const entries = await Promise.all(DICT_FILES.map(async (f) => [f, await gunzip(await source(f))] as const));
+    const buf = Object.fromEntries(entries) as Record<DictFile, ArrayBuffer>;
+    const dic = new DynamicDictionaries();
+    dic.loadTrie(new Int32Array(buf["base.dat.gz"]), new Int32Array(buf["check.dat.gz"]));
+    dic.loadTokenInfoDictionaries(
+      new Uint8Array(buf["tid.dat.gz"]),
+      new Uint8Array(buf["tid_pos.dat.gz"]),
+      new Uint8Array(buf["tid_map.dat.gz"])
+    );
+    dic.loadConnectionCosts(new Int16Array(buf["cc.dat.gz"]));
+    dic.loadUnknownDictionaries(
+      new Uint8Array(buf["unk.dat.gz"]),
+      new Uint8Array(buf["unk_pos.dat.gz"]),
+      new Uint8Array(buf["unk_map.dat.gz"]),
+      new Uint8Array(buf["unk_char.dat.gz"]),
+      new Uint32Array(buf["unk_compat.dat.gz"]),
+      new Uint8Array(buf["unk_invoke.dat.gz"])
+    );
+    tokenizer = new Tokenizer(dic);
+  })().catch((e) => {
+    loading = null;
+    throw e;
+  });
+  return loading;
+}
+
+export function tokenizerReady(): boolean {
+  return tokenizer !== null;
+}
+
+/** 辞書に見出し語モードの語があるか（= 形態素解析の辞書が要るか） */
+export function needsTokenizer(lexicon: Lexicon): boolean {
+  return Object.values(lexicon).some((list) => list.some((l) => l.match === "lemma" && !!l.term));
+}
+
+const CHUNK_MAX = 1000;
+
+/**
+ * 本文を分かち書きする。位置は表層形の長さを積み上げて出す（kuromoji の word_position は文をまたぐとずれるため）。
+ * 辞書を読み込む前に呼ぶとエラー
+ */
+export function tokenize(text: string): Token[] {
+  if (!tokenizer) throw new Error("形態素解析の辞書が読み込まれていません（見出し語モードの語があるときは先に loadTokenizer が必要です）");
+  const out: Token[] = [];
+  // 改行・文末で区切って渡す（長い文のラティスでメモリを食わないように）
+  for (let from = 0; from < text.length; ) {
+    const rest = text.slice(from, from + CHUNK_MAX);
+    const cut = rest.search(/[\n。！？!?]/);
+    const chunk = cut >= 0 ? rest.slice(0, cut + 1) : rest;
+    let pos = from;
+    for (const t of tokenizer.tokenize(chunk)) {
+      const surface = t.surface_form;
+      out.push({ surface, basic: t.basic_form && t.basic_form !== "*" ? t.basic_form : surface, start: pos, end: pos + surface.length });
+      pos += surface.length;
+    }
+    from += chunk.length;
+  }
+  return out;
+}
+
+const termCache = new Map<string, string[]>();
+
+/** 見出し語を辞書形の並びにする（「会う」→ [会う]、「抱きしめる」→ [抱きしめる]） */
+export function lemmasOf(term: string): string[] {
+  let hit = termCache.get(term);
+  if (!hit) {
+    hit = tokenize(term.trim()).map((t) => t.basic);
+    termCache.set(term, hit);
+  }
+  return hit;
+}
@@ -0,0 +1,42 @@
+import baseUrl from "kuromoji/dict/base.dat.gz?url";
+import checkUrl from "kuromoji/dict/check.dat.gz?url";
+import tidUrl from "kuromoji/dict/tid.dat.gz?url";
+import tidPosUrl from "kuromoji/dict/tid_pos.dat.gz?url";
+import tidMapUrl from "kuromoji/dict/tid_map.dat.gz?url";
+import ccUrl from "kuromoji/dict/cc.dat.gz?url";
+import unkUrl from "kuromoji/dict/unk.dat.gz?url";
+import unkPosUrl from "kuromoji/dict/unk_pos.dat.gz?url";
+import unkMapUrl from "kuromoji/dict/unk_map.dat.gz?url";
+import unkCharUrl from "kuromoji/dict/unk_char.dat.gz?url";
+import unkCompatUrl from "kuromoji/dict/unk_compat.dat.gz?url";
+import unkInvokeUrl from "kuromoji/dict/unk_invoke.dat.gz?url";
+import { loadTokenizer, needsTokenizer, type DictFile } from "./tokenizer";
+import type { Lexicon } from "./types";
+
+// 画面・ワーカー用：kuromoji の同梱辞書をビルドに含め（Vite の ?url）、fetch で読む。
+// CLI からは読み込まないこと（?url は Vite でしか解決できない）
+
+const DICT_URLS: Record<DictFile, string> = {
+  "base.dat.gz": baseUrl,
+  "check.dat.gz": checkUrl,
+  "tid.dat.gz": tidUrl,
+  "tid_pos.dat.gz": tidPosUrl,
+  "tid_map.dat.gz": tidMapUrl,
+  "cc.dat.gz": ccUrl,
+  "unk.dat.gz": unkUrl,
+  "unk_pos.dat.gz": unkPosUrl,
+  "unk_map.dat.gz": unkMapUrl,
+  "unk_char.dat.gz": unkCharUrl,
+  "unk_compat.dat.gz": unkCompatUrl,
+  "unk_invoke.dat.gz": unkInvokeUrl,
+};
+
+/** 辞書が見出し語モードを使っていれば形態素解析の辞書を読み込む */
+export function prepareTokenizer(lexicon: Lexicon): Promise<void> {
+  if (!needsTokenizer(lexicon)) return Promise.resolve();
+  return loadTokenizer(async (file) => {
+    const res = await fetch(DICT_URLS[file]);
+    if (!res.ok) throw new Error(`形態素解析の辞書（${file}）を読み込めませんでした: ${res.status}`);
+    return res.arrayBuffer();
+  });
+}
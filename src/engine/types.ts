@@ -0,0 +1,169 @@
+// ===== 型定義（UI非依存） =====
+/** 感情カテゴリ（レーダーの軸）の名前。どの軸があるかは辞書のキーで決まる（categories.ts） */
+export type Category = string;
+
+/** 既定の5軸（辞書のキーの並びがレーダー・CSV・履歴の並びになる） */
+export const DEFAULT_CATEGORIES: Category[] = ["愛情", "切なさ", "悲しみ", "甘え", "欲"];
+
+/**
+ * 語の当て方
+ * - substring: 部分一致（従来どおり。未指定時の既定）
+ * - exact: 単語一致（前後が語境界）
+ * - prefix: 前方一致（語の先頭から）
+ * - lemma: 見出し語（辞書形で登録すると活用形にも当たる。日本語は kuromoji の形態素解析で原形に戻して比べる）
+ * - regex: 正規表現
+ */
+export type MatchMode = "substring" | "exact" | "prefix" | "lemma" | "regex";
+
+export interface Lexeme {
+  term: string;
+  weight?: number;
+  categories?: Category[];
+  match?: MatchMode;
+  /** 否定されたときに振り替えるカテゴリ（未指定なら 0 点） */
+  negatedTo?: Category;
+}
+
+export type Lexicon = Record<Category, Lexeme[]>;
+
+export type CategoryScores = Record<Category, number>;
+
+/** 修飾語辞書の種類 */
+export type ModifierKind = "intensifiers" | "diminishers" | "negations" | "emoji" | "kaomoji" | "bond" | "prosody";
+
+/**
+ * 修飾語1件
+ * - intensifiers / diminishers: factor は倍率。category を指定するとそのカテゴリへの加点だけに効く
+ * - negations: factor は否定されたときの倍率（通常 0）。category を指定するとそこへ振り替える
+ * - emoji / kaomoji / bond: factor は1回あたりの加点。category が加点先（bond の既定は先頭のカテゴリ）
+ * - prosody: term は書き方の特徴の名前（prosody.ts）。factor は1回あたりの加点で、マイナスなら減点
+ */
+export interface ModifierEntry {
+  term: string;
+  factor: number;
+  category?: Category;
+}
+
+export type Modifiers = Record<ModifierKind, ModifierEntry[]>;
+
+/**
+ * 正規化の方式
+ * - relative: 最大カテゴリを100%とする相対値（従来どおり）
+ * - absolute: raw を飽和曲線で 0〜100 に写す絶対値（弱い「好き」1語は低く出る）
+ */
+export type ScoringMode = "relative" | "absolute";
+
+/**
+ * 辞書語どうしが本文上で重なったときの扱い
+ * - all: すべて数える（従来どおり。「愛してるよ」は「愛してる」と二重に入る）
+ * - longest: 長い方だけ数える
+ * - weight: 重みの大きい方だけ数える（同じなら長い方）
+ */
+export type OverlapPolicy = "all" | "longest" | "weight";
+
+/**
+ * 照合前の正規化の手順（本文と辞書の両方にかける）
+ * - nfkc: 全角英数・半角カナなどを NFKC でそろえる
+ * - foldKana: カタカナをひらがなに寄せる
+ * - longVowel: 仮名の後ろの 〜・～・ｰ などを ー にそろえる
+ * - smallKana: 小書き仮名を並字にする
+ * - collapseRepeats: 同じ文字の繰り返しを畳む
+ * - foldCase: 英字を小文字に、’ を ' にそろえる（英語モードでは常にかかる）
+ */
+export type NormalizeStep = "nfkc" | "foldKana" | "longVowel" | "smallKana" | "collapseRepeats" | "foldCase";
+
+export type NormalizeOptions = Partial<Record<NormalizeStep, boolean>>;
+
+/** 解析する言語 */
+export type Language = "ja" | "en";
+
+export interface AnalyzeOptions {
+  /** 呼称・関係語で愛情に加点する（既定: true） */
+  relationBoost?: boolean;
+  /** 正規化の方式（既定: relative） */
+  scoring?: ScoringMode;
+  /** 強弱・否定・絵文字・関係語の辞書（既定: DEFAULT_MODIFIERS） */
+  modifiers?: Modifiers;
+  /** 重なった辞書語の扱い（既定: all） */
+  overlap?: OverlapPolicy;
+  /** 照合前の正規化（既定: しない） */
+  normalize?: NormalizeOptions;
+  /** 言語（既定: auto = 本文から推定） */
+  language?: Language | "auto";
+  /** 英語のときに使う辞書（既定: DEFAULT_LEXICON_EN。引数の lexicon は日本語用） */
+  englishLexicon?: Lexicon;
+  /** 英語のときに使う修飾語（既定: DEFAULT_MODIFIERS_EN） */
+  englishModifiers?: Modifiers;
+  /** 同梱の表（英語の辞書・修飾語、顔文字の推定）のカテゴリ名の読み替え（既定: そのまま） */
+  builtinCategories?: BuiltinCategoryMap;
+}
+
+/** 既定のカテゴリ名 → 今の名前（null は削除済み）。載っていない名前はそのまま */
+export type BuiltinCategoryMap = Record<Category, Category | null>;
+
+/** マッチの種類（辞書語・絵文字・関係ブースト語・書き方の特徴） */
+export type MatchKind = "lexeme" | "emoji" | "kaomoji" | "relation" | "prosody";
+
+/** 1回のマッチと、その加点に掛かった補正の内訳 */
+export interface MatchSpan {
+  kind: MatchKind;
+  /** 入力テキスト上の開始位置（含む。trim 前の元テキスト基準） */
+  start: number;
+  /** 入力テキスト上の終了位置（含まない） */
+  end: number;
+  term: string;
+  /** 辞書のどのタブの何番目の語か（日本語の辞書語のみ。英語の既定辞書には付けない） */
+  entry?: { category: Category; index: number };
+  /** 語の重み（絵文字・関係語・書き方の特徴は1回あたりの加点） */
+  weight: number;
+  /** 加点先カテゴリ */
+  categories: Category[];
+  /** 左側で効いた強調語 */
+  intensifier?: string;
+  intensifierFactor?: number;
+  /** 左側で効いた弱調語 */
+  diminisher?: string;
+  diminisherFactor?: number;
+  /** スコープ内の否定マーカー（複数なら "…" 区切り） */
+  negation?: string;
+  /** 否定マーカーの数（奇数＝否定、偶数＝二重否定で打ち消し） */
+  negationCount?: number;
+  /** 否定で掛かった倍率（振り替え時は振り替え後の倍率） */
+  negationFactor?: number;
+  /** 否定により振り替えた先のカテゴリ */
+  flippedTo?: Category;
+  /** weight に掛かった補正の積 */
+  factor: number;
+  /** カテゴリごとの加点（weight × factor、全体補正 scale の前。書き方の特徴の減点はマイナス） */
+  delta: number;
+}
+
+/** 根拠の量から見た結果の確からしさ */
+export type ConfidenceLevel = "none" | "low" | "medium" | "high";
+
+export interface Coverage {
+  /** 加点に使ったマッチの数（関係語・書き方の特徴・否定で 0 点になった語は除く） */
+  matchCount: number;
+  /** 本文のうち点に効いた辞書語・絵文字・顔文字が覆っている文字の割合（0〜1） */
+  charShare: number;
+  /** 当たった語の種類数 */
+  distinctTerms: number;
+  confidence: ConfidenceLevel;
+}
+
+export interface AnalysisResult {
+  raw: CategoryScores;
+  normalized: CategoryScores;
+  /** カテゴリごとの寄与語と加点（"__" で始まるキーはメタ情報） */
+  details: Map<Category, Map<string, number>>;
+  /** マッチ位置と補正の一覧（出現順） */
+  matches: MatchSpan[];
+  /** 感嘆符・文長による全体補正（raw = Σdelta × scale） */
+  scale: number;
+  /** normalized を出した方式 */
+  scoring: ScoringMode;
+  /** 解析した言語（auto のときは推定結果） */
+  language: Language;
+  /** 根拠の量 */
+  coverage: Coverage;
+}
@@ -0,0 +1,18 @@
+// ===== 解析ワーカー =====
+// 長文の解析をメインスレッドから外す。辞書のコンパイル結果はワーカー内でキャッシュされる（compiled.ts）。
+// 見出し語モードの語があれば、形態素解析の辞書もワーカーの中で1回だけ読み込む。
+import { runTask, type WorkerRequest, type WorkerResponse } from "./analyzerClient";
+import { prepareTokenizer } from "./tokenizerBrowser";
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { id, kind, text, lexicon, options } = e.data;
+  try {
+    await prepareTokenizer(lexicon);
+    const payload = runTask(kind, text, lexicon, options);
+    ctx.postMessage({ id, ok: true, payload } satisfies WorkerResponse);
+  } catch (err) {
+    ctx.postMessage({ id, ok: false, error: err instanceof Error ? err.message : String(err) } satisfies WorkerResponse);
+  }
+};
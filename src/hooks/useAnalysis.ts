@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  analyze,
+  analyzeTimeline,
+  needsTokenizer,
+  tokenizerReady,
+  type AnalysisResult,
+  type AnalyzeOptions,
+  type Lexicon,
+  type SpeakerAnalysis,
+  type TimelinePoint,
+} from "../engine";
+import { createAnalyzerClient, runTask, type AnalyzerClient, type TaskKind } from "../engine/analyzerClient";
+import { prepareTokenizer } from "../engine/tokenizerBrowser";
+
+// ===== 解析フック =====
+// 短い文はその場で（打鍵ごとに即反映）、長文はワーカーで解析する。
+// 長文の解析中に次の入力が来たら前の解析の結果は捨てる（analyzerClient が最新の依頼だけを待たせておく）。
+// ワーカーで失敗したら前の本文の結果は出し続けずに空へ戻し、error で知らせる。
+// 辞書に見出し語モードの語があれば、その場で解析する前に形態素解析の辞書を読み込む（読み込み中は pending）。
+
+/** これ以上の文字数はワーカーに回す */
+export const WORKER_MIN_CHARS = 5000;
+
+function useEngineTask<T>(
+  kind: TaskKind,
+  text: string,
+  lexicon: Lexicon,
+  options: AnalyzeOptions,
+  enabled: boolean,
+  runSync: () => T,
+  empty: T
+): { value: T; pending: boolean; error: string | null } {
+  const { relationBoost, scoring, modifiers, overlap, normalize, language, builtinCategories } = options;
+  const large = text.length >= WORKER_MIN_CHARS;
+  // その場で解析するのに形態素解析の辞書を待っているか（ワーカー側はワーカーの中で読む）
+  const [dictTick, setDictTick] = useState(0);
+  const [dictError, setDictError] = useState<string | null>(null);
+  const waitDict = enabled && !large && needsTokenizer(lexicon) && !tokenizerReady();
+  const deps = [enabled, large, text, lexicon, relationBoost, scoring, modifiers, overlap, normalize, language, builtinCategories, dictTick];
+
+  const syncValue = useMemo(() => (enabled && !large && !waitDict ? runSync() : null), deps);
+
+  useEffect(() => {
+    if (!waitDict) return;
+    let alive = true;
+    prepareTokenizer(lexicon)
+      .then(() => {
+        if (!alive) return;
+        setDictError(null);
+        setDictTick((n) => n + 1);
+      })
+      .catch((e: unknown) => {
+        if (alive) setDictError(e instanceof Error ? e.message : String(e));
+      });
+    return () => { alive = false; };
+  }, [waitDict, lexicon]);
+
+  const clientRef = useRef<AnalyzerClient | null>(null);
+  const [asyncValue, setAsyncValue] = useState<T | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => () => clientRef.current?.dispose(), []);
+
+  useEffect(() => {
+    if (!enabled || !large) {
+      clientRef.current?.cancel();
+      setPending(false);
+      setError(null);
+      return;
+    }
+    const client = (clientRef.current ??= createAnalyzerClient());
+    let alive = true;
+    setPending(true);
+    client
+      .run(kind, text, lexicon, { relationBoost, scoring, modifiers, overlap, normalize, language, builtinCategories })
+      .then((v) => {
+        if (!alive || v === null) return;
+        setAsyncValue(v as T);
+        setError(null);
+        setPending(false);
+      })
+      .catch((e: unknown) => {
+        if (!alive) return;
+        setAsyncValue(null);
+        setError(e instanceof Error ? e.message : String(e));
+        setPending(false);
+      });
+    return () => { alive = false; };
+  }, deps);
+
+  const value = syncValue ?? (enabled && large ? asyncValue : null) ?? empty;
+  if (waitDict) return { value: empty, pending: !dictError, error: dictError };
+  return { value, pending, error: enabled && large ? error : null };
+}
+
+export function useAnalysis(text: string, lexicon: Lexicon, options: AnalyzeOptions) {
+  const empty = useMemo(() => analyze("", lexicon, options), [lexicon, options.scoring, options.language]);
+  const { value, pending, error } = useEngineTask<AnalysisResult>(
+    "analyze", text, lexicon, options, true,
+    () => analyze(text, lexicon, options),
+    empty
+  );
+  return { result: value, pending, error };
+}
+
+const NO_POINTS: TimelinePoint[] = [];
+
+export function useTimeline(text: string, lexicon: Lexicon, options: AnalyzeOptions, enabled: boolean) {
+  const { value, pending, error } = useEngineTask<TimelinePoint[]>(
+    "timeline", text, lexicon, options, enabled,
+    () => analyzeTimeline(text, lexicon, options),
+    NO_POINTS
+  );
+  return { timeline: value, pending, error };
+}
+
+const NO_SPEAKERS: SpeakerAnalysis[] = [];
+
+/** 会話モードの話者ごとの解析（会話ログとして読めない本文は空） */
+export function useSpeakers(text: string, lexicon: Lexicon, options: AnalyzeOptions, enabled: boolean) {
+  const { value, pending, error } = useEngineTask<SpeakerAnalysis[]>(
+    "speakers", text, lexicon, options, enabled,
+    () => runTask("speakers", text, lexicon, options),
+    NO_SPEAKERS
+  );
+  return { speakers: value, pending, error };
+}